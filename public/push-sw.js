@@ -0,0 +1,32 @@
+// Shows reminders pushed by the agent while the app is closed, and opens
+// the app when one is clicked
+
+self.addEventListener("push", (event) => {
+  let message = { title: "Reminder", body: "" };
+  try {
+    message = event.data ? event.data.json() : message;
+  } catch {
+    message.body = event.data ? event.data.text() : "";
+  }
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url || "/" }
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin)
+    .href;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const open = windows.find((client) => client.url.startsWith(url));
+        return open ? open.focus() : self.clients.openWindow(url);
+      })
+  );
+});
@@ -4,7 +4,22 @@ import { useAgent } from "agents/react";
 import { isToolUIPart } from "ai";
 import { useAgentChat } from "agents/ai-react";
 import type { UIMessage } from "@ai-sdk/react";
-import type { tools } from "./tools";
+import {
+  APPROVAL,
+  type ChatState,
+  type NotificationDelivery,
+  type TaskRun,
+  type TaskRunNotification,
+  type ToolCallPreview
+} from "./shared";
+import { DEFAULT_MODEL_ID, MODELS } from "./lib/models";
+import { getToolPolicy, requiresApproval } from "./lib/tool-registry";
+import type { ToolInputSchema } from "./lib/tool-input-form";
+import {
+  type ApprovalContext,
+  describeApprovalPolicy,
+  policyForSimilarCalls
+} from "./lib/approval-policy";
 
 // Component imports
 import { Button } from "@/components/button/Button";
@@ -12,12 +27,20 @@ import { Card } from "@/components/card/Card";
 import { Avatar } from "@/components/avatar/Avatar";
 import { Toggle } from "@/components/toggle/Toggle";
 import { Textarea } from "@/components/textarea/Textarea";
+import { Select } from "@/components/select/Select";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import { GoogleConnection } from "@/components/google-connection/GoogleConnection";
+import { TaskPanel } from "@/components/task-panel/TaskPanel";
+import { NotificationSettings } from "@/components/notification-settings/NotificationSettings";
+import type { DeliveryAttempt } from "@/lib/notifications";
+import { isOverdue } from "@/lib/tasks";
+import { DEFAULT_WORKING_HOURS } from "@/lib/availability";
 
 // Icon imports
 import {
   Bug,
+  ListChecks,
   Moon,
   Robot,
   Sun,
@@ -26,12 +49,17 @@ import {
   Stop
 } from "@phosphor-icons/react";
 
-// List of tools that require human confirmation
-// NOTE: this should match the tools that don't have execute functions in tools.ts
-const toolsRequiringConfirmation: (keyof typeof tools)[] = [
-  "getWeatherInformation",
-  "createCalendarEvent"
-];
+// What the conditions offered on an approval card are checked against.
+// Changes to existing events are never offered "no attendees" here, since
+// the event's attendees are not known
+function approvalContextOf(state: ChatState): ApprovalContext {
+  return {
+    timeZone: state.timeZone,
+    defaultCalendarId: state.defaultCalendar?.id,
+    workingHours: DEFAULT_WORKING_HOURS,
+    now: new Date()
+  };
+}
 
 export default function Chat() {
   const [theme, setTheme] = useState<"dark" | "light">(() => {
@@ -40,6 +68,7 @@ export default function Chat() {
     return (savedTheme as "dark" | "light") || "dark";
   });
   const [showDebug, setShowDebug] = useState(false);
+  const [showTasks, setShowTasks] = useState(false);
   const [textareaHeight, setTextareaHeight] = useState("auto");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -71,8 +100,43 @@ export default function Chat() {
     setTheme(newTheme);
   };
 
-  const agent = useAgent({
-    agent: "chat"
+  const [agentState, setAgentState] = useState<ChatState>();
+  const [taskRunNotice, setTaskRunNotice] = useState<TaskRun>();
+
+  // Each browser session has an agent of its own
+  const { agentName } = use(sessionPromise);
+  const agent = useAgent<ChatState>({
+    agent: "chat",
+    name: agentName,
+    // Lets the agent read "2pm" as 2pm where the user is
+    query: {
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    },
+    onStateUpdate: (state) => setAgentState(state),
+    onMessage: (message) => {
+      if (typeof message.data !== "string") return;
+      let notification: TaskRunNotification;
+      try {
+        notification = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      if (notification.type !== "task-run") return;
+      setTaskRunNotice(notification.run);
+      // The chat shows the result too; a system notification is only
+      // needed when the tab is in the background
+      if (
+        document.hidden &&
+        "Notification" in window &&
+        Notification.permission === "granted"
+      ) {
+        // Tagged like the agent's push, so the two show as one
+        new Notification(`⏰ ${notification.run.description}`, {
+          body: notification.run.result.slice(0, 200),
+          tag: `task-run-${notification.run.id}`
+        });
+      }
+    }
   });
 
   const [agentInput, setAgentInput] = useState("");
@@ -111,10 +175,47 @@ export default function Chat() {
     status,
     sendMessage,
     stop
-  } = useAgentChat<unknown, UIMessage<{ createdAt: string }>>({
+  } = useAgentChat<ChatState, UIMessage<{ createdAt: string }>>({
     agent
   });
 
+  // Calls the user's approval policies allow are approved without a card.
+  // The agent decides, since it can look up the event a change applies to,
+  // and checks again before running the call
+  const checkedCalls = useRef(new Set<string>());
+  useEffect(() => {
+    if (!agentState) return;
+    for (const message of agentMessages) {
+      for (const part of message.parts ?? []) {
+        if (!isToolUIPart(part) || part.state !== "input-available") continue;
+        const toolName = part.type.replace("tool-", "");
+        const policy = agentState.approvalPolicies?.[toolName];
+        if (
+          checkedCalls.current.has(part.toolCallId) ||
+          !requiresApproval(toolName, agentState.toolPolicies) ||
+          !policy ||
+          policy.mode === "ask"
+        ) {
+          continue;
+        }
+        checkedCalls.current.add(part.toolCallId);
+        agent
+          .call<boolean>("isToolCallPreApproved", [toolName, part.input])
+          .then((allowed) => {
+            if (allowed) {
+              addToolResult({
+                tool: toolName,
+                toolCallId: part.toolCallId,
+                output: APPROVAL.AUTO
+              });
+            }
+          })
+          // The card stays up and the user decides
+          .catch((error) => console.error("Approval policy check failed:", error));
+      }
+    }
+  }, [agentMessages, agentState, addToolResult, agent]);
+
   // Scroll to bottom when messages change
   useEffect(() => {
     agentMessages.length > 0 && scrollToBottom();
@@ -125,13 +226,17 @@ export default function Chat() {
       (part) =>
         isToolUIPart(part) &&
         part.state === "input-available" &&
-        // Manual check inside the component
-        toolsRequiringConfirmation.includes(
-          part.type.replace("tool-", "") as keyof typeof tools
+        requiresApproval(
+          part.type.replace("tool-", ""),
+          agentState?.toolPolicies
         )
     )
   );
 
+  const overdueCount = (agentState?.tasks ?? []).filter((task) =>
+    isOverdue(task)
+  ).length;
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
   };
@@ -163,6 +268,38 @@ export default function Chat() {
             <h2 className="font-semibold text-base">AI Chat Agent</h2>
           </div>
 
+          <Select
+            size="sm"
+            className="max-w-[9rem]"
+            options={MODELS.map((model) => ({
+              value: model.id,
+              label: model.label
+            }))}
+            value={agentState?.modelId ?? DEFAULT_MODEL_ID}
+            setValue={(modelId) => agent.call("setModel", [modelId])}
+          />
+
+          <GoogleConnection
+            state={agentState}
+            onDisconnect={() => agent.call("disconnectGoogle")}
+          />
+
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9 relative"
+            aria-label="Toggle task panel"
+            onClick={() => setShowTasks((prev) => !prev)}
+          >
+            <ListChecks size={20} />
+            {overdueCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4">
+                {overdueCount}
+              </span>
+            )}
+          </Button>
+
           <div className="flex items-center gap-2 mr-2">
             <Bug size={16} />
             <Toggle
@@ -193,6 +330,75 @@ export default function Chat() {
           </Button>
         </div>
 
+        {agentState?.googleStatus === "reconnect_required" && (
+          <div className="px-4 py-2 text-xs bg-yellow-500/10 border-b border-yellow-500/30 text-yellow-600 dark:text-yellow-400">
+            ⚠️ Google Calendar access has expired or been revoked. Please
+            reconnect Google Calendar to keep using the calendar tools.
+          </div>
+        )}
+
+        {taskRunNotice && (
+          <div
+            className={`px-4 py-2 text-xs border-b flex items-center justify-between gap-2 ${
+              taskRunNotice.status === "failed"
+                ? "bg-red-500/10 border-red-500/30 text-red-600 dark:text-red-400"
+                : "bg-green-500/10 border-green-500/30 text-green-600 dark:text-green-400"
+            }`}
+          >
+            <span>
+              ⏰ Scheduled task "{taskRunNotice.description}"{" "}
+              {taskRunNotice.status === "failed" ? "failed" : "ran"}; see the
+              chat for the result.
+            </span>
+            <button
+              type="button"
+              aria-label="Dismiss"
+              onClick={() => setTaskRunNotice(undefined)}
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+        {showTasks && (
+          <TaskPanel
+            tasks={agentState?.tasks ?? []}
+            schedules={agentState?.schedules ?? []}
+            timeZone={agentState?.timeZone ?? "UTC"}
+            onCompleteTask={(id) => agent.call("completeTask", [id])}
+            onCancelTask={(id) =>
+              agent.call("updateTask", [id, { status: "cancelled" }])
+            }
+            onMoveTask={(id, due) => agent.call("updateTask", [id, { due }])}
+            onCancelSchedule={(id) => agent.call("cancelScheduledTask", [id])}
+            onMoveSchedule={(id, at) => agent.call("rescheduleTask", [id, at])}
+            onSnoozeSchedule={(id) =>
+              agent.call("snoozeTask", [id, "1 hour"])
+            }
+            onClose={() => setShowTasks(false)}
+          >
+            <NotificationSettings
+              preferences={agentState?.notificationPreferences}
+              loadVapidPublicKey={() =>
+                agent.call<string | null>("getVapidPublicKey")
+              }
+              onSubscribe={(subscription) =>
+                agent.call("subscribeToPush", [subscription])
+              }
+              onUnsubscribe={(endpoint) =>
+                agent.call("unsubscribeFromPush", [endpoint])
+              }
+              onSave={(preferences) =>
+                agent.call("setNotificationPreferences", [preferences])
+              }
+              onTest={() => agent.call<DeliveryAttempt[]>("sendTestNotification")}
+              loadDeliveries={() =>
+                agent.call<NotificationDelivery[]>("getNotificationDeliveries")
+              }
+            />
+          </TaskPanel>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-24 max-h-[calc(100vh-10rem)]">
           {/* Show agent thinking indicator when streaming */}
@@ -227,7 +433,7 @@ export default function Chat() {
                   <ul className="text-sm text-left space-y-2">
                     <li className="flex items-center gap-2">
                       <span className="text-[#F48120]">•</span>
-                      <span>Weather information for any city (requires approval)</span>
+                      <span>Weather and forecast for any city (auto-executes)</span>
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="text-[#F48120]">•</span>
@@ -275,10 +481,22 @@ export default function Chat() {
                       if (!isToolUIPart(part)) return null;
                       const toolCallId = part.toolCallId;
                       const toolName = part.type.replace("tool-", "");
-                      const needsConfirmation =
-                        toolsRequiringConfirmation.includes(
-                          toolName as keyof typeof tools
-                        );
+                      const needsConfirmation = requiresApproval(
+                        toolName,
+                        agentState?.toolPolicies
+                      );
+
+                      // Destructive tools always ask, so they get no shortcut
+                      const similarCallsPolicy =
+                        needsConfirmation &&
+                        agentState &&
+                        getToolPolicy(toolName, agentState.toolPolicies)
+                          .risk !== "destructive"
+                          ? policyForSimilarCalls(
+                              part.input,
+                              approvalContextOf(agentState)
+                            )
+                          : null;
 
                       if (showDebug) return null;
 
@@ -302,6 +520,47 @@ export default function Chat() {
                               output: result
                             });
                           }}
+                          loadPreview={() =>
+                            agent.call<ToolCallPreview | null>(
+                              "previewToolCall",
+                              [toolName, part.input]
+                            )
+                          }
+                          loadInputSchema={() =>
+                            agent.call<ToolInputSchema | null>(
+                              "getToolInputSchema",
+                              [toolName]
+                            )
+                          }
+                          approveSimilar={
+                            similarCallsPolicy
+                              ? {
+                                  description: `From now on: ${describeApprovalPolicy(similarCallsPolicy).toLowerCase()}`,
+                                  onApprove: async () => {
+                                    await agent.call("setApprovalPolicy", [
+                                      toolName,
+                                      similarCallsPolicy
+                                    ]);
+                                    addToolResult({
+                                      tool: toolName,
+                                      toolCallId,
+                                      output: APPROVAL.YES
+                                    });
+                                  }
+                                }
+                              : undefined
+                          }
+                          onPickSlot={(slot) =>
+                            sendMessage({
+                              role: "user",
+                              parts: [
+                                {
+                                  type: "text",
+                                  text: `Book ${slot.label}${slot.attendees.length > 0 ? ` with ${slot.attendees.join(", ")}` : ""} (startTime ${slot.start}, endTime ${slot.end})`
+                                }
+                              ]
+                            })
+                          }
                         />
                       );
                     })}
@@ -458,6 +717,11 @@ export default function Chat() {
   );
 }
 
+// Also sets the session cookie that the Worker checks on agent requests
+const sessionPromise = fetch("/session").then((res) =>
+  res.json<{ agentName: string }>()
+);
+
 const hasOpenAiKeyPromise = fetch("/check-open-ai-key").then((res) =>
   res.json<{ success: boolean }>()
 );
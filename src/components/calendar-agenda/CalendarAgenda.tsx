@@ -0,0 +1,107 @@
+import { CalendarBlank, MapPin } from "@phosphor-icons/react";
+import type {
+  CalendarEventPage,
+  CalendarEventSummary
+} from "@/lib/google-calendar";
+import { formatInTimeZone } from "@/lib/timezone";
+
+export function isCalendarEventPage(
+  result: unknown
+): result is CalendarEventPage {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "events" in result &&
+    "timeZone" in result &&
+    Array.isArray((result as CalendarEventPage).events)
+  );
+}
+
+const dayFormat: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  month: "short",
+  day: "numeric"
+};
+
+const timeFormat: Intl.DateTimeFormatOptions = {
+  hour: "numeric",
+  minute: "2-digit"
+};
+
+// All-day events carry a bare YYYY-MM-DD date, which is read as UTC midnight
+function dayLabel(event: CalendarEventSummary, timeZone: string) {
+  return event.allDay
+    ? formatInTimeZone(new Date(event.start), "UTC", dayFormat)
+    : formatInTimeZone(new Date(event.start), timeZone, dayFormat);
+}
+
+function timeLabel(event: CalendarEventSummary, timeZone: string) {
+  if (event.allDay) return "All day";
+  const start = formatInTimeZone(new Date(event.start), timeZone, timeFormat);
+  const end = formatInTimeZone(new Date(event.end), timeZone, timeFormat);
+  return `${start} – ${end}`;
+}
+
+interface CalendarAgendaProps {
+  page: CalendarEventPage;
+}
+
+/**
+ * Compact day-by-day rendering of calendar events returned by the read tools
+ */
+export function CalendarAgenda({ page }: CalendarAgendaProps) {
+  if (page.events.length === 0) {
+    return <p className="text-xs text-muted-foreground">No events found.</p>;
+  }
+
+  const days = new Map<string, CalendarEventSummary[]>();
+  for (const event of page.events) {
+    const label = dayLabel(event, page.timeZone);
+    days.set(label, [...(days.get(label) ?? []), event]);
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      {[...days].map(([day, events]) => (
+        <div key={day}>
+          <h6 className="font-semibold text-[#F48120] mb-1">{day}</h6>
+          <ul className="space-y-1">
+            {events.map((event) => (
+              <li key={event.id} className="flex gap-2">
+                <span className="w-32 flex-shrink-0 text-muted-foreground">
+                  {timeLabel(event, page.timeZone)}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="flex items-center gap-1 font-medium">
+                    <CalendarBlank size={12} className="flex-shrink-0" />
+                    {event.htmlLink ? (
+                      <a
+                        href={event.htmlLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="truncate hover:underline"
+                      >
+                        {event.title}
+                      </a>
+                    ) : (
+                      <span className="truncate">{event.title}</span>
+                    )}
+                  </span>
+                  {event.location && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <MapPin size={12} className="flex-shrink-0" />
+                      <span className="truncate">{event.location}</span>
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+      {page.nextPageToken && (
+        <p className="text-muted-foreground">More events available…</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { CalendarCheck, CalendarPlus } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import type { ChatState } from "@/shared";
+
+interface GoogleConnectionProps {
+  state?: ChatState;
+  onDisconnect: () => void;
+}
+
+/**
+ * Google Calendar connection status, with connect and disconnect actions
+ */
+export function GoogleConnection({
+  state,
+  onDisconnect
+}: GoogleConnectionProps) {
+  // The Worker connects the account to the agent of this browser's session
+  const connectHref = "/oauth/google/start";
+
+  if (state?.googleStatus === "connected" && state.googleAccount) {
+    return (
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <CalendarCheck size={16} className="text-green-600" />
+        <span className="max-w-[8rem] truncate" title={state.googleAccount}>
+          {state.googleAccount}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onDisconnect}>
+          Disconnect
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button as="a" href={connectHref} variant="secondary" size="sm">
+      <CalendarPlus size={14} />
+      {state?.googleStatus === "reconnect_required"
+        ? "Reconnect Google Calendar"
+        : "Connect Google Calendar"}
+    </Button>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { Bell, CheckCircle, XCircle } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { inputClasses } from "@/components/input/Input";
+import { Toggle } from "@/components/toggle/Toggle";
+import { base64UrlDecode } from "@/lib/crypto";
+import type {
+  DeliveryAttempt,
+  NotificationPreferences
+} from "@/lib/notifications";
+import type { PushSubscriptionRecord } from "@/lib/web-push";
+import { cn } from "@/lib/utils";
+import type { NotificationDelivery } from "@/shared";
+
+interface NotificationSettingsProps {
+  preferences?: NotificationPreferences;
+  // Null when the deployment has no VAPID keys
+  loadVapidPublicKey: () => Promise<string | null>;
+  onSubscribe: (subscription: PushSubscriptionRecord) => Promise<unknown>;
+  onUnsubscribe: (endpoint: string) => Promise<unknown>;
+  onSave: (preferences: NotificationPreferences) => Promise<unknown>;
+  onTest: () => Promise<DeliveryAttempt[]>;
+  loadDeliveries: () => Promise<NotificationDelivery[]>;
+}
+
+const fieldClasses = cn(inputClasses, "w-full rounded-md px-2 py-1 text-xs");
+
+const CHANNEL_LABELS: Record<DeliveryAttempt["channel"], string> = {
+  web_push: "Push",
+  email: "Email",
+  webhook: "Webhook"
+};
+
+// This browser's push subscription, registering the service worker that
+// shows pushed reminders the first time
+async function browserPushSubscription(
+  vapidPublicKey: string
+): Promise<PushSubscription> {
+  const registration = await navigator.serviceWorker.register("/push-sw.js");
+  await navigator.serviceWorker.ready;
+  return (
+    (await registration.pushManager.getSubscription()) ??
+    registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlDecode(vapidPublicKey)
+    })
+  );
+}
+
+/**
+ * Where reminders go besides the chat, with a test send and the latest
+ * delivery attempts
+ */
+export function NotificationSettings({
+  preferences,
+  loadVapidPublicKey,
+  onSubscribe,
+  onUnsubscribe,
+  onSave,
+  onTest,
+  loadDeliveries
+}: NotificationSettingsProps) {
+  const [email, setEmail] = useState(preferences?.email ?? "");
+  const [webhookUrl, setWebhookUrl] = useState(preferences?.webhookUrl ?? "");
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [error, setError] = useState<string>();
+  const [busy, setBusy] = useState(false);
+
+  const pushSupported =
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window;
+
+  const refreshDeliveries = () =>
+    loadDeliveries()
+      .then(setDeliveries)
+      .catch(() => setDeliveries([]));
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: load on mount only
+  useEffect(() => {
+    refreshDeliveries();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(undefined);
+    setBusy(true);
+    try {
+      await action();
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const togglePush = () =>
+    run(async () => {
+      if (preferences?.webPush) {
+        const registration =
+          await navigator.serviceWorker.getRegistration("/push-sw.js");
+        const subscription = await registration?.pushManager.getSubscription();
+        if (subscription) {
+          await subscription.unsubscribe();
+          await onUnsubscribe(subscription.endpoint);
+        } else {
+          await onSave({ ...preferences, webPush: false });
+        }
+        return;
+      }
+      const vapidPublicKey = await loadVapidPublicKey();
+      if (!vapidPublicKey) {
+        throw new Error("Push notifications are not set up on this server");
+      }
+      if ((await Notification.requestPermission()) !== "granted") {
+        throw new Error("Notifications are blocked for this site");
+      }
+      const subscription = await browserPushSubscription(vapidPublicKey);
+      await onSubscribe(subscription.toJSON() as PushSubscriptionRecord);
+    });
+
+  const dirty =
+    email !== (preferences?.email ?? "") ||
+    webhookUrl !== (preferences?.webhookUrl ?? "");
+
+  return (
+    <section className="space-y-2">
+      <h4 className="flex items-center gap-1 text-xs font-semibold text-[#F48120] uppercase tracking-wide">
+        <Bell size={12} />
+        Reminder notifications
+      </h4>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span>
+          Push to this browser
+          {!pushSupported && (
+            <span className="text-muted-foreground"> (not supported)</span>
+          )}
+        </span>
+        {pushSupported && (
+          <Toggle
+            size="sm"
+            toggled={preferences?.webPush === true}
+            onClick={() => !busy && togglePush()}
+          />
+        )}
+      </div>
+
+      <form
+        className="space-y-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          run(() =>
+            onSave({
+              ...preferences,
+              email: email || undefined,
+              webhookUrl: webhookUrl || undefined
+            })
+          );
+        }}
+      >
+        <input
+          type="email"
+          aria-label="Email address for reminders"
+          placeholder="Email reminders to your Google address…"
+          className={fieldClasses}
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+        />
+        <input
+          type="url"
+          aria-label="Webhook URL for reminders"
+          placeholder="POST reminders to https://…"
+          className={fieldClasses}
+          value={webhookUrl}
+          onChange={(event) => setWebhookUrl(event.target.value)}
+        />
+        <div className="flex gap-2 justify-end">
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={busy}
+            onClick={() =>
+              run(async () => {
+                const attempts = await onTest();
+                if (attempts.length === 0) {
+                  throw new Error("No channel is turned on");
+                }
+                await refreshDeliveries();
+              })
+            }
+          >
+            Send test
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            size="sm"
+            disabled={busy || !dirty}
+          >
+            Save
+          </Button>
+        </div>
+      </form>
+
+      {deliveries.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {deliveries.slice(0, 5).map((delivery) => (
+            <li
+              key={delivery.id}
+              className="flex items-start gap-1"
+              title={delivery.error}
+            >
+              {delivery.status === "delivered" ? (
+                <CheckCircle
+                  size={12}
+                  className="mt-0.5 flex-shrink-0 text-green-600"
+                />
+              ) : (
+                <XCircle
+                  size={12}
+                  className="mt-0.5 flex-shrink-0 text-red-500"
+                />
+              )}
+              <span className="min-w-0 break-words">
+                {CHANNEL_LABELS[delivery.channel]} · {delivery.title}
+                {delivery.error && (
+                  <span className="text-red-500"> — {delivery.error}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
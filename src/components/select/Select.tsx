@@ -3,6 +3,7 @@ import { useState } from "react";
 
 export type OptionProps = {
   value: string;
+  label?: string;
 };
 
 export type SelectProps = {
@@ -58,7 +59,7 @@ export const Select = ({
       {options.map((option, index) => (
         // biome-ignore lint/suspicious/noArrayIndexKey: TODO
         <option value={option.value} key={index}>
-          {option.value}
+          {option.label ?? option.value}
         </option>
       ))}
     </select>
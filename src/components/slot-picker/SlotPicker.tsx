@@ -0,0 +1,76 @@
+import { Clock, Warning } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import type { SlotSearchResult } from "@/lib/google-calendar";
+
+export function isSlotSearchResult(
+  result: unknown
+): result is SlotSearchResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "slots" in result &&
+    "durationMinutes" in result &&
+    Array.isArray((result as SlotSearchResult).slots)
+  );
+}
+
+export type PickedSlot = SlotSearchResult["slots"][number] & {
+  attendees: string[];
+};
+
+interface SlotPickerProps {
+  result: SlotSearchResult;
+  // Hands the chosen slot to the create flow
+  onPick?: (slot: PickedSlot) => void;
+}
+
+/**
+ * Ranked free slots returned by findAvailableSlots, best first
+ */
+export function SlotPicker({ result, onPick }: SlotPickerProps) {
+  return (
+    <div className="space-y-2 text-xs">
+      {result.slots.length === 0 ? (
+        <p className="text-muted-foreground">
+          No free {result.durationMinutes}-minute slot in that window.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {result.slots.map((slot, rank) => (
+            <li key={slot.start} className="flex items-center gap-2">
+              <Clock size={12} className="flex-shrink-0 text-[#F48120]" />
+              <span className="flex-1">
+                {slot.label}
+                {rank === 0 && (
+                  <span className="ml-1 text-green-600 dark:text-green-400">
+                    (best)
+                  </span>
+                )}
+              </span>
+              {onPick && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() =>
+                    onPick({ ...slot, attendees: result.attendees })
+                  }
+                >
+                  Book
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {result.unavailable.length > 0 && (
+        <p className="flex items-start gap-1 text-yellow-600 dark:text-yellow-400">
+          <Warning size={12} className="flex-shrink-0 mt-0.5" />
+          Could not see the calendars of{" "}
+          {result.unavailable.map((entry) => entry.calendar).join(", ")}, so
+          these times may still clash for them.
+        </p>
+      )}
+      <p className="text-muted-foreground">Times shown in {result.timeZone}.</p>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import {
+  CaretDown,
+  CaretRight,
+  Check,
+  Clock,
+  Repeat,
+  X
+} from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { inputClasses } from "@/components/input/Input";
+import {
+  isOverdue,
+  type ScheduledItem,
+  snoozedUntil,
+  type Task
+} from "@/lib/tasks";
+import {
+  formatDateTimeLocal,
+  formatInTimeZone,
+  parseDateTimeLocal
+} from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const whenFormat: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+  hour: "numeric",
+  minute: "2-digit"
+};
+
+interface TaskPanelProps {
+  tasks: Task[];
+  schedules: ScheduledItem[];
+  timeZone: string;
+  onCompleteTask: (id: string) => Promise<unknown>;
+  onCancelTask: (id: string) => Promise<unknown>;
+  // Sets a task's due date to an ISO timestamp
+  onMoveTask: (id: string, due: string) => Promise<unknown>;
+  onCancelSchedule: (id: string) => Promise<unknown>;
+  // Moves a one-off schedule to an ISO timestamp
+  onMoveSchedule: (id: string, at: string) => Promise<unknown>;
+  // Pushes a one-off schedule back an hour
+  onSnoozeSchedule: (id: string) => Promise<unknown>;
+  onClose: () => void;
+  // Shown below the lists, e.g. notification settings
+  children?: React.ReactNode;
+}
+
+/**
+ * One row of the panel, with snooze, reschedule and the row's own actions
+ */
+function PanelItem({
+  title,
+  when,
+  whenLabel,
+  timeZone,
+  overdue,
+  detail,
+  snoozeLabel,
+  onSnooze,
+  onReschedule,
+  children
+}: {
+  title: string;
+  when?: string;
+  // Words before the time, e.g. "Due"
+  whenLabel: string;
+  timeZone: string;
+  overdue?: boolean;
+  detail?: React.ReactNode;
+  snoozeLabel?: string;
+  onSnooze?: () => void;
+  onReschedule?: (at: string) => void;
+  children: React.ReactNode;
+}) {
+  const [picking, setPicking] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  return (
+    <li className="rounded-md p-2 bg-neutral-100 dark:bg-neutral-900 space-y-1">
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium break-words">{title}</p>
+          <p
+            className={cn(
+              "text-xs",
+              overdue ? "text-red-500" : "text-muted-foreground"
+            )}
+          >
+            {when
+              ? `${whenLabel} ${formatInTimeZone(new Date(when), timeZone, whenFormat)}`
+              : "No due date"}
+          </p>
+          {detail}
+        </div>
+        <div className="flex flex-shrink-0 items-center gap-1">
+          {onSnooze && (
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              tooltip={snoozeLabel}
+              aria-label={snoozeLabel}
+              onClick={onSnooze}
+            >
+              <Clock size={14} />
+            </Button>
+          )}
+          {onReschedule && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(
+                  formatDateTimeLocal(
+                    when ? new Date(when) : new Date(Date.now() + DAY_MS),
+                    timeZone
+                  )
+                );
+                setPicking((open) => !open);
+              }}
+            >
+              Reschedule
+            </Button>
+          )}
+          {children}
+        </div>
+      </div>
+      {picking && onReschedule && (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            const at = parseDateTimeLocal(draft, timeZone);
+            if (!at) return;
+            onReschedule(at.toISOString());
+            setPicking(false);
+          }}
+        >
+          {/* Read in the user's time zone, which the agent knows */}
+          <input
+            type="datetime-local"
+            aria-label="New time"
+            className={cn(inputClasses, "flex-1 rounded-md px-2 py-1 text-xs")}
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+          />
+          <Button type="submit" variant="primary" size="sm" disabled={!draft}>
+            Save
+          </Button>
+        </form>
+      )}
+    </li>
+  );
+}
+
+function Section({
+  title,
+  count,
+  children
+}: {
+  title: string;
+  count: number;
+  children: React.ReactNode;
+}) {
+  const [open, setOpen] = useState(true);
+  return (
+    <section className="space-y-2">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 text-xs font-semibold text-[#F48120] uppercase tracking-wide"
+        onClick={() => setOpen((current) => !current)}
+      >
+        {open ? <CaretDown size={12} /> : <CaretRight size={12} />}
+        {title} ({count})
+      </button>
+      {open &&
+        (count > 0 ? (
+          <ul className="space-y-2">{children}</ul>
+        ) : (
+          <p className="text-xs text-muted-foreground">Nothing here.</p>
+        ))}
+    </section>
+  );
+}
+
+/**
+ * Open tasks and upcoming scheduled tasks from the agent's state, with
+ * actions that call the agent directly instead of asking the model
+ */
+export function TaskPanel({
+  tasks,
+  schedules,
+  timeZone,
+  onCompleteTask,
+  onCancelTask,
+  onMoveTask,
+  onCancelSchedule,
+  onMoveSchedule,
+  onSnoozeSchedule,
+  onClose,
+  children
+}: TaskPanelProps) {
+  const [error, setError] = useState<string>();
+  const now = new Date();
+
+  // Actions change the state, which re-renders the panel; only errors
+  // need handling here
+  const run = (action: Promise<unknown>) => {
+    setError(undefined);
+    action.catch((reason) =>
+      setError(reason instanceof Error ? reason.message : String(reason))
+    );
+  };
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-20 w-80 max-w-full flex flex-col bg-background border-l border-neutral-300 dark:border-neutral-800 shadow-xl">
+      <div className="px-4 py-3 border-b border-neutral-300 dark:border-neutral-800 flex items-center justify-between">
+        <h3 className="font-semibold text-base">Tasks</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          shape="square"
+          aria-label="Close task panel"
+          onClick={onClose}
+        >
+          <X size={16} />
+        </Button>
+      </div>
+
+      {error && (
+        <p className="px-4 py-2 text-xs bg-red-500/10 text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <Section title="To do" count={tasks.length}>
+          {tasks.map((task) => (
+            <PanelItem
+              key={task.id}
+              title={task.title}
+              when={task.due}
+              whenLabel={isOverdue(task, now) ? "Overdue since" : "Due"}
+              timeZone={timeZone}
+              overdue={isOverdue(task, now)}
+              detail={
+                (task.priority !== "medium" || task.tags.length > 0) && (
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      task.priority !== "medium" && `${task.priority} priority`,
+                      ...task.tags.map((tag) => `#${tag}`)
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )
+              }
+              snoozeLabel="Snooze a day"
+              onSnooze={
+                task.due
+                  ? () =>
+                      run(onMoveTask(task.id, snoozedUntil(task.due, DAY_MS)))
+                  : undefined
+              }
+              onReschedule={(due) => run(onMoveTask(task.id, due))}
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                shape="square"
+                tooltip="Mark as done"
+                aria-label="Mark as done"
+                onClick={() => run(onCompleteTask(task.id))}
+              >
+                <Check size={14} className="text-green-600" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                shape="square"
+                tooltip="Cancel task"
+                aria-label="Cancel task"
+                onClick={() => run(onCancelTask(task.id))}
+              >
+                <X size={14} className="text-red-500" />
+              </Button>
+            </PanelItem>
+          ))}
+        </Section>
+
+        <Section title="Scheduled" count={schedules.length}>
+          {schedules.map((schedule) => (
+            <PanelItem
+              key={schedule.id}
+              title={schedule.description}
+              when={schedule.nextRun}
+              whenLabel={schedule.cron ? "Next run" : "Runs"}
+              timeZone={timeZone}
+              detail={
+                schedule.cron && (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Repeat size={12} />
+                    Repeats ({schedule.cron} UTC)
+                  </p>
+                )
+              }
+              snoozeLabel="Snooze an hour"
+              onSnooze={
+                schedule.cron
+                  ? undefined
+                  : () => run(onSnoozeSchedule(schedule.id))
+              }
+              onReschedule={
+                schedule.cron
+                  ? undefined
+                  : (at) => run(onMoveSchedule(schedule.id, at))
+              }
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                shape="square"
+                tooltip="Cancel scheduled task"
+                aria-label="Cancel scheduled task"
+                onClick={() => run(onCancelSchedule(schedule.id))}
+              >
+                <X size={14} className="text-red-500" />
+              </Button>
+            </PanelItem>
+          ))}
+        </Section>
+
+        {children}
+      </div>
+    </aside>
+  );
+}
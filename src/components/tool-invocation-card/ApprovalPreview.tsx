@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { Warning } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import type { ToolCallPreview } from "@/shared";
+
+interface ApprovalPreviewProps {
+  loadPreview: () => Promise<ToolCallPreview | null>;
+  // Approves the call with a suggested slot's input merged over the original
+  onPickSuggestion?: (input: Record<string, unknown>) => void;
+}
+
+/**
+ * Before/after table of what approving a tool call will change, plus any
+ * calendar conflicts and alternative slots
+ */
+export function ApprovalPreview({
+  loadPreview,
+  onPickSuggestion
+}: ApprovalPreviewProps) {
+  const [preview, setPreview] = useState<ToolCallPreview | null>();
+
+  // Load once per card; the tool input does not change while awaiting approval
+  // biome-ignore lint/correctness/useExhaustiveDependencies: load on mount only
+  useEffect(() => {
+    let cancelled = false;
+    loadPreview()
+      .then((result) => !cancelled && setPreview(result))
+      .catch((error) => !cancelled && setPreview({ error: String(error) }));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (preview === undefined) {
+    return (
+      <p className="text-xs text-muted-foreground mb-3 animate-pulse">
+        Loading preview…
+      </p>
+    );
+  }
+  if (preview === null) return null;
+
+  return (
+    <div className="mb-3 p-2 bg-neutral-200/50 dark:bg-neutral-800/50 rounded-md">
+      <h5 className="text-xs font-semibold mb-2 text-[#F48120] uppercase tracking-wide">
+        🔍 What will change
+      </h5>
+      {preview.error && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          {preview.error}
+        </p>
+      )}
+      {preview.changes && preview.changes.length === 0 && (
+        <p className="text-xs text-muted-foreground">Nothing will change.</p>
+      )}
+      {preview.changes && preview.changes.length > 0 && (
+        <table className="w-full text-xs">
+          <tbody>
+            {preview.changes.map((change) => (
+              <tr
+                key={change.field}
+                className="align-top border-t border-neutral-300 dark:border-neutral-700 first:border-t-0"
+              >
+                <th className="text-left font-semibold py-1 pr-2 w-20">
+                  {change.field}
+                </th>
+                <td className="py-1 pr-2 text-red-600 dark:text-red-400 line-through break-words">
+                  {change.before ?? "—"}
+                </td>
+                <td className="py-1 text-green-600 dark:text-green-400 break-words">
+                  {change.after ?? "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {preview.conflicts && preview.conflicts.length > 0 && (
+        <div className="mt-2 p-2 bg-yellow-500/10 border border-yellow-500/30 rounded-md text-xs">
+          <p className="flex items-center gap-1 font-semibold text-yellow-600 dark:text-yellow-400 mb-1">
+            <Warning size={12} className="flex-shrink-0" />
+            Conflicts with existing events
+          </p>
+          <ul className="space-y-0.5">
+            {preview.conflicts.map((conflict) => (
+              <li key={`${conflict.calendar}-${conflict.when}`}>
+                <span className="font-medium">{conflict.calendar}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {conflict.when}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {preview.suggestions &&
+        preview.suggestions.length > 0 &&
+        onPickSuggestion && (
+          <div className="mt-2 text-xs">
+            <p className="font-semibold mb-1">Free instead:</p>
+            <div className="flex flex-wrap gap-1">
+              {preview.suggestions.map((suggestion) => (
+                <Button
+                  key={suggestion.label}
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onPickSuggestion(suggestion.input)}
+                >
+                  {suggestion.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+    </div>
+  );
+}
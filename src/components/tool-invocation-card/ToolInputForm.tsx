@@ -0,0 +1,292 @@
+import { useEffect, useState } from "react";
+import { CalendarBlank, X } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { inputClasses } from "@/components/input/Input";
+import {
+  diffToolInput,
+  editedInput,
+  type FormField,
+  formFieldsFromSchema,
+  type ToolInputSchema
+} from "@/lib/tool-input-form";
+import { cn } from "@/lib/utils";
+import type { FieldChange } from "@/shared";
+
+interface ToolInputFormProps {
+  input: Record<string, unknown>;
+  loadSchema: () => Promise<ToolInputSchema | null>;
+  // Approves the call with the edited fields (null for cleared ones)
+  onApprove: (input: Record<string, unknown>, edits: FieldChange[]) => void;
+  onCancel: () => void;
+}
+
+const fieldClasses = cn(inputClasses, "w-full rounded-md px-2 py-1 text-xs");
+
+function ChipsField({
+  value,
+  onChange,
+  placeholder
+}: {
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}) {
+  const [draft, setDraft] = useState("");
+  const add = () => {
+    const entries = draft
+      .split(/[\s,;]+/)
+      .map((entry) => entry.trim())
+      .filter((entry) => entry && !value.includes(entry));
+    if (entries.length > 0) onChange([...value, ...entries]);
+    setDraft("");
+  };
+
+  return (
+    <div className={cn(fieldClasses, "flex flex-wrap items-center gap-1")}>
+      {value.map((chip) => (
+        <span
+          key={chip}
+          className="flex items-center gap-1 rounded-full bg-[#F48120]/15 px-2 py-0.5"
+        >
+          {chip}
+          <button
+            type="button"
+            aria-label={`Remove ${chip}`}
+            onClick={() => onChange(value.filter((entry) => entry !== chip))}
+          >
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        className="min-w-[8rem] flex-1 bg-transparent focus:outline-none"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={add}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" || event.key === ",") {
+            event.preventDefault();
+            add();
+          } else if (event.key === "Backspace" && !draft && value.length) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+function DateTimeField({
+  value,
+  onChange
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        className={fieldClasses}
+        value={value}
+        placeholder="e.g. tomorrow at 2pm"
+        onChange={(event) => onChange(event.target.value)}
+      />
+      {/* Picked times are local ISO times, read in the user's time zone */}
+      <label className="relative flex-shrink-0 cursor-pointer p-1 text-[#F48120]">
+        <CalendarBlank size={16} />
+        <input
+          type="datetime-local"
+          aria-label="Pick a date and time"
+          className="absolute inset-0 opacity-0 cursor-pointer"
+          onChange={(event) =>
+            event.target.value && onChange(event.target.value)
+          }
+        />
+      </label>
+    </div>
+  );
+}
+
+function FieldInput({
+  field,
+  value,
+  onChange
+}: {
+  field: FormField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  switch (field.kind) {
+    case "chips":
+      return (
+        <ChipsField
+          value={Array.isArray(value) ? value.map(String) : []}
+          onChange={onChange}
+          placeholder="Add and press Enter"
+        />
+      );
+    case "datetime":
+      return (
+        <DateTimeField
+          value={typeof value === "string" ? value : ""}
+          onChange={onChange}
+        />
+      );
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(event) => onChange(event.target.checked)}
+        />
+      );
+    case "number":
+      return (
+        <input
+          type="number"
+          className={fieldClasses}
+          value={typeof value === "number" ? value : ""}
+          onChange={(event) =>
+            onChange(
+              event.target.value === "" ? undefined : Number(event.target.value)
+            )
+          }
+        />
+      );
+    case "choice":
+      return (
+        <select
+          className={fieldClasses}
+          value={value === undefined ? "" : String(value)}
+          onChange={(event) => onChange(event.target.value || undefined)}
+        >
+          {!field.required && <option value="">—</option>}
+          {field.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    case "textarea":
+      return (
+        <textarea
+          className={fieldClasses}
+          rows={2}
+          value={typeof value === "string" ? value : ""}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+    default:
+      return (
+        <input
+          className={fieldClasses}
+          value={typeof value === "string" ? value : ""}
+          onChange={(event) => onChange(event.target.value)}
+        />
+      );
+  }
+}
+
+/**
+ * Form over a pending tool call's arguments, generated from the tool's
+ * input schema, so the user can fix them before approving
+ */
+export function ToolInputForm({
+  input,
+  loadSchema,
+  onApprove,
+  onCancel
+}: ToolInputFormProps) {
+  const [fields, setFields] = useState<FormField[] | null>();
+  const [values, setValues] = useState<Record<string, unknown>>(input);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: load on mount only
+  useEffect(() => {
+    let cancelled = false;
+    loadSchema()
+      .then(
+        (schema) =>
+          !cancelled && setFields(schema ? formFieldsFromSchema(schema) : null)
+      )
+      .catch(() => !cancelled && setFields(null));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (fields === undefined) {
+    return (
+      <p className="text-xs text-muted-foreground mb-3 animate-pulse">
+        Loading form…
+      </p>
+    );
+  }
+  if (fields === null || fields.length === 0) {
+    return (
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          This tool's arguments cannot be edited.
+        </p>
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>
+          Back
+        </Button>
+      </div>
+    );
+  }
+
+  const edits = diffToolInput(input, values);
+  const missing = fields.filter(
+    (field) =>
+      field.required &&
+      (values[field.name] === undefined || values[field.name] === "")
+  );
+
+  return (
+    <form
+      className="mb-3 space-y-2 p-2 bg-neutral-200/50 dark:bg-neutral-800/50 rounded-md"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (edits.length > 0 && missing.length === 0) {
+          onApprove(editedInput(values, edits), edits);
+        }
+      }}
+    >
+      <h5 className="text-xs font-semibold text-[#F48120] uppercase tracking-wide">
+        ✏️ Edit arguments
+      </h5>
+      {fields.map((field) => (
+        <div key={field.name} className="space-y-1">
+          <span
+            className="block text-xs font-semibold"
+            title={field.description}
+          >
+            {field.label}
+            {field.required && <span className="text-red-500"> *</span>}
+          </span>
+          <FieldInput
+            field={field}
+            value={values[field.name]}
+            onChange={(value) =>
+              setValues((current) => ({ ...current, [field.name]: value }))
+            }
+          />
+        </div>
+      ))}
+      <div className="flex gap-2 justify-end">
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="primary"
+          size="sm"
+          disabled={edits.length === 0 || missing.length > 0}
+        >
+          Approve with changes
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -3,7 +3,27 @@ import type { ToolUIPart } from "ai";
 import { Robot, CaretDown } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
-import { APPROVAL } from "@/shared";
+import {
+  CalendarAgenda,
+  isCalendarEventPage
+} from "@/components/calendar-agenda/CalendarAgenda";
+import {
+  isSlotSearchResult,
+  type PickedSlot,
+  SlotPicker
+} from "@/components/slot-picker/SlotPicker";
+import {
+  isWeatherReport,
+  WeatherCard
+} from "@/components/weather-card/WeatherCard";
+import { ApprovalPreview } from "@/components/tool-invocation-card/ApprovalPreview";
+import { ToolInputForm } from "@/components/tool-invocation-card/ToolInputForm";
+import type { ToolInputSchema } from "@/lib/tool-input-form";
+import {
+  APPROVAL,
+  type ApprovalWithChanges,
+  type ToolCallPreview
+} from "@/shared";
 
 interface ToolResultWithContent {
   content: Array<{ type: string; text: string }>;
@@ -29,19 +49,32 @@ interface ToolInvocationCardProps {
     result
   }: {
     toolCallId: string;
-    result: string;
+    result: string | ApprovalWithChanges;
   }) => void;
   addToolResult: (toolCallId: string, result: string) => void;
+  // Loads a before/after preview of the call while it awaits approval
+  loadPreview?: () => Promise<ToolCallPreview | null>;
+  // Books a slot picked from findAvailableSlots results
+  onPickSlot?: (slot: PickedSlot) => void;
+  // Loads the tool's input schema for editing the arguments before approving
+  loadInputSchema?: () => Promise<ToolInputSchema | null>;
+  // Approves the call and stores a policy that approves calls like it
+  approveSimilar?: { description: string; onApprove: () => void };
 }
 
 export function ToolInvocationCard({
   toolUIPart,
   toolCallId,
   needsConfirmation,
-  onSubmit
+  onSubmit,
   // addToolResult
+  loadPreview,
+  onPickSlot,
+  loadInputSchema,
+  approveSimilar
 }: ToolInvocationCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
 
   // Determine status and styling based on state
   const getStatusInfo = () => {
@@ -111,7 +144,33 @@ export function ToolInvocationCard({
             </pre>
           </div>
 
-          {needsConfirmation && toolUIPart.state === "input-available" && (
+          {needsConfirmation && toolUIPart.state === "input-available" && loadPreview && (
+            <ApprovalPreview
+              loadPreview={loadPreview}
+              onPickSuggestion={(input) =>
+                onSubmit({
+                  toolCallId,
+                  result: { approval: APPROVAL.YES, input }
+                })
+              }
+            />
+          )}
+
+          {needsConfirmation && toolUIPart.state === "input-available" && isEditing && loadInputSchema && (
+            <ToolInputForm
+              input={(toolUIPart.input ?? {}) as Record<string, unknown>}
+              loadSchema={loadInputSchema}
+              onCancel={() => setIsEditing(false)}
+              onApprove={(input, edits) =>
+                onSubmit({
+                  toolCallId,
+                  result: { approval: APPROVAL.YES, input, edits }
+                })
+              }
+            />
+          )}
+
+          {needsConfirmation && toolUIPart.state === "input-available" && !isEditing && (
             <div className="flex gap-2 justify-end">
               <Button
                 variant="primary"
@@ -120,6 +179,15 @@ export function ToolInvocationCard({
               >
                 Reject
               </Button>
+              {loadInputSchema && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setIsEditing(true)}
+                >
+                  Edit
+                </Button>
+              )}
               <Button
                 variant="primary"
                 size="sm"
@@ -130,7 +198,45 @@ export function ToolInvocationCard({
             </div>
           )}
 
-          {toolUIPart.state === "output-available" && toolUIPart.output !== undefined && (
+          {needsConfirmation && toolUIPart.state === "input-available" && !isEditing && approveSimilar && (
+            <div className="flex flex-col items-end gap-1">
+              <Button variant="secondary" size="sm" onClick={approveSimilar.onApprove}>
+                Approve & don't ask again for this kind of action
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {approveSimilar.description}
+              </span>
+            </div>
+          )}
+
+          {toolUIPart.state === "output-available" && isCalendarEventPage(toolUIPart.output) && (
+            <div className="mt-3 border-t-2 border-[#F48120]/20 pt-3">
+              <h5 className="text-xs font-semibold mb-2 text-green-500 dark:text-green-400 uppercase tracking-wide">
+                📅 Agenda
+              </h5>
+              <CalendarAgenda page={toolUIPart.output} />
+            </div>
+          )}
+
+          {toolUIPart.state === "output-available" && isSlotSearchResult(toolUIPart.output) && (
+            <div className="mt-3 border-t-2 border-[#F48120]/20 pt-3">
+              <h5 className="text-xs font-semibold mb-2 text-green-500 dark:text-green-400 uppercase tracking-wide">
+                🗓️ Available Times
+              </h5>
+              <SlotPicker result={toolUIPart.output} onPick={onPickSlot} />
+            </div>
+          )}
+
+          {toolUIPart.state === "output-available" && isWeatherReport(toolUIPart.output) && (
+            <div className="mt-3 border-t-2 border-[#F48120]/20 pt-3">
+              <h5 className="text-xs font-semibold mb-2 text-green-500 dark:text-green-400 uppercase tracking-wide">
+                🌤️ Weather
+              </h5>
+              <WeatherCard report={toolUIPart.output} />
+            </div>
+          )}
+
+          {toolUIPart.state === "output-available" && toolUIPart.output !== undefined && !isCalendarEventPage(toolUIPart.output) && !isSlotSearchResult(toolUIPart.output) && !isWeatherReport(toolUIPart.output) && (
             <div className="mt-3 border-t-2 border-[#F48120]/20 pt-3">
               <h5 className="text-xs font-semibold mb-2 text-green-500 dark:text-green-400 uppercase tracking-wide">
                 ✅ Tool Result
@@ -0,0 +1,86 @@
+import { Drop, Wind } from "@phosphor-icons/react";
+import type { WeatherReport } from "@/lib/weather";
+import { formatInTimeZone } from "@/lib/timezone";
+
+export function isWeatherReport(result: unknown): result is WeatherReport {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    "location" in result &&
+    "current" in result &&
+    Array.isArray((result as WeatherReport).daily)
+  );
+}
+
+// Forecast dates are bare YYYY-MM-DD, which is read as UTC midnight
+function dayLabel(date: string) {
+  return formatInTimeZone(new Date(date), "UTC", {
+    weekday: "short",
+    month: "short",
+    day: "numeric"
+  });
+}
+
+interface WeatherCardProps {
+  report: WeatherReport;
+}
+
+/**
+ * Current conditions and the daily forecast returned by getWeatherInformation
+ */
+export function WeatherCard({ report }: WeatherCardProps) {
+  const { location, current, daily, units } = report;
+  const place = [location.name, location.region, location.country]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div>
+        <p className="font-medium text-sm">{place}</p>
+        <div className="flex items-baseline gap-2">
+          <span className="text-2xl font-semibold">
+            {Math.round(current.temperature)}
+            {units.temperature}
+          </span>
+          <span>{current.condition}</span>
+        </div>
+        <p className="text-muted-foreground">
+          Feels like {Math.round(current.feelsLike)}
+          {units.temperature}
+        </p>
+        <p className="flex items-center gap-3 text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Drop size={12} /> {current.humidity}%
+          </span>
+          <span className="flex items-center gap-1">
+            <Wind size={12} /> {Math.round(current.windSpeed)} {units.windSpeed}
+          </span>
+        </p>
+      </div>
+      {daily.length > 0 && (
+        <ul className="space-y-1 border-t border-neutral-300 dark:border-neutral-800 pt-2">
+          {daily.map((day) => (
+            <li key={day.date} className="flex items-center gap-2">
+              <span className="w-24 flex-shrink-0 text-muted-foreground">
+                {dayLabel(day.date)}
+              </span>
+              <span className="flex-1">{day.condition}</span>
+              {day.precipitationChance > 0 && (
+                <span className="text-blue-500">
+                  {day.precipitationChance}%
+                </span>
+              )}
+              <span className="w-16 text-right">
+                {Math.round(day.high)}° / {Math.round(day.low)}°
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-muted-foreground">
+        Local time zone: {location.timeZone}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Per-user approval policies for tools that require approval
+ *
+ * The tool registry decides which tools need approval at all; a user can
+ * then choose, per tool, to always be asked, to always allow it, or to
+ * allow it when every one of a set of conditions holds for the call. The
+ * policies live in the Chat agent's state, and the agent evaluates them
+ * against each pending call, with the event a change applies to looked up,
+ * before running it without showing the card. Conditions that cannot be
+ * checked for a call count as not holding.
+ */
+import { DEFAULT_WORKING_HOURS, type WorkingHours } from "./availability";
+import { parseDateTime } from "./date-parser";
+import { getZonedDateTime } from "./timezone";
+
+export type ApprovalMode = "ask" | "allow" | "conditional";
+
+export type ApprovalCondition =
+  | "no_attendees"
+  | "own_calendar"
+  | "working_hours";
+
+export interface UserApprovalPolicy {
+  mode: ApprovalMode;
+  /** For conditional policies; all of them must hold */
+  conditions?: ApprovalCondition[];
+}
+
+export const APPROVAL_CONDITION_LABELS: Record<ApprovalCondition, string> = {
+  no_attendees: "there are no attendees",
+  own_calendar: "it is on your own calendar",
+  working_hours: "it is within working hours"
+};
+
+export interface ApprovalContext {
+  timeZone: string;
+  /** The user's default calendar, when they chose one */
+  defaultCalendarId?: string;
+  workingHours?: WorkingHours;
+  now?: Date;
+  /**
+   * Attendees of the existing event a call changes (one with an eventId).
+   * Without them, such a call never counts as having no attendees.
+   */
+  existingAttendees?: string[];
+}
+
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+interface CallInput {
+  eventId?: unknown;
+  attendees?: unknown;
+  addAttendees?: unknown;
+  removeAttendees?: unknown;
+  calendar?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
+}
+
+// Whether the event has nobody on it once the call has run
+function hasNoAttendees(input: CallInput, context: ApprovalContext): boolean {
+  const list = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : [];
+  // A new list replaces the event's; otherwise a change keeps its attendees
+  let attendees: string[];
+  if (Array.isArray(input.attendees)) {
+    attendees = list(input.attendees);
+  } else if (input.eventId !== undefined) {
+    if (!context.existingAttendees) return false;
+    attendees = context.existingAttendees;
+  } else {
+    attendees = [];
+  }
+  const removed = new Set(
+    list(input.removeAttendees).map((email) => email.toLowerCase())
+  );
+  return [...attendees, ...list(input.addAttendees)].every((email) =>
+    removed.has(email.toLowerCase())
+  );
+}
+
+function isOwnCalendar(input: CallInput, context: ApprovalContext): boolean {
+  const calendar = typeof input.calendar === "string" ? input.calendar : "";
+  if (calendar && calendar.toLowerCase() !== "primary") return false;
+  // Without a calendar named, the call goes to the default calendar
+  return (
+    calendar.toLowerCase() === "primary" ||
+    !context.defaultCalendarId ||
+    context.defaultCalendarId === "primary"
+  );
+}
+
+function isWithinWorkingHours(
+  input: CallInput,
+  context: ApprovalContext
+): boolean {
+  if (typeof input.startTime !== "string") return false;
+  const options = { timeZone: context.timeZone, now: context.now };
+  const start = parseDateTime(input.startTime, options);
+  if (start.status !== "ok" || start.value.allDay) return false;
+  const endInput =
+    typeof input.endTime === "string"
+      ? parseDateTime(input.endTime, { ...options, now: start.value.start })
+      : undefined;
+  if (endInput && endInput.status !== "ok") return false;
+  const end =
+    endInput?.status === "ok"
+      ? endInput.value.start
+      : (start.value.end ??
+        new Date(start.value.start.getTime() + DEFAULT_EVENT_DURATION_MS));
+
+  const hours = context.workingHours ?? DEFAULT_WORKING_HOURS;
+  const from = getZonedDateTime(start.value.start, context.timeZone);
+  const to = getZonedDateTime(end, context.timeZone);
+  const hourOf = (time: { hour: number; minute: number }) =>
+    time.hour + time.minute / 60;
+  return (
+    from.year === to.year &&
+    from.month === to.month &&
+    from.day === to.day &&
+    hours.days.includes(from.weekday) &&
+    hourOf(from) >= hours.start &&
+    hourOf(to) <= hours.end
+  );
+}
+
+/**
+ * The conditions that hold for a tool call
+ */
+export function matchingConditions(
+  input: unknown,
+  context: ApprovalContext
+): ApprovalCondition[] {
+  const call = (
+    typeof input === "object" && input !== null ? input : {}
+  ) as CallInput;
+  const conditions: ApprovalCondition[] = [];
+  if (hasNoAttendees(call, context)) conditions.push("no_attendees");
+  if (isOwnCalendar(call, context)) conditions.push("own_calendar");
+  if (isWithinWorkingHours(call, context)) conditions.push("working_hours");
+  return conditions;
+}
+
+/**
+ * Whether a call may run without asking the user
+ */
+export function isPreApproved(
+  policy: UserApprovalPolicy | undefined,
+  input: unknown,
+  context: ApprovalContext
+): boolean {
+  if (!policy || policy.mode === "ask") return false;
+  if (policy.mode === "allow") return true;
+  const required = policy.conditions ?? [];
+  if (required.length === 0) return false;
+  const holding = new Set(matchingConditions(input, context));
+  return required.every((condition) => holding.has(condition));
+}
+
+/**
+ * A policy that allows calls like this one from now on: the conditions
+ * that hold for it, or null when none do
+ */
+export function policyForSimilarCalls(
+  input: unknown,
+  context: ApprovalContext
+): UserApprovalPolicy | null {
+  const conditions = matchingConditions(input, context);
+  return conditions.length > 0 ? { mode: "conditional", conditions } : null;
+}
+
+export function describeApprovalPolicy(policy: UserApprovalPolicy): string {
+  if (policy.mode === "ask") return "Always ask";
+  if (policy.mode === "allow") return "Always allow";
+  return `Allow when ${(policy.conditions ?? [])
+    .map((condition) => APPROVAL_CONDITION_LABELS[condition])
+    .join(" and ")}`;
+}
@@ -0,0 +1,217 @@
+/**
+ * Free-slot search over busy intervals, used for conflict suggestions
+ * and for finding meeting times across several calendars
+ */
+import {
+  addDays,
+  type CalendarDate,
+  getZonedDateTime,
+  zonedDateTimeToDate
+} from "./timezone";
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Local hours during which slots may be proposed
+ */
+export interface WorkingHours {
+  /** Hour of the day the window opens, e.g. 9 or 8.5 for 8:30 */
+  start: number;
+  /** Hour of the day the window closes, e.g. 17 */
+  end: number;
+  /** Days of the week to consider, 0 = Sunday ... 6 = Saturday */
+  days: number[];
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: 9,
+  end: 17,
+  days: [1, 2, 3, 4, 5]
+};
+
+export interface FindFreeSlotsOptions {
+  busy: TimeInterval[];
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes: number;
+  timeZone: string;
+  workingHours?: WorkingHours;
+  /** Spacing between candidate start times (defaults to 30 minutes) */
+  stepMinutes?: number;
+}
+
+export function overlaps(a: TimeInterval, b: TimeInterval): boolean {
+  return (
+    a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime()
+  );
+}
+
+/**
+ * Sort intervals and merge the ones that touch or overlap
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start.getTime() <= last.end.getTime()) {
+      if (interval.end.getTime() > last.end.getTime()) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Every slot of the requested length inside the window and working hours
+ * that does not overlap a busy interval, in chronological order
+ */
+export function findFreeSlots({
+  busy,
+  windowStart,
+  windowEnd,
+  durationMinutes,
+  timeZone,
+  workingHours = DEFAULT_WORKING_HOURS,
+  stepMinutes = 30
+}: FindFreeSlotsOptions): TimeInterval[] {
+  const merged = mergeIntervals(busy);
+  const duration = durationMinutes * 60000;
+  const step = stepMinutes * 60000;
+  const slots: TimeInterval[] = [];
+
+  const first = getZonedDateTime(windowStart, timeZone);
+  const last = getZonedDateTime(windowEnd, timeZone);
+  const dayCount =
+    (Date.UTC(last.year, last.month - 1, last.day) -
+      Date.UTC(first.year, first.month - 1, first.day)) /
+    86400000;
+
+  for (let offset = 0; offset <= dayCount; offset++) {
+    const day: CalendarDate = addDays(first, offset);
+    const weekday = (first.weekday + offset) % 7;
+
+    if (workingHours.days.includes(weekday)) {
+      const open = zonedDateTimeToDate(
+        { ...day, hour: 0, minute: Math.round(workingHours.start * 60) },
+        timeZone
+      ).getTime();
+      const close = Math.min(
+        zonedDateTimeToDate(
+          { ...day, hour: 0, minute: Math.round(workingHours.end * 60) },
+          timeZone
+        ).getTime(),
+        windowEnd.getTime()
+      );
+
+      // Keep start times aligned to the step from the opening hour
+      let cursor = open;
+      if (cursor < windowStart.getTime()) {
+        cursor += Math.ceil((windowStart.getTime() - cursor) / step) * step;
+      }
+
+      let busyIndex = 0;
+      for (; cursor + duration <= close; cursor += step) {
+        const slot = {
+          start: new Date(cursor),
+          end: new Date(cursor + duration)
+        };
+        while (
+          busyIndex < merged.length &&
+          merged[busyIndex].end.getTime() <= cursor
+        ) {
+          busyIndex++;
+        }
+        if (busyIndex < merged.length && overlaps(slot, merged[busyIndex])) {
+          continue;
+        }
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Order slots by how close they start to a target time
+ */
+export function sortByProximity(
+  slots: TimeInterval[],
+  target: Date
+): TimeInterval[] {
+  const distance = (slot: TimeInterval) =>
+    Math.abs(slot.start.getTime() - target.getTime());
+  return [...slots].sort((a, b) => distance(a) - distance(b));
+}
+
+export interface RankSlotsOptions {
+  busy: TimeInterval[];
+  timeZone: string;
+  workingHours?: WorkingHours;
+  /** Maximum number of slots to return (defaults to 5) */
+  limit?: number;
+}
+
+/** Gap we would like to leave between a proposed slot and other meetings */
+const BUFFER_MINUTES = 15;
+
+/**
+ * Pick the best candidate slots, best first. Slots with a gap around them
+ * and away from the edges of the working day score higher, earlier slots
+ * win ties, and the picks are spread over different days where possible.
+ */
+export function rankSlots(
+  slots: TimeInterval[],
+  {
+    busy,
+    timeZone,
+    workingHours = DEFAULT_WORKING_HOURS,
+    limit = 5
+  }: RankSlotsOptions
+): TimeInterval[] {
+  const merged = mergeIntervals(busy);
+  const buffer = BUFFER_MINUTES * 60000;
+
+  const penalty = (slot: TimeInterval) => {
+    const padded = {
+      start: new Date(slot.start.getTime() - buffer),
+      end: new Date(slot.end.getTime() + buffer)
+    };
+    const start = getZonedDateTime(slot.start, timeZone);
+    const end = getZonedDateTime(slot.end, timeZone);
+    let score = merged.some((interval) => overlaps(interval, padded)) ? 1 : 0;
+    if (start.hour + start.minute / 60 < workingHours.start + 1) score++;
+    if (end.hour + end.minute / 60 > workingHours.end - 1) score++;
+    return score;
+  };
+
+  const scored = slots
+    .map((slot) => ({ slot, penalty: penalty(slot) }))
+    .sort(
+      (a, b) =>
+        a.penalty - b.penalty || a.slot.start.getTime() - b.slot.start.getTime()
+    );
+
+  // One slot per day first, then fill up with the rest in score order
+  const picked: TimeInterval[] = [];
+  const skipped: TimeInterval[] = [];
+  const days = new Set<string>();
+  for (const { slot } of scored) {
+    const { year, month, day } = getZonedDateTime(slot.start, timeZone);
+    const key = `${year}-${month}-${day}`;
+    if (days.has(key)) {
+      skipped.push(slot);
+    } else {
+      days.add(key);
+      picked.push(slot);
+    }
+  }
+  return [...picked, ...skipped].slice(0, limit);
+}
@@ -0,0 +1,117 @@
+/**
+ * WebCrypto helpers shared by the Google auth code: base64url encoding,
+ * random tokens, AES-GCM encryption of secrets at rest and RS256 JWTs
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function base64UrlEncode(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function base64UrlDecode(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * URL-safe random string with `bytes` bytes of entropy
+ */
+export function randomToken(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+export async function sha256(text: string): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", encoder.encode(text))
+  );
+}
+
+// Any secret string works as the key; it is stretched to 256 bits
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    await sha256(secret),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Encrypt a secret for storage, as "<iv>.<ciphertext>" in base64url
+ */
+export async function encryptSecret(
+  plaintext: string,
+  secret: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await importKey(secret),
+    encoder.encode(plaintext)
+  );
+  return `${base64UrlEncode(iv)}.${base64UrlEncode(ciphertext)}`;
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Throws if the key is wrong
+ * or the value was tampered with.
+ */
+export async function decryptSecret(
+  encrypted: string,
+  secret: string
+): Promise<string> {
+  const [iv, ciphertext] = encrypted.split(".");
+  if (!iv || !ciphertext) throw new Error("Malformed encrypted value");
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64UrlDecode(iv) },
+    await importKey(secret),
+    base64UrlDecode(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+// PKCS#8 PEM, tolerating keys whose newlines were escaped as "\n"
+function pemToDer(pem: string): Uint8Array<ArrayBuffer> {
+  const body = pem
+    .replace(/\\n/g, "")
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+    .replace(/\s+/g, "");
+  return Uint8Array.from(atob(body), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Sign a JWT with RS256 using a PKCS#8 PEM private key, as found in
+ * Google service account key files
+ */
+export async function signJwtRs256(
+  claims: Record<string, unknown>,
+  privateKeyPem: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    pemToDer(privateKeyPem),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const header = base64UrlEncode(
+    encoder.encode(JSON.stringify({ alg: "RS256", typ: "JWT" }))
+  );
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    encoder.encode(`${header}.${payload}`)
+  );
+  return `${header}.${payload}.${base64UrlEncode(signature)}`;
+}
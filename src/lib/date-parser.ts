@@ -0,0 +1,812 @@
+/**
+ * Natural-language date/time parsing for calendar and scheduling tools
+ *
+ * Understands:
+ * - ISO 8601 ("2025-11-03T14:00", "2025-11-03", "2025-11-03T14:00:00Z")
+ * - Day words ("today", "tonight", "tomorrow", "day after tomorrow")
+ * - Weekdays ("Monday", "this Friday", "next Tue")
+ * - Whole weeks ("this week", "next week"), which run Monday to Sunday, and
+ *   months ("this month", "next month")
+ * - Ends of periods ("end of this week", "end of next month", "eod")
+ * - Absolute dates ("June 5th", "5 June 2026", "6/5")
+ * - Relative offsets ("in 3 hours", "in 2 days", "45 minutes from now")
+ * - Times ("9am", "2:30 pm", "14:00", "noon", "3 in the afternoon")
+ * - Ranges ("2-4pm", "from 11 to 1pm", "9am until noon")
+ * - Durations ("for 90 minutes", "for an hour and a half")
+ *
+ * parseDuration reads a length of time on its own ("10 minutes", "a day"),
+ * e.g. how long to snooze a reminder.
+ *
+ * Parsing is deterministic: "now" and the time zone are injected, and input
+ * that could mean more than one thing is reported as ambiguous with the
+ * candidate readings instead of being silently guessed.
+ */
+import {
+  addDays,
+  type CalendarDate,
+  formatInTimeZone,
+  getZonedDateTime,
+  zonedDateTimeToDate
+} from "./timezone";
+
+export interface DateTimeParseOptions {
+  /** Reference instant for relative expressions (defaults to the current time) */
+  now?: Date;
+  /** IANA time zone the wall-clock input is expressed in (defaults to UTC) */
+  timeZone?: string;
+}
+
+export interface ParsedDateTime {
+  start: Date;
+  /** Present when the input named a range or a duration */
+  end?: Date;
+  /** True when the input named a day but no time of day */
+  allDay: boolean;
+}
+
+export type DateTimeParseResult =
+  | { status: "ok"; value: ParsedDateTime }
+  | { status: "ambiguous"; message: string; candidates: ParsedDateTime[] }
+  | { status: "invalid"; message: string };
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+interface DateCandidate {
+  date: CalendarDate;
+  /** Days to move forward if the resulting time has already passed */
+  rollover: number;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec"
+];
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday"
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12
+};
+
+/** Default hour used when only a part of the day is named */
+const DAY_PART_HOURS: Record<string, number> = {
+  morning: 9,
+  afternoon: 14,
+  evening: 18,
+  tonight: 20,
+  night: 20
+};
+
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const WEEKDAY_PATTERN =
+  "(sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?)";
+const NUMBER_PATTERN = `(?:half\\s+an?|\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join("|")})`;
+const DURATION_UNIT_PATTERN = "(?:hours?|hrs?|h|minutes?|mins?|m)";
+const TIME_PATTERN = "(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?";
+
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Parse a natural-language or ISO date/time expression
+ */
+export function parseDateTime(
+  input: string,
+  options: DateTimeParseOptions = {}
+): DateTimeParseResult {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? "UTC";
+  const original = input.trim();
+
+  if (!original) {
+    return { status: "invalid", message: "No date or time was given." };
+  }
+
+  const iso = parseIso(original, timeZone);
+  if (iso) return iso;
+
+  const period =
+    parsePeriod(normalize(original), now, timeZone) ??
+    parseEndOfPeriod(normalize(original), now, timeZone);
+  if (period) return ok(period);
+
+  const scanner = new Scanner(normalize(original));
+
+  const duration = scanDuration(scanner);
+  if (duration === null) {
+    return invalid(original, "the duration could not be understood");
+  }
+
+  const relative = scanRelativeOffset(scanner);
+  if (relative?.unit === "minutes") {
+    if (/\d/.test(scanner.rest())) {
+      return invalid(original, "it mixes a relative offset with a clock time");
+    }
+    const start = new Date(now.getTime() + relative.amount * 60000);
+    return ok({
+      start,
+      end: duration ? addMinutes(start, duration) : undefined,
+      allDay: false
+    });
+  }
+
+  const today = getZonedDateTime(now, timeZone);
+  let dates: DateCandidate[] | undefined = relative
+    ? [{ date: addDays(today, relative.amount), rollover: 0 }]
+    : undefined;
+
+  if (!dates) {
+    const scanned = scanDate(scanner, today);
+    if (typeof scanned === "string") return invalid(original, scanned);
+    dates = scanned;
+  }
+
+  const dayPart = scanDayPart(scanner);
+  const times = scanTimes(scanner, dayPart);
+  if (typeof times === "string") return invalid(original, times);
+
+  if (/\d/.test(scanner.rest())) {
+    return invalid(
+      original,
+      `"${scanner.rest().replace(/\s+/g, " ").trim()}" was not understood`
+    );
+  }
+
+  if (!dates && !times && dayPart === undefined) {
+    return invalid(original, "no date or time was found");
+  }
+
+  const dateCandidates = dates ?? [
+    { date: today, rollover: dayPart === "tonight" ? 0 : 1 }
+  ];
+  const timeCandidates: (TimeRange | undefined)[] = times ?? [
+    dayPart !== undefined
+      ? { start: { hour: DAY_PART_HOURS[dayPart], minute: 0 } }
+      : undefined
+  ];
+
+  const candidates: ParsedDateTime[] = [];
+  for (const { date, rollover } of dateCandidates) {
+    for (const time of timeCandidates) {
+      candidates.push(
+        compose(date, time, duration, rollover, { now, timeZone })
+      );
+    }
+  }
+
+  if (candidates.length === 1) return ok(candidates[0]);
+
+  const readings = candidates.map((c) => describeParsedDateTime(c, timeZone));
+  return {
+    status: "ambiguous",
+    message: `"${original}" is ambiguous: did you mean ${readings.slice(0, -1).join(", ")} or ${readings[readings.length - 1]}?`,
+    candidates
+  };
+}
+
+interface TimeRange {
+  start: TimeOfDay;
+  end?: TimeOfDay;
+}
+
+/**
+ * Keeps track of which parts of the input have been consumed,
+ * so a number used by one rule (the "3" in "3rd") is never reused by another
+ */
+class Scanner {
+  private text: string;
+
+  constructor(text: string) {
+    this.text = ` ${text} `;
+  }
+
+  /** Run the pattern, blank out the first match and return its groups */
+  take(pattern: RegExp): RegExpExecArray | null {
+    const match = pattern.exec(this.text);
+    if (!match) return null;
+    this.text =
+      this.text.slice(0, match.index) +
+      " ".repeat(match[0].length) +
+      this.text.slice(match.index + match[0].length);
+    return match;
+  }
+
+  rest(): string {
+    return this.text;
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b([ap])\.m\./g, "$1m")
+    .replace(/[–—]/g, "-")
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ");
+}
+
+function ok(value: ParsedDateTime): DateTimeParseResult {
+  return { status: "ok", value };
+}
+
+function invalid(input: string, reason: string): DateTimeParseResult {
+  return {
+    status: "invalid",
+    message: `Could not understand "${input}": ${reason}.`
+  };
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+const OFFSET_UNIT_MINUTES: [RegExp, number][] = [
+  [/^w/, 7 * 24 * 60],
+  [/^d/, 24 * 60],
+  [/^h/, 60],
+  [/^m/, 1]
+];
+
+/**
+ * Parse a length of time ("10 minutes", "an hour and a half", "2 days",
+ * "1h 30m") into minutes; null when the input is not one
+ */
+export function parseDuration(input: string): number | null {
+  // "and" joins terms unless it is part of "and a half"; left in, its "an"
+  // would read as a number
+  const text = normalize(input)
+    .trim()
+    .replace(/^(?:by|for)\s+/, "")
+    .replace(/\band\b(?!\s+a\s+half\b)/g, " ");
+  const termPattern = new RegExp(
+    `(${NUMBER_PATTERN})\\s*(weeks?|wks?|w|days?|d|hours?|hrs?|h|minutes?|mins?|m)\\b(\\s+and\\s+a\\s+half\\b)?`,
+    "g"
+  );
+  let minutes = 0;
+  for (const [, amount, unit, half] of text.matchAll(termPattern)) {
+    const value = toNumber(amount) + (half ? 0.5 : 0);
+    const [, perUnit] =
+      OFFSET_UNIT_MINUTES.find(([pattern]) => pattern.test(unit)) ?? [];
+    if (Number.isNaN(value) || perUnit === undefined) return null;
+    minutes += value * perUnit;
+  }
+  if (text.replace(termPattern, "").trim() || minutes <= 0) return null;
+  return Math.round(minutes);
+}
+
+function toNumber(token: string): number {
+  if (token.startsWith("half")) return 0.5;
+  return token in NUMBER_WORDS ? NUMBER_WORDS[token] : Number(token);
+}
+
+function parseIso(input: string, timeZone: string): DateTimeParseResult | null {
+  const match = ISO_PATTERN.exec(input);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, offset] = match;
+  const date = { year: +year, month: +month, day: +day };
+  if (!isRealDate(date)) {
+    return invalid(input, "that day does not exist");
+  }
+
+  if (hour === undefined) {
+    return ok({
+      start: zonedDateTimeToDate(date, timeZone),
+      allDay: true
+    });
+  }
+
+  if (+hour > 23 || +minute > 59) {
+    return invalid(input, "the time is out of range");
+  }
+
+  if (offset) {
+    const zone =
+      offset.toUpperCase() === "Z"
+        ? "Z"
+        : `${offset.slice(0, 3)}:${offset.slice(-2)}`;
+    return ok({
+      start: new Date(
+        `${year}-${month}-${day}T${hour}:${minute}:${second ?? "00"}${zone}`
+      ),
+      allDay: false
+    });
+  }
+
+  return ok({
+    start: zonedDateTimeToDate(
+      { ...date, hour: +hour, minute: +minute, second: +(second ?? 0) },
+      timeZone
+    ),
+    allDay: false
+  });
+}
+
+type Period = "day" | "week" | "month";
+
+/**
+ * "This week" runs from today to Sunday; "next week" is the following
+ * Monday to Sunday. "This month" runs from today to the month's end. All
+ * are all-day spans.
+ */
+function parsePeriod(
+  text: string,
+  now: Date,
+  timeZone: string
+): ParsedDateTime | null {
+  const match = /^(this|next) (week|month)$/.exec(text.trim());
+  if (!match) return null;
+
+  const [first, end] = periodBounds(
+    match[2] as Period,
+    match[1] === "next",
+    getZonedDateTime(now, timeZone)
+  );
+  return {
+    start: zonedDateTimeToDate(first, timeZone),
+    end: zonedDateTimeToDate(end, timeZone),
+    allDay: true
+  };
+}
+
+/**
+ * The last minute of a period: "end of this week", "end of the month",
+ * "end of next week", and "eod", "eow" and "eom" for this one
+ */
+function parseEndOfPeriod(
+  text: string,
+  now: Date,
+  timeZone: string
+): ParsedDateTime | null {
+  const match =
+    /^(?:by )?(?:(?:the )?end of (?:the |(this|next) )?(day|week|month)|eo(d|w|m))$/.exec(
+      text.trim()
+    );
+  if (!match) return null;
+
+  const period = match[2] ?? { d: "day", w: "week", m: "month" }[match[3]];
+  const [, end] = periodBounds(
+    period as Period,
+    match[1] === "next",
+    getZonedDateTime(now, timeZone)
+  );
+  return {
+    start: addMinutes(zonedDateTimeToDate(end, timeZone), -1),
+    allDay: false
+  };
+}
+
+/**
+ * First day of this or the next period, and the day after it ends; this
+ * period starts today
+ */
+function periodBounds(
+  period: Period,
+  next: boolean,
+  today: CalendarDate & { weekday: number }
+): [CalendarDate, CalendarDate] {
+  if (period === "day") {
+    const first = addDays(today, next ? 1 : 0);
+    return [first, addDays(first, 1)];
+  }
+  if (period === "week") {
+    const nextMonday = addDays(today, 7 - ((today.weekday + 6) % 7));
+    return next ? [nextMonday, addDays(nextMonday, 7)] : [today, nextMonday];
+  }
+  const firstOfMonth = (months: number) =>
+    addDays({ year: today.year, month: today.month + months, day: 1 }, 0);
+  return next ? [firstOfMonth(1), firstOfMonth(2)] : [today, firstOfMonth(1)];
+}
+
+function isRealDate({ year, month, day }: CalendarDate): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  const normalized = new Date(Date.UTC(year, month - 1, day));
+  return normalized.getUTCDate() === day;
+}
+
+/**
+ * Returns the duration in minutes, undefined if none was given,
+ * or null if a duration was given but could not be read
+ */
+function scanDuration(scanner: Scanner): number | null | undefined {
+  const term = `${NUMBER_PATTERN}\\s*${DURATION_UNIT_PATTERN}\\b(?:\\s+and\\s+a\\s+half\\b)?`;
+  const match = scanner.take(
+    new RegExp(`\\bfor\\s+(${term}(?:\\s*(?:and\\s+)?${term})*)`)
+  );
+  if (!match) return undefined;
+
+  let minutes = 0;
+  const termPattern = new RegExp(
+    `(${NUMBER_PATTERN})\\s*(${DURATION_UNIT_PATTERN})\\b(\\s+and\\s+a\\s+half\\b)?`,
+    "g"
+  );
+  for (const [, amount, unit, half] of match[1].matchAll(termPattern)) {
+    const value = toNumber(amount) + (half ? 0.5 : 0);
+    if (Number.isNaN(value)) return null;
+    minutes += unit.startsWith("h") ? value * 60 : value;
+  }
+  return minutes > 0 ? Math.round(minutes) : null;
+}
+
+function scanRelativeOffset(
+  scanner: Scanner
+): { amount: number; unit: "minutes" | "days" } | undefined {
+  const offset = `(${NUMBER_PATTERN})\\s*(minutes?|mins?|hours?|hrs?|days?|weeks?)`;
+  const match =
+    scanner.take(new RegExp(`\\bin\\s+${offset}\\b`)) ??
+    scanner.take(new RegExp(`\\b${offset}\\s+from\\s+now\\b`));
+  if (!match) return undefined;
+
+  const amount = toNumber(match[1]);
+  const unit = match[2];
+  if (unit.startsWith("min")) return { amount, unit: "minutes" };
+  if (unit.startsWith("h")) return { amount: amount * 60, unit: "minutes" };
+  if (unit.startsWith("d")) return { amount: Math.round(amount), unit: "days" };
+  return { amount: Math.round(amount * 7), unit: "days" };
+}
+
+/**
+ * Returns the candidate days, undefined if no day was named,
+ * or an error string if a named day is impossible
+ */
+function scanDate(
+  scanner: Scanner,
+  today: CalendarDate & { weekday: number }
+): DateCandidate[] | string | undefined {
+  if (scanner.take(/\bday after tomorrow\b/)) {
+    return [{ date: addDays(today, 2), rollover: 0 }];
+  }
+  if (scanner.take(/\btomorrow\b/)) {
+    return [{ date: addDays(today, 1), rollover: 0 }];
+  }
+  if (scanner.take(/\btoday\b/)) {
+    return [{ date: today, rollover: 0 }];
+  }
+
+  const weekday = scanner.take(
+    new RegExp(`\\b(?:(this|next|on)\\s+)?${WEEKDAY_PATTERN}\\b`)
+  );
+  if (weekday) {
+    return resolveWeekday(weekday[1], weekday[2], today);
+  }
+
+  const monthFirst = scanner.take(
+    new RegExp(
+      `\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:\\s+(\\d{4})\\b)?`
+    )
+  );
+  if (monthFirst) {
+    return resolveMonthDay(
+      MONTHS.indexOf(monthFirst[1].slice(0, 3)) + 1,
+      +monthFirst[2],
+      monthFirst[3],
+      today
+    );
+  }
+
+  const dayFirst = scanner.take(
+    new RegExp(
+      `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:\\s+(\\d{4})\\b)?`
+    )
+  );
+  if (dayFirst) {
+    return resolveMonthDay(
+      MONTHS.indexOf(dayFirst[2].slice(0, 3)) + 1,
+      +dayFirst[1],
+      dayFirst[3],
+      today
+    );
+  }
+
+  const numeric = scanner.take(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/);
+  if (numeric) {
+    const year =
+      numeric[3]?.length === 2 ? String(2000 + +numeric[3]) : numeric[3];
+    return resolveMonthDay(+numeric[1], +numeric[2], year, today);
+  }
+
+  const ordinal = scanner.take(/\b(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)\b/);
+  if (ordinal) {
+    // "The 3rd" means this month, or next month once the 3rd has passed
+    const month =
+      +ordinal[1] < today.day
+        ? addDays({ year: today.year, month: today.month + 1, day: 1 }, 0)
+        : today;
+    const date = { year: month.year, month: month.month, day: +ordinal[1] };
+    if (!isRealDate(date)) return `there is no ${ordinal[1]} that month`;
+    return [{ date, rollover: 0 }];
+  }
+
+  return undefined;
+}
+
+function resolveWeekday(
+  qualifier: string | undefined,
+  name: string,
+  today: CalendarDate & { weekday: number }
+): DateCandidate[] {
+  const target = WEEKDAYS.findIndex((day) => day.startsWith(name.slice(0, 3)));
+  const delta = (target - today.weekday + 7) % 7;
+
+  if (qualifier !== "next") {
+    return [{ date: addDays(today, delta), rollover: delta === 0 ? 7 : 0 }];
+  }
+
+  if (delta === 0) return [{ date: addDays(today, 7), rollover: 0 }];
+
+  // Weeks run Monday to Sunday. "Next Friday" said on a Monday could mean
+  // this week's Friday or the one after, so both are offered.
+  const mondayBased = (day: number) => (day + 6) % 7;
+  if (mondayBased(target) > mondayBased(today.weekday)) {
+    return [
+      { date: addDays(today, delta), rollover: 0 },
+      { date: addDays(today, delta + 7), rollover: 0 }
+    ];
+  }
+  return [{ date: addDays(today, delta), rollover: 0 }];
+}
+
+function resolveMonthDay(
+  month: number,
+  day: number,
+  year: string | undefined,
+  today: CalendarDate
+): DateCandidate[] | string {
+  let date = { year: year ? +year : today.year, month, day };
+  if (!year && compareDates(date, today) < 0) {
+    date = { ...date, year: today.year + 1 };
+  }
+  if (!isRealDate(date)) {
+    return `${month}/${day}${year ? `/${year}` : ""} is not a real date`;
+  }
+  return [{ date, rollover: 0 }];
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+function scanDayPart(scanner: Scanner): string | undefined {
+  const match = scanner.take(
+    /\b(?:in the\s+|this\s+)?(morning|afternoon|evening|tonight|night)\b/
+  );
+  return match?.[1];
+}
+
+/**
+ * Returns candidate time ranges, undefined if no time was named,
+ * or an error string if the time is out of range
+ */
+function scanTimes(
+  scanner: Scanner,
+  dayPart: string | undefined
+): TimeRange[] | string | undefined {
+  const range = scanner.take(
+    new RegExp(
+      `\\b(?:from\\s+|between\\s+)?(${TIME_PATTERN}|noon|midnight)\\s*(?:-|to|until|till|and)\\s*(${TIME_PATTERN}|noon|midnight)\\b`
+    )
+  );
+  if (range) {
+    const start = readTime(range[2], range[3], range[4], range[1]);
+    const end = readTime(range[6], range[7], range[8], range[5]);
+    if (typeof start === "string") return start;
+    if (typeof end === "string") return end;
+
+    // A 24-hour end ("9-17") makes the start a 24-hour reading too
+    const startOptions =
+      !start.meridiem && end.unambiguous && !end.meridiem
+        ? [undefined]
+        : meridiemOptions(start.meridiem ?? end.meridiem, dayPart, start);
+    const pairs: TimeRange[] = [];
+    for (const meridiem of startOptions) {
+      const startTime = applyMeridiem(start, meridiem);
+      // "11-1pm" means 11am to 1pm: borrowing the end's meridiem can put the
+      // start after the end, in which case the start is on the other side of noon
+      const endTime = applyMeridiem(end, end.meridiem ?? meridiem);
+      if (
+        !start.meridiem &&
+        end.meridiem &&
+        minutesOf(startTime) >= minutesOf(endTime)
+      ) {
+        pairs.push({
+          start: applyMeridiem(start, end.meridiem === "pm" ? "am" : "pm"),
+          end: endTime
+        });
+      } else {
+        pairs.push({ start: startTime, end: endTime });
+      }
+    }
+    return pairs;
+  }
+
+  const single =
+    scanner.take(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/) ??
+    scanner.take(/\b(?:at\s+)?(\d{1,2}):(\d{2})()\b/) ??
+    scanner.take(/\b(?:at\s+)?()()()(noon|midnight)\b/) ??
+    scanner.take(/\bat\s+(\d{1,2})()()\b/);
+  if (!single) {
+    // A day part mentioned after the number ("3 in the afternoon")
+    // was consumed before times, so look for a lone hour once more
+    if (dayPart !== undefined) {
+      const lone = scanner.take(/\b(?:at\s+)?(\d{1,2})\b(?!\s*\/)/);
+      if (lone) return resolveSingle(readTime(lone[1], "", ""), dayPart);
+    }
+    return undefined;
+  }
+
+  return resolveSingle(
+    readTime(single[1], single[2], single[3], single[4]),
+    dayPart
+  );
+}
+
+interface RawTime {
+  hour: number;
+  minute: number;
+  meridiem?: "am" | "pm";
+  /** True for 24-hour clock readings such as "14:00" or "0:30" */
+  unambiguous: boolean;
+}
+
+function readTime(
+  hourToken: string | undefined,
+  minuteToken: string | undefined,
+  meridiemToken: string | undefined,
+  word?: string
+): RawTime | string {
+  if (word === "noon") {
+    return { hour: 12, minute: 0, meridiem: "pm", unambiguous: true };
+  }
+  if (word === "midnight") {
+    return { hour: 0, minute: 0, meridiem: "am", unambiguous: true };
+  }
+
+  const hour = Number(hourToken);
+  const minute = minuteToken ? Number(minuteToken) : 0;
+  const meridiem = (meridiemToken || undefined) as RawTime["meridiem"];
+
+  if (minute > 59) return `${hourToken}:${minuteToken} is not a valid time`;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return `${hourToken}${meridiem} is not a valid time`;
+    }
+    return { hour, minute, meridiem, unambiguous: true };
+  }
+  if (hour > 23) return `${hourToken} is not a valid hour`;
+  return { hour, minute, unambiguous: hour === 0 || hour > 12 };
+}
+
+function resolveSingle(
+  time: RawTime | string,
+  dayPart: string | undefined
+): TimeRange[] | string {
+  if (typeof time === "string") return time;
+  return meridiemOptions(time.meridiem, dayPart, time).map((meridiem) => ({
+    start: applyMeridiem(time, meridiem)
+  }));
+}
+
+/**
+ * The meridiems a clock reading could be in. A bare "3" is returned as both
+ * am and pm unless a part of the day ("in the afternoon") settles it.
+ */
+function meridiemOptions(
+  meridiem: "am" | "pm" | undefined,
+  dayPart: string | undefined,
+  time: RawTime
+): ("am" | "pm" | undefined)[] {
+  if (meridiem) return [meridiem];
+  if (time.unambiguous) return [undefined];
+  if (dayPart === "morning") return ["am"];
+  if (dayPart !== undefined) return ["pm"];
+  return ["am", "pm"];
+}
+
+function applyMeridiem(
+  time: RawTime,
+  meridiem: "am" | "pm" | undefined
+): TimeOfDay {
+  if (!meridiem || (time.unambiguous && !time.meridiem)) {
+    return { hour: time.hour, minute: time.minute };
+  }
+  const hour = time.hour % 12;
+  return { hour: meridiem === "pm" ? hour + 12 : hour, minute: time.minute };
+}
+
+function minutesOf(time: TimeOfDay): number {
+  return time.hour * 60 + time.minute;
+}
+
+function compose(
+  date: CalendarDate,
+  time: TimeRange | undefined,
+  duration: number | undefined,
+  rollover: number,
+  { now, timeZone }: { now: Date; timeZone: string }
+): ParsedDateTime {
+  if (!time) {
+    return {
+      start: zonedDateTimeToDate(date, timeZone),
+      end: zonedDateTimeToDate(addDays(date, 1), timeZone),
+      allDay: true
+    };
+  }
+
+  let day = date;
+  let start = zonedDateTimeToDate({ ...day, ...time.start }, timeZone);
+  if (rollover > 0 && start.getTime() < now.getTime()) {
+    day = addDays(day, rollover);
+    start = zonedDateTimeToDate({ ...day, ...time.start }, timeZone);
+  }
+
+  let end: Date | undefined;
+  if (time.end) {
+    end = zonedDateTimeToDate({ ...day, ...time.end }, timeZone);
+    if (end.getTime() <= start.getTime()) {
+      // "11pm-1am" ends on the following day
+      end = zonedDateTimeToDate({ ...addDays(day, 1), ...time.end }, timeZone);
+    }
+  } else if (duration) {
+    end = addMinutes(start, duration);
+  }
+
+  return { start, end, allDay: false };
+}
+
+/**
+ * One-line description of a parsed value in the given time zone
+ */
+export function describeParsedDateTime(
+  value: ParsedDateTime,
+  timeZone: string
+): string {
+  if (value.allDay) {
+    return formatInTimeZone(value.start, timeZone, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric"
+    });
+  }
+  const start = formatInTimeZone(value.start, timeZone);
+  if (!value.end) return start;
+  return `${start} – ${formatInTimeZone(value.end, timeZone, {
+    hour: "numeric",
+    minute: "2-digit"
+  })}`;
+}
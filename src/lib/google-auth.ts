@@ -0,0 +1,397 @@
+/**
+ * Google OAuth access tokens for the Calendar API
+ *
+ * Access tokens are cached with their expiry in Durable Object storage and
+ * refreshed a few minutes before they run out. Concurrent callers share one
+ * in-flight refresh, and a revoked or expired refresh token (invalid_grant)
+ * is reported as GoogleReconnectRequiredError instead of a raw error.
+ * Service accounts sign a JWT assertion instead of using a refresh token,
+ * optionally impersonating a Workspace user through domain-wide delegation.
+ * The authorization-code flow with PKCE that issues refresh tokens lives
+ * here too.
+ */
+
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  randomToken,
+  sha256,
+  signJwtRs256
+} from "./crypto";
+
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const REVOKE_URL = "https://oauth2.googleapis.com/revoke";
+const TOKEN_KEY = "google:accessToken";
+
+/** Refresh this long before the token expires */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface GoogleOAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+export interface GoogleServiceAccountCredentials {
+  clientEmail: string;
+  /** PKCS#8 PEM private key */
+  privateKey: string;
+  /** Workspace user to act as through domain-wide delegation */
+  subject?: string;
+  tokenUri?: string;
+}
+
+export type GoogleCredentials =
+  | GoogleOAuthCredentials
+  | GoogleServiceAccountCredentials;
+
+/**
+ * Read the JSON key file Google issues for a service account
+ */
+export function parseServiceAccountKey(
+  json: string,
+  subject?: string
+): GoogleServiceAccountCredentials {
+  let key: { client_email?: string; private_key?: string; token_uri?: string };
+  try {
+    key = JSON.parse(json);
+  } catch {
+    throw new Error("GOOGLE_SERVICE_ACCOUNT_KEY is not valid JSON");
+  }
+  if (!key.client_email || !key.private_key) {
+    throw new Error(
+      "GOOGLE_SERVICE_ACCOUNT_KEY needs client_email and private_key"
+    );
+  }
+  return {
+    clientEmail: key.client_email,
+    privateKey: key.private_key,
+    ...(subject && { subject }),
+    ...(key.token_uri && { tokenUri: key.token_uri })
+  };
+}
+
+export interface CachedAccessToken {
+  accessToken: string;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+export type GoogleConnectionStatus = "connected" | "reconnect_required";
+
+/**
+ * Where access tokens are cached, usually the Chat Durable Object's storage
+ */
+export interface TokenCache {
+  storage: Pick<DurableObjectStorage, "get" | "put" | "delete">;
+  /** Told whenever a refresh succeeds or Google rejects the refresh token */
+  onStatusChange?: (status: GoogleConnectionStatus) => void;
+}
+
+/**
+ * Google no longer accepts the refresh token (revoked, expired or the
+ * password changed). The user has to connect their Google account again.
+ */
+export class GoogleReconnectRequiredError extends Error {
+  constructor(detail?: string) {
+    super(
+      `Google Calendar access has expired or been revoked. Please reconnect Google Calendar.${detail ? ` (${detail})` : ""}`
+    );
+    this.name = "GoogleReconnectRequiredError";
+  }
+}
+
+// One refresh per cache at a time; keyed by the storage object
+const inFlight = new WeakMap<object, Promise<CachedAccessToken>>();
+
+/** Lifetime Google allows for a service account assertion */
+const ASSERTION_LIFETIME_S = 60 * 60;
+
+async function exchangeServiceAccountAssertion(
+  credentials: GoogleServiceAccountCredentials,
+  now: number
+): Promise<CachedAccessToken> {
+  const tokenUri = credentials.tokenUri ?? TOKEN_URL;
+  const issuedAt = Math.floor(now / 1000);
+  const assertion = await signJwtRs256(
+    {
+      iss: credentials.clientEmail,
+      scope: "https://www.googleapis.com/auth/calendar",
+      aud: tokenUri,
+      iat: issuedAt,
+      exp: issuedAt + ASSERTION_LIFETIME_S,
+      ...(credentials.subject && { sub: credentials.subject })
+    },
+    credentials.privateKey
+  );
+
+  const response = await fetch(tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion
+    })
+  });
+  // No reconnect prompt here: a rejected assertion is a server
+  // configuration problem (key, clock or delegation), not the user's
+  if (!response.ok) {
+    throw new Error(
+      `Failed to get service account access token: ${await response.text()}`
+    );
+  }
+
+  const data = await response.json<{
+    access_token: string;
+    expires_in: number;
+  }>();
+  return {
+    accessToken: data.access_token,
+    expiresAt: now + data.expires_in * 1000
+  };
+}
+
+function requestAccessToken(
+  credentials: GoogleCredentials,
+  now: number
+): Promise<CachedAccessToken> {
+  return "privateKey" in credentials
+    ? exchangeServiceAccountAssertion(credentials, now)
+    : exchangeRefreshToken(credentials, now);
+}
+
+async function exchangeRefreshToken(
+  credentials: GoogleOAuthCredentials,
+  now: number
+): Promise<CachedAccessToken> {
+  const response = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+      refresh_token: credentials.refreshToken,
+      grant_type: "refresh_token"
+    })
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    let error: { error?: string; error_description?: string } = {};
+    try {
+      error = JSON.parse(body);
+    } catch {
+      // Not JSON; report the raw body below
+    }
+    if (error.error === "invalid_grant") {
+      throw new GoogleReconnectRequiredError(error.error_description);
+    }
+    throw new Error(`Failed to get access token: ${body}`);
+  }
+
+  const data = await response.json<{
+    access_token: string;
+    expires_in: number;
+  }>();
+  return {
+    accessToken: data.access_token,
+    expiresAt: now + data.expires_in * 1000
+  };
+}
+
+/**
+ * Get an access token, from the cache when it is still fresh
+ */
+export async function getAccessToken(
+  credentials: GoogleCredentials,
+  cache?: TokenCache,
+  now = Date.now()
+): Promise<string> {
+  if (!cache) {
+    return (await requestAccessToken(credentials, now)).accessToken;
+  }
+
+  const cached = await cache.storage.get<CachedAccessToken>(TOKEN_KEY);
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > now) {
+    return cached.accessToken;
+  }
+
+  let refresh = inFlight.get(cache.storage);
+  if (!refresh) {
+    refresh = requestAccessToken(credentials, now)
+      .then(async (token) => {
+        await cache.storage.put(TOKEN_KEY, token);
+        cache.onStatusChange?.("connected");
+        return token;
+      })
+      .catch(async (error) => {
+        if (error instanceof GoogleReconnectRequiredError) {
+          await cache.storage.delete(TOKEN_KEY);
+          cache.onStatusChange?.("reconnect_required");
+        }
+        throw error;
+      })
+      .finally(() => inFlight.delete(cache.storage));
+    inFlight.set(cache.storage, refresh);
+  }
+  return (await refresh).accessToken;
+}
+
+/**
+ * Drop the cached token, e.g. after the API rejected it with a 401
+ */
+export async function invalidateAccessToken(cache?: TokenCache): Promise<void> {
+  await cache?.storage.delete(TOKEN_KEY);
+}
+
+/**
+ * Store a freshly issued access token, e.g. the one that comes with a new
+ * refresh token at the end of the OAuth flow
+ */
+export async function cacheAccessToken(
+  cache: TokenCache,
+  token: CachedAccessToken
+): Promise<void> {
+  await cache.storage.put(TOKEN_KEY, token);
+}
+
+const AUTHORIZATION_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+
+export const GOOGLE_CALENDAR_SCOPES = [
+  "openid",
+  "email",
+  "https://www.googleapis.com/auth/calendar"
+];
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+/**
+ * PKCE code verifier and its S256 challenge
+ */
+export async function createPkcePair(): Promise<PkcePair> {
+  const verifier = randomToken(48);
+  return { verifier, challenge: base64UrlEncode(await sha256(verifier)) };
+}
+
+/**
+ * Google consent screen URL. Offline access with a forced consent prompt
+ * makes Google issue a refresh token every time.
+ */
+export function buildAuthorizationUrl({
+  clientId,
+  redirectUri,
+  state,
+  codeChallenge
+}: {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+}): string {
+  const url = new URL(AUTHORIZATION_URL);
+  url.search = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+    scope: GOOGLE_CALENDAR_SCOPES.join(" "),
+    access_type: "offline",
+    prompt: "consent",
+    include_granted_scopes: "true",
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256"
+  }).toString();
+  return url.toString();
+}
+
+export interface AuthorizationGrant {
+  refreshToken: string;
+  accessToken: CachedAccessToken;
+  /** Email of the Google account, when Google returned an ID token */
+  email?: string;
+}
+
+/**
+ * Exchange the code from the OAuth callback for tokens
+ */
+export async function exchangeAuthorizationCode(
+  {
+    clientId,
+    clientSecret,
+    code,
+    codeVerifier,
+    redirectUri
+  }: {
+    clientId: string;
+    clientSecret: string;
+    code: string;
+    codeVerifier: string;
+    redirectUri: string;
+  },
+  now = Date.now()
+): Promise<AuthorizationGrant> {
+  const response = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+      grant_type: "authorization_code"
+    })
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to exchange authorization code: ${await response.text()}`
+    );
+  }
+
+  const data = await response.json<{
+    access_token: string;
+    expires_in: number;
+    refresh_token?: string;
+    id_token?: string;
+  }>();
+  if (!data.refresh_token) {
+    throw new Error("Google did not return a refresh token");
+  }
+
+  // The ID token comes straight from Google over TLS, so its claims can be
+  // read without checking the signature
+  let email: string | undefined;
+  if (data.id_token) {
+    const payload = data.id_token.split(".")[1] ?? "";
+    email = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(payload))
+    ).email;
+  }
+
+  return {
+    refreshToken: data.refresh_token,
+    accessToken: {
+      accessToken: data.access_token,
+      expiresAt: now + data.expires_in * 1000
+    },
+    ...(email && { email })
+  };
+}
+
+/**
+ * Revoke a refresh or access token, e.g. when the user disconnects
+ */
+export async function revokeGoogleToken(token: string): Promise<void> {
+  const response = await fetch(REVOKE_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ token })
+  });
+  // Google answers 400 for tokens that are already invalid
+  if (!response.ok && response.status !== 400) {
+    throw new Error(`Failed to revoke token: ${await response.text()}`);
+  }
+}
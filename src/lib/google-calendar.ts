@@ -5,17 +5,76 @@
  * 1. Go to https://console.cloud.google.com/
  * 2. Create a project or select existing one
  * 3. Enable Google Calendar API
- * 4. Create credentials (OAuth 2.0 Client ID)
+ * 4. Create credentials (OAuth 2.0 Client ID, web application) with
+ *    <origin>/oauth/google/callback as an authorized redirect URI
  * 5. Set up environment variables:
  *    - GOOGLE_CLIENT_ID
  *    - GOOGLE_CLIENT_SECRET
- *    - GOOGLE_REFRESH_TOKEN (obtained via OAuth flow)
+ *    - GOOGLE_TOKEN_ENCRYPTION_KEY (encrypts refresh tokens at rest)
+ *    - GOOGLE_REFRESH_TOKEN (optional, a shared account for single-user
+ *      deployments, see getGoogleCalendarEnv in tools.ts)
  * 
  * For service account (simpler, for server-to-server):
  * 1. Create a service account
  * 2. Download JSON key
- * 3. Store credentials securely
+ * 3. Set GOOGLE_SERVICE_ACCOUNT_KEY to the key file's JSON
+ * 4. Either share calendars with the service account's email, or enable
+ *    domain-wide delegation and set GOOGLE_SERVICE_ACCOUNT_SUBJECT to the
+ *    Workspace user it acts as ("primary" is then that user's calendar)
+ * A refresh token, when there is one, takes precedence.
  */
+import {
+  describeParsedDateTime,
+  parseDateTime,
+  type DateTimeParseOptions
+} from "./date-parser";
+import {
+  addDays,
+  formatCalendarDate,
+  formatInTimeZone,
+  getZonedDateTime,
+  zonedDateTimeToDate
+} from "./timezone";
+import {
+  DEFAULT_WORKING_HOURS,
+  findFreeSlots,
+  overlaps,
+  rankSlots,
+  sortByProximity,
+  type TimeInterval,
+  type WorkingHours
+} from "./availability";
+import {
+  describeRecurrence,
+  firstOccurrence,
+  parseRecurrence,
+  toRecurrenceLines
+} from "./recurrence";
+import {
+  getAccessToken as getGoogleAccessToken,
+  invalidateAccessToken,
+  parseServiceAccountKey,
+  type TokenCache
+} from "./google-auth";
+import type { FieldChange } from "../shared";
+
+/**
+ * Credentials read by getAccessToken
+ */
+interface GoogleCalendarCredentials {
+  GOOGLE_CLIENT_ID?: string;
+  GOOGLE_CLIENT_SECRET?: string;
+  GOOGLE_REFRESH_TOKEN?: string;
+  GOOGLE_SERVICE_ACCOUNT_KEY?: string;
+  GOOGLE_SERVICE_ACCOUNT_SUBJECT?: string;
+}
+
+export interface GoogleCalendarEnv extends GoogleCalendarCredentials {
+  /** Caches access tokens between calls; without it every call refreshes */
+  tokenCache?: TokenCache;
+}
+
+const CALENDAR_API_BASE = "https://www.googleapis.com/calendar/v3";
 
 interface CalendarEventInput {
   title: string;
@@ -24,68 +83,158 @@ interface CalendarEventInput {
   endTime?: string;
   location?: string;
   attendees?: string[];
+  /** How the event repeats, in natural language or as an RRULE */
+  recurrence?: string;
+  /** Calendar to add the event to (defaults to the primary calendar) */
+  calendarId?: string;
+}
+
+interface GoogleCalendarEventTime {
+  /** Set for timed events */
+  dateTime?: string;
+  /** Set for all-day events (YYYY-MM-DD) */
+  date?: string;
+  timeZone?: string;
 }
 
 interface GoogleCalendarEvent {
   summary: string;
   description?: string;
-  start: {
-    dateTime: string;
-    timeZone: string;
-  };
-  end: {
-    dateTime: string;
-    timeZone: string;
-  };
+  start: GoogleCalendarEventTime;
+  end: GoogleCalendarEventTime;
   location?: string;
   attendees?: Array<{ email: string }>;
+  /** RRULE/EXDATE lines */
+  recurrence?: string[];
 }
 
+type EventTimesResult =
+  | {
+      ok: true;
+      start: GoogleCalendarEventTime;
+      end: GoogleCalendarEventTime;
+      recurrence?: string[];
+      /** Human-readable form of the recurrence */
+      repeats?: string;
+    }
+  | { ok: false; message: string };
+
 /**
- * Parse natural language date/time to ISO 8601 format
- * This is a basic implementation - you may want to use a library like date-fns or chrono-node
+ * Resolve the natural-language start/end of an event into Google Calendar times.
+ * Ambiguous or unreadable input is returned as a message to relay to the user.
  */
-function parseDateTime(dateTimeStr: string, defaultHour: number = 14): string {
-  const now = new Date();
-  const lower = dateTimeStr.toLowerCase();
-  
-  // Handle "tomorrow", "today", etc.
-  let date = new Date(now);
-  if (lower.includes("tomorrow")) {
-    date.setDate(date.getDate() + 1);
+function resolveEventTimes(
+  input: Pick<CalendarEventInput, "startTime" | "endTime" | "recurrence">,
+  options: DateTimeParseOptions & { timeZone: string },
+  defaultDurationMs = 60 * 60 * 1000
+): EventTimesResult {
+  const times = resolveSingleEventTimes(input, options, defaultDurationMs);
+  if (!times.ok || !input.recurrence) return times;
+
+  const allDay = times.start.date !== undefined;
+  const start = allDay
+    ? parseDateTime(times.start.date!, options)
+    : parseDateTime(times.start.dateTime!, options);
+  if (start.status !== "ok") return times;
+
+  const rule = parseRecurrence(input.recurrence, {
+    start: start.value.start,
+    timeZone: options.timeZone
+  });
+  if (rule.status !== "ok") return { ok: false, message: rule.message };
+
+  // Move the event onto the first day the rule allows, keeping its length
+  const shift =
+    firstOccurrence(rule.value, start.value.start, options.timeZone).getTime() -
+    start.value.start.getTime();
+  const move = (time: GoogleCalendarEventTime): GoogleCalendarEventTime => {
+    if (time.date) {
+      const [year, month, day] = time.date.split("-").map(Number);
+      return {
+        date: formatCalendarDate(
+          addDays({ year, month, day }, Math.round(shift / 86400000))
+        )
+      };
+    }
+    return {
+      ...time,
+      dateTime: new Date(Date.parse(time.dateTime!) + shift).toISOString()
+    };
+  };
+
+  return {
+    ok: true,
+    start: move(times.start),
+    end: move(times.end),
+    recurrence: toRecurrenceLines(rule.value, {
+      timeZone: options.timeZone,
+      allDay
+    }),
+    repeats: describeRecurrence(rule.value, options.timeZone)
+  };
+}
+
+function resolveSingleEventTimes(
+  input: Pick<CalendarEventInput, "startTime" | "endTime">,
+  options: DateTimeParseOptions & { timeZone: string },
+  defaultDurationMs: number
+): EventTimesResult {
+  const start = parseDateTime(input.startTime, options);
+  if (start.status !== "ok") {
+    return { ok: false, message: start.message };
   }
-  
-  // Extract time (e.g., "2pm", "14:00", "2:00 PM")
-  const timeMatch = dateTimeStr.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
-  if (timeMatch) {
-    let hour = parseInt(timeMatch[1], 10);
-    const minutes = timeMatch[2] ? parseInt(timeMatch[2], 10) : 0;
-    const ampm = timeMatch[3]?.toLowerCase();
-    
-    if (ampm === 'pm' && hour !== 12) hour += 12;
-    if (ampm === 'am' && hour === 12) hour = 0;
-    
-    date.setHours(hour, minutes, 0, 0);
-  } else {
-    date.setHours(defaultHour, 0, 0, 0);
+
+  let end = start.value.end;
+  if (input.endTime) {
+    const parsedEnd = parseDateTime(input.endTime, {
+      ...options,
+      now: start.value.start
+    });
+    if (parsedEnd.status !== "ok") {
+      return { ok: false, message: parsedEnd.message };
+    }
+    end = parsedEnd.value.end ?? parsedEnd.value.start;
   }
-  
-  return date.toISOString();
+
+  if (start.value.allDay && !input.endTime) {
+    const day = getZonedDateTime(start.value.start, options.timeZone);
+    return {
+      ok: true,
+      start: { date: formatCalendarDate(day) },
+      end: { date: formatCalendarDate(addDays(day, 1)) }
+    };
+  }
+
+  // Default to 1 hour
+  const endDate = end ?? new Date(start.value.start.getTime() + defaultDurationMs);
+  if (endDate.getTime() <= start.value.start.getTime()) {
+    return {
+      ok: false,
+      message: `The end time "${input.endTime}" is not after the start time "${input.startTime}".`
+    };
+  }
+
+  return {
+    ok: true,
+    start: {
+      dateTime: start.value.start.toISOString(),
+      timeZone: options.timeZone
+    },
+    end: { dateTime: endDate.toISOString(), timeZone: options.timeZone }
+  };
 }
 
 /**
  * Get Google Calendar API access token
- * Uses service account or OAuth refresh token
+ * Uses the OAuth refresh token, else the service account key, caching the
+ * access token when a cache is given
  */
-async function getAccessToken(env?: {
-  GOOGLE_CLIENT_ID?: string;
-  GOOGLE_CLIENT_SECRET?: string;
-  GOOGLE_REFRESH_TOKEN?: string;
-  GOOGLE_SERVICE_ACCOUNT_KEY?: string;
-}): Promise<string> {
+async function getAccessToken(env?: GoogleCalendarEnv): Promise<string> {
   // Support both Node.js process.env and Cloudflare Workers env
-  const getEnv = (key: string): string | undefined => {
-    if (env && key in env) return env[key as keyof typeof env];
+  const getEnv = (key: keyof GoogleCalendarCredentials): string | undefined => {
+    if (env?.[key]) return env[key];
+    // Left out on purpose, e.g. a shared token this session may not use
+    if (env && key in env) return undefined;
     // Fallback for local development
     if (typeof process !== 'undefined' && process.env) {
       return process.env[key];
@@ -93,46 +242,31 @@ async function getAccessToken(env?: {
     return undefined;
   };
   
-  // Option 1: Using service account (stored in env)
-  if (getEnv('GOOGLE_SERVICE_ACCOUNT_KEY')) {
-    // Service account authentication
-    // You would use google-auth-library here
-    // For now, we'll use refresh token method
-  }
-  
-  // Option 2: Using OAuth refresh token
   const clientId = getEnv('GOOGLE_CLIENT_ID');
   const clientSecret = getEnv('GOOGLE_CLIENT_SECRET');
   const refreshToken = getEnv('GOOGLE_REFRESH_TOKEN');
+  const serviceAccountKey = getEnv('GOOGLE_SERVICE_ACCOUNT_KEY');
   
-  if (!clientId || !clientSecret || !refreshToken) {
-    throw new Error(
-      "Google Calendar credentials not configured. " +
-      "Set GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, and GOOGLE_REFRESH_TOKEN environment variables."
+  if (clientId && clientSecret && refreshToken) {
+    return getGoogleAccessToken(
+      { clientId, clientSecret, refreshToken },
+      env?.tokenCache
     );
   }
-  
-  // Exchange refresh token for access token
-  const response = await fetch("https://oauth2.googleapis.com/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token",
-    }),
-  });
-  
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get access token: ${error}`);
+  if (serviceAccountKey) {
+    return getGoogleAccessToken(
+      parseServiceAccountKey(
+        serviceAccountKey,
+        getEnv('GOOGLE_SERVICE_ACCOUNT_SUBJECT')
+      ),
+      env?.tokenCache
+    );
   }
-  
-  const data = await response.json<{ access_token: string }>();
-  return data.access_token;
+  throw new Error(
+    "Google Calendar credentials not configured. " +
+    "Set GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, and GOOGLE_REFRESH_TOKEN, " +
+    "or GOOGLE_SERVICE_ACCOUNT_KEY environment variables."
+  );
 }
 
 /**
@@ -140,64 +274,871 @@ async function getAccessToken(env?: {
  */
 export async function createCalendarEvent(
   input: CalendarEventInput,
-  env?: {
-    GOOGLE_CLIENT_ID?: string;
-    GOOGLE_CLIENT_SECRET?: string;
-    GOOGLE_REFRESH_TOKEN?: string;
-    GOOGLE_SERVICE_ACCOUNT_KEY?: string;
-  }
+  env?: GoogleCalendarEnv,
+  options: DateTimeParseOptions = {}
 ): Promise<string> {
   try {
-    const accessToken = await getAccessToken(env);
-    
-    // Parse dates
-    const startDateTime = parseDateTime(input.startTime);
-    const endDateTime = input.endTime 
-      ? parseDateTime(input.endTime)
-      : new Date(new Date(startDateTime).getTime() + 60 * 60 * 1000).toISOString(); // Default 1 hour
-    
+    // Parse dates before touching the network so ambiguous input can be
+    // sent back to the user for clarification
+    const times = resolveEventTimes(input, {
+      ...options,
+      timeZone:
+        options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+    if (!times.ok) {
+      return `Could not create calendar event "${input.title}". ${times.message} Ask the user to clarify the time.`;
+    }
+
     // Build Google Calendar event
     const calendarEvent: GoogleCalendarEvent = {
       summary: input.title,
       description: input.description || "",
-      start: {
-        dateTime: startDateTime,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      end: {
-        dateTime: endDateTime,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
+      start: times.start,
+      end: times.end,
       ...(input.location && { location: input.location }),
       ...(input.attendees && {
         attendees: input.attendees.map(email => ({ email })),
       }),
+      ...(times.recurrence && { recurrence: times.recurrence }),
     };
     
     // Create event via Google Calendar API
-    const response = await fetch(
-      "https://www.googleapis.com/calendar/v3/calendars/primary/events",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(calendarEvent),
-      }
+    const event = await googleCalendarRequest<{ id: string; htmlLink: string }>(
+      `${calendarPath(input.calendarId)}/events`,
+      env,
+      { method: "POST", body: JSON.stringify(calendarEvent) }
     );
     
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Failed to create calendar event: ${error}`);
-    }
-    
-    const event = await response.json<{ id: string; htmlLink: string }>();
-    
-    return `Calendar event "${input.title}" created successfully! View it here: ${event.htmlLink}`;
+    const repeats = times.repeats ? ` (${times.repeats})` : "";
+    return `Calendar event "${input.title}"${repeats} created successfully! View it here: ${event.htmlLink}`;
   } catch (error) {
     console.error("Error creating calendar event:", error);
     throw error;
   }
 }
 
+
+/**
+ * Compact view of an event returned by the read-side calendar functions
+ */
+export interface CalendarEventSummary {
+  id: string;
+  title: string;
+  /** ISO timestamp, or YYYY-MM-DD for all-day events */
+  start: string;
+  /** ISO timestamp, or YYYY-MM-DD (exclusive) for all-day events */
+  end: string;
+  allDay: boolean;
+  location?: string;
+  description?: string;
+  attendees?: string[];
+  status?: string;
+  htmlLink?: string;
+}
+
+/**
+ * One page of events, in the order they occur
+ */
+export interface CalendarEventPage {
+  /** Time zone the agenda should be displayed in */
+  timeZone: string;
+  events: CalendarEventSummary[];
+  /** Pass back as pageToken to fetch the next page */
+  nextPageToken?: string;
+}
+
+export interface ListCalendarEventsOptions {
+  /** Start of the range in natural language or ISO format (defaults to now) */
+  from?: string;
+  /** End of the range in natural language or ISO format */
+  to?: string;
+  /** Free-text search over title, description, location and attendees */
+  query?: string;
+  pageToken?: string;
+  maxResults?: number;
+  /** Calendar to read (defaults to the primary calendar) */
+  calendarId?: string;
+}
+
+interface GoogleCalendarApiEvent {
+  id: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  status?: string;
+  htmlLink?: string;
+  start: GoogleCalendarEventTime;
+  end: GoogleCalendarEventTime;
+  attendees?: Array<{ email: string }>;
+}
+
+/**
+ * Call the Google Calendar API and return the parsed JSON body
+ */
+async function googleCalendarRequest<T>(
+  path: string,
+  env: GoogleCalendarEnv | undefined,
+  init: RequestInit = {}
+): Promise<T> {
+  const send = async () =>
+    fetch(`${CALENDAR_API_BASE}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${await getAccessToken(env)}`,
+        "Content-Type": "application/json",
+        ...init.headers
+      }
+    });
+
+  let response = await send();
+  if (response.status === 401 && env?.tokenCache) {
+    // The cached token was revoked early; refresh once and retry
+    await invalidateAccessToken(env.tokenCache);
+    response = await send();
+  }
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Google Calendar request failed (${response.status}): ${error}`);
+  }
+
+  // DELETE answers 204 with an empty body
+  if (response.status === 204) return undefined as T;
+  return response.json<T>();
+}
+
+function toEventSummary(
+  event: Pick<GoogleCalendarApiEvent, "start" | "end"> &
+    Partial<GoogleCalendarApiEvent>
+): CalendarEventSummary {
+  const allDay = !event.start.dateTime;
+  return {
+    id: event.id ?? "",
+    title: event.summary || "(No title)",
+    start: event.start.dateTime ?? event.start.date ?? "",
+    end: event.end.dateTime ?? event.end.date ?? "",
+    allDay,
+    ...(event.location && { location: event.location }),
+    ...(event.description && { description: event.description }),
+    ...(event.attendees && {
+      attendees: event.attendees.map((attendee) => attendee.email)
+    }),
+    ...(event.status && { status: event.status }),
+    ...(event.htmlLink && { htmlLink: event.htmlLink })
+  };
+}
+
+type TimeRangeResult =
+  | { ok: true; timeMin: Date; timeMax?: Date }
+  | { ok: false; message: string };
+
+/**
+ * Turn natural-language range bounds into instants. A lone day such as
+ * "tomorrow" covers that whole day.
+ */
+function resolveTimeRange(
+  from: string | undefined,
+  to: string | undefined,
+  options: DateTimeParseOptions & { timeZone: string }
+): TimeRangeResult {
+  const now = options.now ?? new Date();
+  if (!from) {
+    if (!to) return { ok: true, timeMin: now };
+    const parsedTo = parseDateTime(to, options);
+    if (parsedTo.status !== "ok") return { ok: false, message: parsedTo.message };
+    return {
+      ok: true,
+      timeMin: now,
+      timeMax: parsedTo.value.end ?? parsedTo.value.start
+    };
+  }
+
+  const parsedFrom = parseDateTime(from, options);
+  if (parsedFrom.status !== "ok") {
+    return { ok: false, message: parsedFrom.message };
+  }
+  if (!to) {
+    return {
+      ok: true,
+      timeMin: parsedFrom.value.start,
+      timeMax: parsedFrom.value.end
+    };
+  }
+
+  const parsedTo = parseDateTime(to, { ...options, now: parsedFrom.value.start });
+  if (parsedTo.status !== "ok") return { ok: false, message: parsedTo.message };
+  return {
+    ok: true,
+    timeMin: parsedFrom.value.start,
+    timeMax: parsedTo.value.end ?? parsedTo.value.start
+  };
+}
+
+/**
+ * List events in a time range, optionally filtered by a free-text query.
+ * Recurring events are expanded into their individual occurrences.
+ * Returns a message string when the range cannot be understood.
+ */
+export async function listCalendarEvents(
+  options: ListCalendarEventsOptions,
+  env?: GoogleCalendarEnv,
+  parseOptions: DateTimeParseOptions = {}
+): Promise<CalendarEventPage | string> {
+  const timeZone =
+    parseOptions.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const range = resolveTimeRange(options.from, options.to, {
+    ...parseOptions,
+    timeZone
+  });
+  if (!range.ok) {
+    return `${range.message} Ask the user to clarify the dates to look at.`;
+  }
+
+  const params = new URLSearchParams({
+    singleEvents: "true",
+    orderBy: "startTime",
+    timeZone,
+    timeMin: range.timeMin.toISOString(),
+    maxResults: String(Math.min(options.maxResults ?? 10, 50))
+  });
+  if (range.timeMax) params.set("timeMax", range.timeMax.toISOString());
+  if (options.query) params.set("q", options.query);
+  if (options.pageToken) params.set("pageToken", options.pageToken);
+
+  const data = await googleCalendarRequest<{
+    items?: GoogleCalendarApiEvent[];
+    nextPageToken?: string;
+  }>(`${calendarPath(options.calendarId)}/events?${params}`, env);
+
+  return {
+    timeZone,
+    events: (data.items ?? []).map(toEventSummary),
+    ...(data.nextPageToken && { nextPageToken: data.nextPageToken })
+  };
+}
+
+/**
+ * Fetch a single event by its ID
+ */
+export async function getCalendarEvent(
+  eventId: string,
+  env?: GoogleCalendarEnv,
+  calendarId?: string
+): Promise<CalendarEventSummary> {
+  const event = await googleCalendarRequest<GoogleCalendarApiEvent>(
+    eventPath(eventId, calendarId),
+    env
+  );
+  return toEventSummary(event);
+}
+
+/**
+ * Changes to apply to an existing event. Omitted fields are left as they are.
+ */
+export interface CalendarEventChanges {
+  eventId: string;
+  title?: string;
+  description?: string;
+  /** New start; the event keeps its length unless endTime is also given */
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+  /** Replaces the whole attendee list */
+  attendees?: string[];
+  addAttendees?: string[];
+  removeAttendees?: string[];
+  /** Calendar the event lives on (defaults to the primary calendar) */
+  calendarId?: string;
+}
+
+type EventPatchResult =
+  | {
+      ok: true;
+      patch: Partial<GoogleCalendarEvent>;
+      before: CalendarEventSummary;
+      after: CalendarEventSummary;
+    }
+  | { ok: false; message: string };
+
+/**
+ * Work out the PATCH body for an update, plus the event as it will look after it
+ */
+function buildEventPatch(
+  existing: GoogleCalendarApiEvent,
+  changes: CalendarEventChanges,
+  options: DateTimeParseOptions & { timeZone: string }
+): EventPatchResult {
+  const patch: Partial<GoogleCalendarEvent> = {};
+
+  if (changes.title !== undefined && changes.title !== existing.summary) {
+    patch.summary = changes.title;
+  }
+  if (
+    changes.description !== undefined &&
+    changes.description !== (existing.description ?? "")
+  ) {
+    patch.description = changes.description;
+  }
+  if (
+    changes.location !== undefined &&
+    changes.location !== (existing.location ?? "")
+  ) {
+    patch.location = changes.location;
+  }
+
+  const existingStart = new Date(
+    existing.start.dateTime ?? `${existing.start.date}T00:00:00Z`
+  );
+  const existingEnd = new Date(
+    existing.end.dateTime ?? `${existing.end.date}T00:00:00Z`
+  );
+
+  if (changes.startTime) {
+    const times = resolveEventTimes(
+      { startTime: changes.startTime, endTime: changes.endTime },
+      options,
+      existing.start.dateTime
+        ? existingEnd.getTime() - existingStart.getTime()
+        : undefined
+    );
+    if (!times.ok) return { ok: false, message: times.message };
+    patch.start = times.start;
+    patch.end = times.end;
+  } else if (changes.endTime) {
+    if (!existing.start.dateTime) {
+      return {
+        ok: false,
+        message: "An all-day event needs a new start time to get an end time."
+      };
+    }
+    const end = parseDateTime(changes.endTime, {
+      ...options,
+      now: existingStart
+    });
+    if (end.status !== "ok") return { ok: false, message: end.message };
+    const endDate = end.value.end ?? end.value.start;
+    if (endDate.getTime() <= existingStart.getTime()) {
+      return {
+        ok: false,
+        message: `The end time "${changes.endTime}" is not after the event's start.`
+      };
+    }
+    patch.end = { dateTime: endDate.toISOString(), timeZone: options.timeZone };
+  }
+
+  if (changes.attendees || changes.addAttendees || changes.removeAttendees) {
+    const current = existing.attendees ?? [];
+    const removed = new Set(
+      (changes.removeAttendees ?? []).map((email) => email.toLowerCase())
+    );
+    const emails = [...(changes.attendees ?? current.map((a) => a.email))];
+    for (const email of changes.addAttendees ?? []) {
+      if (!emails.some((e) => e.toLowerCase() === email.toLowerCase())) {
+        emails.push(email);
+      }
+    }
+    const next = emails.filter((email) => !removed.has(email.toLowerCase()));
+    const unchanged =
+      next.length === current.length &&
+      next.every((email, i) => email.toLowerCase() === current[i].email.toLowerCase());
+    if (!unchanged) {
+      // Keep existing attendee records so their RSVP status survives
+      patch.attendees = next.map(
+        (email) =>
+          current.find((a) => a.email.toLowerCase() === email.toLowerCase()) ?? {
+            email
+          }
+      );
+    }
+  }
+
+  return {
+    ok: true,
+    patch,
+    before: toEventSummary(existing),
+    after: toEventSummary({ ...existing, ...patch })
+  };
+}
+
+function describeEventTime(event: CalendarEventSummary, timeZone: string) {
+  if (event.allDay) {
+    const day = formatInTimeZone(new Date(event.start), "UTC", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric"
+    });
+    return `${day} (all day)`;
+  }
+  const start = formatInTimeZone(new Date(event.start), timeZone);
+  const end = formatInTimeZone(new Date(event.end), timeZone, {
+    hour: "numeric",
+    minute: "2-digit"
+  });
+  return `${start} – ${end}`;
+}
+
+/**
+ * Field-by-field comparison of an event before and after a change.
+ * Pass null as `after` for a deletion.
+ */
+export function diffCalendarEvents(
+  before: CalendarEventSummary,
+  after: CalendarEventSummary | null,
+  timeZone: string
+): FieldChange[] {
+  const fields: Array<[string, (event: CalendarEventSummary) => string]> = [
+    ["Title", (event) => event.title],
+    ["When", (event) => describeEventTime(event, timeZone)],
+    ["Location", (event) => event.location ?? ""],
+    ["Attendees", (event) => (event.attendees ?? []).join(", ")],
+    ["Description", (event) => event.description ?? ""]
+  ];
+
+  const changes: FieldChange[] = [];
+  for (const [field, read] of fields) {
+    const beforeValue = read(before);
+    const afterValue = after ? read(after) : "";
+    if (beforeValue === afterValue) continue;
+    changes.push({
+      field,
+      ...(beforeValue && { before: beforeValue }),
+      ...(afterValue && { after: afterValue })
+    });
+  }
+  return changes;
+}
+
+function calendarPath(calendarId = "primary") {
+  return `/calendars/${encodeURIComponent(calendarId)}`;
+}
+
+function eventPath(eventId: string, calendarId?: string) {
+  return `${calendarPath(calendarId)}/events/${encodeURIComponent(eventId)}`;
+}
+
+/**
+ * Preview an update or deletion without changing anything
+ */
+export async function previewCalendarEventChange(
+  changes:
+    | CalendarEventChanges
+    | { eventId: string; calendarId?: string; delete: true },
+  env?: GoogleCalendarEnv,
+  options: DateTimeParseOptions = {}
+): Promise<{ changes: FieldChange[] } | { message: string }> {
+  const timeZone =
+    options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const existing = await googleCalendarRequest<GoogleCalendarApiEvent>(
+    eventPath(changes.eventId, changes.calendarId),
+    env
+  );
+
+  if ("delete" in changes) {
+    return {
+      changes: diffCalendarEvents(toEventSummary(existing), null, timeZone)
+    };
+  }
+
+  const result = buildEventPatch(existing, changes, { ...options, timeZone });
+  if (!result.ok) return { message: result.message };
+  return {
+    changes: diffCalendarEvents(result.before, result.after, timeZone)
+  };
+}
+
+/**
+ * Update (rename, reschedule, re-invite) an existing calendar event
+ */
+export async function updateCalendarEvent(
+  changes: CalendarEventChanges,
+  env?: GoogleCalendarEnv,
+  options: DateTimeParseOptions = {}
+): Promise<string> {
+  const timeZone =
+    options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const existing = await googleCalendarRequest<GoogleCalendarApiEvent>(
+    eventPath(changes.eventId, changes.calendarId),
+    env
+  );
+
+  const result = buildEventPatch(existing, changes, { ...options, timeZone });
+  if (!result.ok) {
+    return `Could not update calendar event "${existing.summary}". ${result.message} Ask the user to clarify.`;
+  }
+  if (Object.keys(result.patch).length === 0) {
+    return `Calendar event "${existing.summary}" already matches the requested changes; nothing was updated.`;
+  }
+
+  // Let attendees know when their invitation changes
+  const updated = await googleCalendarRequest<GoogleCalendarApiEvent>(
+    `${eventPath(changes.eventId, changes.calendarId)}?sendUpdates=all`,
+    env,
+    { method: "PATCH", body: JSON.stringify(result.patch) }
+  );
+
+  const changed = diffCalendarEvents(result.before, result.after, timeZone)
+    .map((change) => change.field.toLowerCase())
+    .join(", ");
+  return `Calendar event "${updated.summary}" updated successfully (${changed})! View it here: ${updated.htmlLink}`;
+}
+
+/**
+ * Delete (cancel) a calendar event, notifying its attendees
+ */
+export async function deleteCalendarEvent(
+  eventId: string,
+  env?: GoogleCalendarEnv,
+  calendarId?: string
+): Promise<string> {
+  const existing = await googleCalendarRequest<GoogleCalendarApiEvent>(
+    eventPath(eventId, calendarId),
+    env
+  );
+  await googleCalendarRequest<void>(
+    `${eventPath(eventId, calendarId)}?sendUpdates=all`,
+    env,
+    { method: "DELETE" }
+  );
+  return `Calendar event "${existing.summary}" was deleted.`;
+}
+
+/**
+ * A calendar the user can see, from their calendar list
+ */
+export interface CalendarListEntry {
+  id: string;
+  name: string;
+  primary: boolean;
+  /** "owner", "writer", "reader" or "freeBusyReader" */
+  accessRole: string;
+  timeZone?: string;
+  description?: string;
+}
+
+/**
+ * List the calendars on the user's calendar list, primary first
+ */
+export async function listCalendars(
+  env?: GoogleCalendarEnv
+): Promise<CalendarListEntry[]> {
+  const data = await googleCalendarRequest<{
+    items?: Array<{
+      id: string;
+      summary: string;
+      summaryOverride?: string;
+      primary?: boolean;
+      accessRole: string;
+      timeZone?: string;
+      description?: string;
+    }>;
+  }>("/users/me/calendarList", env);
+
+  return (data.items ?? [])
+    .map((item) => ({
+      id: item.id,
+      name: item.summaryOverride ?? item.summary,
+      primary: item.primary ?? false,
+      accessRole: item.accessRole,
+      ...(item.timeZone && { timeZone: item.timeZone }),
+      ...(item.description && { description: item.description })
+    }))
+    .sort((a, b) => Number(b.primary) - Number(a.primary));
+}
+
+export type CalendarLookupResult =
+  | { ok: true; calendar: CalendarListEntry }
+  | { ok: false; message: string };
+
+/**
+ * Find a calendar by ID or by name, e.g. "team", "the Team calendar" or
+ * "primary". Unknown or ambiguous names come back as a message to relay.
+ */
+export async function findCalendar(
+  nameOrId: string,
+  env?: GoogleCalendarEnv
+): Promise<CalendarLookupResult> {
+  const calendars = await listCalendars(env);
+  const wanted = nameOrId.trim().toLowerCase();
+  const byId = calendars.find(
+    (calendar) =>
+      calendar.id.toLowerCase() === wanted ||
+      (calendar.primary && /^(primary|my|my own|mine|main)$/.test(wanted))
+  );
+  if (byId) return { ok: true, calendar: byId };
+
+  const name = wanted.replace(/^(the|my)\s+/, "").replace(/\s+calendar$/, "");
+  const exact = calendars.filter(
+    (calendar) => calendar.name.toLowerCase() === name
+  );
+  const matches =
+    exact.length > 0
+      ? exact
+      : calendars.filter((calendar) =>
+          calendar.name.toLowerCase().includes(name)
+        );
+
+  if (matches.length === 1) return { ok: true, calendar: matches[0] };
+  const names = (matches.length > 1 ? matches : calendars)
+    .map((calendar) => `"${calendar.name}"`)
+    .join(", ");
+  return {
+    ok: false,
+    message:
+      matches.length > 1
+        ? `"${nameOrId}" matches several calendars: ${names}. Ask the user which one they mean.`
+        : `There is no calendar called "${nameOrId}". The user's calendars are ${names}.`
+  };
+}
+
+/**
+ * Busy times of one calendar. `error` is set when the calendar could not be
+ * read, e.g. an attendee outside the organization who does not share free/busy.
+ */
+export interface BusyCalendar {
+  calendar: string;
+  busy: TimeInterval[];
+  error?: string;
+}
+
+/**
+ * Query free/busy for several calendars (or attendee email addresses) at once
+ */
+export async function queryFreeBusy(
+  calendars: string[],
+  timeMin: Date,
+  timeMax: Date,
+  env?: GoogleCalendarEnv
+): Promise<BusyCalendar[]> {
+  const data = await googleCalendarRequest<{
+    calendars: Record<
+      string,
+      {
+        busy?: Array<{ start: string; end: string }>;
+        errors?: Array<{ reason: string }>;
+      }
+    >;
+  }>("/freeBusy", env, {
+    method: "POST",
+    body: JSON.stringify({
+      timeMin: timeMin.toISOString(),
+      timeMax: timeMax.toISOString(),
+      items: calendars.map((id) => ({ id }))
+    })
+  });
+
+  return calendars.map((calendar) => {
+    const result = data.calendars[calendar];
+    return {
+      calendar,
+      busy: (result?.busy ?? []).map((interval) => ({
+        start: new Date(interval.start),
+        end: new Date(interval.end)
+      })),
+      ...(result?.errors?.length && {
+        error: result.errors.map((e) => e.reason).join(", ")
+      })
+    };
+  });
+}
+
+/**
+ * Result of checking a proposed event against the calendars involved
+ */
+export interface ConflictCheck {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  /** Human-readable recurrence, for repeating events */
+  repeats?: string;
+  /** Busy intervals on the user's or attendees' calendars overlapping the event */
+  conflicts: Array<{ calendar: string } & TimeInterval>;
+  /** Nearby free slots of the same length, closest first */
+  suggestions: TimeInterval[];
+}
+
+/**
+ * How far around the proposed event to look for alternatives
+ */
+const SUGGESTION_WINDOW_DAYS = 3;
+
+/**
+ * Check a proposed event against free/busy on the user's calendar and any
+ * attendees' calendars. All-day events are not checked and come back
+ * without conflicts. Returns a message string when the event times cannot
+ * be understood. Repeating events are checked on their first occurrence.
+ */
+export async function checkEventConflicts(
+  input: CalendarEventInput,
+  env?: GoogleCalendarEnv,
+  options: DateTimeParseOptions = {}
+): Promise<ConflictCheck | string> {
+  const timeZone =
+    options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const times = resolveEventTimes(input, { ...options, timeZone });
+  if (!times.ok) return times.message;
+  if (!times.start.dateTime || !times.end.dateTime) {
+    const day = (date: string) => {
+      const [year, month, dayOfMonth] = date.split("-").map(Number);
+      return zonedDateTimeToDate({ year, month, day: dayOfMonth }, timeZone);
+    };
+    return {
+      start: day(times.start.date!),
+      end: day(times.end.date!),
+      allDay: true,
+      repeats: times.repeats,
+      conflicts: [],
+      suggestions: []
+    };
+  }
+
+  const event = {
+    start: new Date(times.start.dateTime),
+    end: new Date(times.end.dateTime),
+    allDay: false,
+    repeats: times.repeats
+  };
+  const now = options.now ?? new Date();
+  const windowStart = new Date(
+    Math.max(now.getTime(), event.start.getTime() - 86400000)
+  );
+  const windowEnd = new Date(
+    event.end.getTime() + SUGGESTION_WINDOW_DAYS * 86400000
+  );
+
+  const calendars = await queryFreeBusy(
+    [
+      ...new Set([
+        "primary",
+        ...(input.calendarId ? [input.calendarId] : []),
+        ...(input.attendees ?? [])
+      ])
+    ],
+    windowStart,
+    windowEnd,
+    env
+  );
+
+  const conflicts = calendars.flatMap(({ calendar, busy }) =>
+    busy
+      .filter((interval) => overlaps(interval, event))
+      .map((interval) => ({ calendar, ...interval }))
+  );
+  if (conflicts.length === 0) {
+    return { ...event, conflicts, suggestions: [] };
+  }
+
+  // Suggest slots during waking hours on any day, since the proposed
+  // event may well be personal
+  const slots = findFreeSlots({
+    busy: calendars.flatMap((calendar) => calendar.busy),
+    windowStart,
+    windowEnd,
+    durationMinutes: (event.end.getTime() - event.start.getTime()) / 60000,
+    timeZone,
+    workingHours: { start: 8, end: 20, days: [0, 1, 2, 3, 4, 5, 6] },
+    stepMinutes: 15
+  });
+
+  return {
+    ...event,
+    conflicts,
+    suggestions: sortByProximity(slots, event.start).slice(0, 3)
+  };
+}
+
+/**
+ * A request to find meeting times that suit everyone
+ */
+export interface SlotSearchInput {
+  /** Email addresses of the other people; the user's calendar is always included */
+  attendees?: string[];
+  durationMinutes: number;
+  /** Start of the search window in natural language or ISO format (defaults to now) */
+  from?: string;
+  /** End of the search window (defaults to the end of `from`, or a week ahead) */
+  to?: string;
+  workingHours?: Partial<WorkingHours>;
+  /** Maximum number of slots to return (defaults to 5) */
+  maxResults?: number;
+}
+
+export interface SlotSearchResult {
+  timeZone: string;
+  durationMinutes: number;
+  attendees: string[];
+  /** Ranked best first; start/end can be passed straight to createCalendarEvent */
+  slots: Array<{ start: string; end: string; label: string }>;
+  /** Calendars whose free/busy could not be read, so may still clash */
+  unavailable: Array<{ calendar: string; error: string }>;
+}
+
+const DEFAULT_SEARCH_DAYS = 7;
+
+/**
+ * Find free slots of the requested length across the user's and the
+ * attendees' calendars, within working hours in the given time zone
+ */
+export async function findAvailableSlots(
+  input: SlotSearchInput,
+  env?: GoogleCalendarEnv,
+  options: DateTimeParseOptions = {}
+): Promise<SlotSearchResult | string> {
+  const timeZone =
+    options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const now = options.now ?? new Date();
+  const range = resolveTimeRange(input.from, input.to, {
+    ...options,
+    now,
+    timeZone
+  });
+  if (!range.ok) {
+    return `${range.message} Ask the user to clarify when to look for a time.`;
+  }
+
+  const windowStart = new Date(
+    Math.max(range.timeMin.getTime(), now.getTime())
+  );
+  const windowEnd =
+    range.timeMax ??
+    new Date(windowStart.getTime() + DEFAULT_SEARCH_DAYS * 86400000);
+  if (windowEnd.getTime() <= windowStart.getTime()) {
+    return "That time window is already in the past. Ask the user for a later window.";
+  }
+
+  const workingHours = { ...DEFAULT_WORKING_HOURS, ...input.workingHours };
+  const attendees = input.attendees ?? [];
+  const calendars = await queryFreeBusy(
+    ["primary", ...attendees],
+    windowStart,
+    windowEnd,
+    env
+  );
+  const busy = calendars.flatMap((calendar) => calendar.busy);
+
+  const slots = rankSlots(
+    findFreeSlots({
+      busy,
+      windowStart,
+      windowEnd,
+      durationMinutes: input.durationMinutes,
+      timeZone,
+      workingHours
+    }),
+    { busy, timeZone, workingHours, limit: input.maxResults }
+  );
+
+  return {
+    timeZone,
+    durationMinutes: input.durationMinutes,
+    attendees,
+    slots: slots.map(({ start, end }) => ({
+      start: start.toISOString(),
+      end: end.toISOString(),
+      label: describeParsedDateTime({ start, end, allDay: false }, timeZone)
+    })),
+    unavailable: calendars.flatMap(({ calendar, error }) =>
+      error ? [{ calendar, error }] : []
+    )
+  };
+}
@@ -0,0 +1,388 @@
+/**
+ * Intent routing for chat turns
+ *
+ * Before the main model runs, the user's message is classified into a typed
+ * intent with a confidence. Classifiers are pluggable: keyword rules answer
+ * the clear cases for free, and a small model call can take the rest. A
+ * confident intent narrows the tools the main model sees and adds guidance
+ * to the system prompt; afterwards, tool calls that do not fit the intent
+ * are reported as misroutes.
+ */
+
+export type Intent =
+  | "create_event"
+  | "query_calendar"
+  | "modify_event"
+  | "find_time"
+  | "manage_calendars"
+  | "schedule_task"
+  | "weather"
+  | "local_time"
+  | "general";
+
+export const INTENTS: Intent[] = [
+  "create_event",
+  "query_calendar",
+  "modify_event",
+  "find_time",
+  "manage_calendars",
+  "schedule_task",
+  "weather",
+  "local_time",
+  "general"
+];
+
+/** Routes at least this confident narrow tools and shape the prompt */
+export const MIN_ROUTE_CONFIDENCE = 0.7;
+
+export interface IntentResult {
+  intent: Intent;
+  /** 0-1 */
+  confidence: number;
+  /** Name of the classifier that decided */
+  source: string;
+}
+
+export interface IntentClassifier {
+  name: string;
+  /** Null when the classifier has no opinion */
+  classify(text: string): Promise<IntentResult | null>;
+}
+
+/**
+ * Tools each intent may use; general keeps every tool. Tools not named in
+ * any list (e.g. MCP tools) are always kept.
+ */
+export const INTENT_TOOLS: Record<Exclude<Intent, "general">, string[]> = {
+  create_event: [
+    "createCalendarEvent",
+    "findAvailableSlots",
+    "listCalendarEvents",
+    "listCalendars",
+    "getLocalTime"
+  ],
+  query_calendar: [
+    "listCalendarEvents",
+    "searchCalendarEvents",
+    "getCalendarEvent",
+    "listCalendars",
+    "findAvailableSlots",
+    "getLocalTime"
+  ],
+  modify_event: [
+    "searchCalendarEvents",
+    "listCalendarEvents",
+    "getCalendarEvent",
+    "updateCalendarEvent",
+    "deleteCalendarEvent",
+    "listCalendars"
+  ],
+  find_time: [
+    "findAvailableSlots",
+    "createCalendarEvent",
+    "listCalendarEvents",
+    "getLocalTime"
+  ],
+  manage_calendars: ["listCalendars", "setDefaultCalendar"],
+  schedule_task: [
+    "scheduleTask",
+    "getScheduledTasks",
+    "cancelScheduledTask",
+    "rescheduleTask",
+    "snoozeTask",
+    "createTask",
+    "updateTask",
+    "completeTask",
+    "queryTasks"
+  ],
+  weather: ["getWeatherInformation"],
+  local_time: ["getLocalTime"]
+};
+
+/** System prompt guidance for a confidently routed turn */
+export const INTENT_GUIDANCE: Record<Intent, string> = {
+  create_event:
+    "🚨 USER WANTS TO CREATE A CALENDAR EVENT 🚨\nYou MUST call the createCalendarEvent tool NOW. Do not describe it, do not think about it - CALL IT IMMEDIATELY.",
+  query_calendar:
+    "The user is asking about their calendar. Answer with listCalendarEvents, searchCalendarEvents or getCalendarEvent; do not create or change events.",
+  modify_event:
+    "The user wants to change or cancel an existing event. Find it with searchCalendarEvents or listCalendarEvents, then call updateCalendarEvent or deleteCalendarEvent.",
+  find_time:
+    "The user wants to find a time that works. Call findAvailableSlots; never invent a time.",
+  manage_calendars:
+    "The user is asking which calendars they have or which one to use. Call listCalendars or setDefaultCalendar.",
+  schedule_task:
+    "The user wants a reminder or task from this assistant, NOT a calendar event. Use createTask, updateTask, completeTask or queryTasks for their task list, and scheduleTask, getScheduledTasks, rescheduleTask, snoozeTask or cancelScheduledTask for reminders.",
+  weather: "The user wants the weather. Call getWeatherInformation.",
+  local_time:
+    "The user wants a local time or a time converted between places. Call getLocalTime.",
+  general: ""
+};
+
+/** The tool to force when a turn of this intent must call one */
+export const INTENT_PRIMARY_TOOL: Partial<Record<Intent, string>> = {
+  create_event: "createCalendarEvent",
+  find_time: "findAvailableSlots",
+  weather: "getWeatherInformation",
+  local_time: "getLocalTime"
+};
+
+// Intents that cannot be served without calling one of their tools
+const ACTION_INTENTS = new Set<Intent>([
+  "create_event",
+  "modify_event",
+  "find_time",
+  "schedule_task",
+  "weather",
+  "local_time"
+]);
+
+export interface IntentRule {
+  intent: Intent;
+  test: (text: string) => boolean;
+  confidence: number;
+}
+
+const EVENT_NOUN =
+  /\b(meeting|sync|call|1:1|one[- ]on[- ]one|standup|stand-up|lunch|dinner|coffee|appointment|interview|review|event|session|demo|catch[- ]?up|offsite|workshop)\b/;
+const CREATE_VERB =
+  /\b(block|book|schedule|set up|setup|arrange|organi[sz]e|plan|create|add|put)\b/;
+const QUESTION =
+  /^(what|what's|whats|when|do i|am i|is there|are there|show|list|how many)\b/;
+const CALENDAR_WORD =
+  /\b(calendar|agenda|schedule|meetings?|events?|appointments?|free|busy|today|tomorrow|this week|next week)\b/;
+
+/**
+ * Keyword rules, checked all at once; the most confident match wins and
+ * earlier rules win ties
+ */
+export const DEFAULT_INTENT_RULES: IntentRule[] = [
+  {
+    intent: "weather",
+    test: (text) =>
+      /\b(weather|forecast|temperature|raining|snowing|umbrella)\b/.test(text),
+    confidence: 0.9
+  },
+  {
+    intent: "local_time",
+    test: (text) =>
+      /\b(what time is it|local time|time zones?|timezones?|time difference)\b/.test(
+        text
+      ) ||
+      /\bwhat(?:'s| is) \d{1,2}(?::\d{2})?\s*(?:am|pm)?\b.*\bin\b/.test(text),
+    confidence: 0.85
+  },
+  {
+    intent: "manage_calendars",
+    test: (text) =>
+      /\b(which calendars|my calendars|default calendar|list (?:my )?calendars)\b/.test(
+        text
+      ),
+    confidence: 0.9
+  },
+  {
+    intent: "schedule_task",
+    test: (text) =>
+      /\b(remind me|reminders?|scheduled tasks?|my tasks|to-?do|overdue|snooze)\b/.test(
+        text
+      ) || /\bmark\b.+\bas (?:done|complete|finished)\b/.test(text),
+    confidence: 0.85
+  },
+  {
+    // Above modify_event, so "remove the dentist task" keeps the task tools,
+    // and below create_event, so a meeting about a task is still a meeting
+    intent: "schedule_task",
+    test: (text) => /\b(tasks?|to-?dos?)\b/.test(text),
+    confidence: 0.82
+  },
+  {
+    intent: "find_time",
+    test: (text) =>
+      /\b(find (?:a |some )?(?:time|slot|\d+ ?(?:min|minutes|hours?))|when (?:are|is) (?:we|everyone|\w+) (?:all )?free|availability|free slots?|works for (?:everyone|both|all))\b/.test(
+        text
+      ),
+    confidence: 0.85
+  },
+  {
+    intent: "modify_event",
+    test: (text) =>
+      /\b(move|reschedule|push (?:back|out)|postpone|rename|cancel|delete|remove|uninvite)\b/.test(
+        text
+      ),
+    confidence: 0.8
+  },
+  {
+    intent: "create_event",
+    test: (text) => CREATE_VERB.test(text) && EVENT_NOUN.test(text),
+    confidence: 0.85
+  },
+  {
+    intent: "create_event",
+    test: (text) =>
+      /\b(add|put) .*\b(to|on|in) (?:my |the )?\w* ?calendar\b/.test(text),
+    confidence: 0.85
+  },
+  {
+    intent: "query_calendar",
+    test: (text) =>
+      (QUESTION.test(text) || text.endsWith("?")) && CALENDAR_WORD.test(text),
+    confidence: 0.75
+  },
+  {
+    intent: "create_event",
+    test: (text) => CREATE_VERB.test(text),
+    confidence: 0.5
+  }
+];
+
+/**
+ * Classifier backed by keyword rules
+ */
+export function createRuleClassifier(
+  rules: IntentRule[] = DEFAULT_INTENT_RULES
+): IntentClassifier {
+  return {
+    name: "rules",
+    async classify(text) {
+      const normalized = text.trim().toLowerCase();
+      let best: IntentRule | undefined;
+      for (const rule of rules) {
+        if (
+          (!best || rule.confidence > best.confidence) &&
+          rule.test(normalized)
+        ) {
+          best = rule;
+        }
+      }
+      return best
+        ? { intent: best.intent, confidence: best.confidence, source: "rules" }
+        : null;
+    }
+  };
+}
+
+/**
+ * Classifier backed by a (small) language model. `complete` sends a prompt
+ * and returns the model's text; the reply must be JSON naming the intent.
+ */
+export function createModelClassifier(
+  complete: (prompt: string) => Promise<string>,
+  name = "model"
+): IntentClassifier {
+  return {
+    name,
+    async classify(text) {
+      const reply = await complete(
+        `Classify the user's message for a calendar assistant into exactly one intent: ${INTENTS.join(", ")}.
+create_event = add a new event; query_calendar = ask what is on the calendar; modify_event = move, rename or cancel an event; find_time = find when people are free; manage_calendars = which calendar to use; schedule_task = reminders and tasks for the assistant; weather; local_time = time in a place or converting times; general = anything else.
+Reply with JSON only, like {"intent": "create_event", "confidence": 0.8}.
+
+Message: ${JSON.stringify(text)}`
+      );
+      const json = reply.match(/\{[\s\S]*\}/)?.[0];
+      if (!json) return null;
+      try {
+        const parsed = JSON.parse(json) as {
+          intent?: string;
+          confidence?: number;
+        };
+        if (!INTENTS.includes(parsed.intent as Intent)) return null;
+        const confidence = Number(parsed.confidence);
+        return {
+          intent: parsed.intent as Intent,
+          confidence: Number.isFinite(confidence)
+            ? Math.min(Math.max(confidence, 0), 1)
+            : 0.5,
+          source: name
+        };
+      } catch {
+        return null;
+      }
+    }
+  };
+}
+
+export interface RouteOptions {
+  /** A result at least this confident stops the search */
+  minConfidence?: number;
+}
+
+/**
+ * Ask the classifiers in order until one is confident enough. Otherwise
+ * the most confident answer is returned, or general when nobody answered.
+ * A classifier that throws is skipped.
+ */
+export async function routeIntent(
+  text: string,
+  classifiers: IntentClassifier[],
+  { minConfidence = MIN_ROUTE_CONFIDENCE }: RouteOptions = {}
+): Promise<IntentResult> {
+  let best: IntentResult = { intent: "general", confidence: 0, source: "none" };
+  for (const classifier of classifiers) {
+    let result: IntentResult | null;
+    try {
+      result = await classifier.classify(text);
+    } catch (error) {
+      console.error(`Intent classifier ${classifier.name} failed:`, error);
+      continue;
+    }
+    if (!result) continue;
+    if (result.confidence >= minConfidence) return result;
+    if (result.confidence > best.confidence) best = result;
+  }
+  return best;
+}
+
+const ROUTED_TOOLS = new Set(Object.values(INTENT_TOOLS).flat());
+
+/**
+ * Keep the tools an intent may use. General or unconfident routes keep
+ * everything, as do tools no intent knows about.
+ */
+export function narrowTools<T extends Record<string, unknown>>(
+  tools: T,
+  route: IntentResult,
+  minConfidence = MIN_ROUTE_CONFIDENCE
+): Partial<T> {
+  if (route.intent === "general" || route.confidence < minConfidence) {
+    return tools;
+  }
+  const allowed = new Set(INTENT_TOOLS[route.intent]);
+  return Object.fromEntries(
+    Object.entries(tools).filter(
+      ([name]) => allowed.has(name) || !ROUTED_TOOLS.has(name)
+    )
+  ) as Partial<T>;
+}
+
+/**
+ * Whether the turn is confidently an action that needs a tool call
+ */
+export function requiresToolCall(
+  route: IntentResult,
+  minConfidence = MIN_ROUTE_CONFIDENCE
+): boolean {
+  return route.confidence >= minConfidence && ACTION_INTENTS.has(route.intent);
+}
+
+/**
+ * Why the tool calls of a turn do not fit its route, if they do not
+ */
+export function findMisroute(
+  route: IntentResult,
+  toolNames: string[]
+): string | undefined {
+  if (route.intent === "general") return undefined;
+  if (toolNames.length === 0) {
+    return ACTION_INTENTS.has(route.intent)
+      ? `no tool was called for ${route.intent}`
+      : undefined;
+  }
+  const allowed = new Set(INTENT_TOOLS[route.intent]);
+  const outside = toolNames.filter(
+    (name) => ROUTED_TOOLS.has(name) && !allowed.has(name)
+  );
+  return outside.length > 0
+    ? `${outside.join(", ")} called for ${route.intent}`
+    : undefined;
+}
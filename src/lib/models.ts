@@ -0,0 +1,161 @@
+/**
+ * Workers AI models the chat can run on, and the fallback chain
+ *
+ * Each conversation picks a primary model (stored in the agent's state).
+ * When a turn on it errors, times out or ends without the tool call it
+ * needed, the turn is retried on the next model in the chain, unless it
+ * already ran a tool: that tool would run a second time.
+ */
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  /** Whether the model can call tools; only these join fallback chains */
+  toolCalling: boolean;
+}
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: "@cf/meta/llama-3.1-8b-instruct",
+    label: "Llama 3.1 8B",
+    toolCalling: true
+  },
+  {
+    id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+    label: "Llama 3.3 70B",
+    toolCalling: true
+  },
+  {
+    id: "@hf/nousresearch/hermes-2-pro-mistral-7b",
+    label: "Hermes 2 Pro 7B",
+    toolCalling: true
+  },
+  {
+    id: "@cf/deepseek-ai/deepseek-r1-distill-qwen-32b",
+    label: "DeepSeek R1 Distill 32B",
+    toolCalling: false
+  }
+];
+
+export const DEFAULT_MODEL_ID = MODELS[0].id;
+
+export function findModel(id: string): ModelInfo | undefined {
+  return MODELS.find((model) => model.id === id);
+}
+
+/**
+ * The primary model followed by the other tool-calling models, in
+ * registry order
+ */
+export function fallbackChain(primaryId: string = DEFAULT_MODEL_ID): string[] {
+  const primary = findModel(primaryId) ? primaryId : DEFAULT_MODEL_ID;
+  return [
+    primary,
+    ...MODELS.filter((model) => model.toolCalling && model.id !== primary).map(
+      (model) => model.id
+    )
+  ];
+}
+
+export type AttemptOutcome = "ok" | "error" | "timeout" | "rejected";
+
+export interface ModelAttempt {
+  modelId: string;
+  outcome: AttemptOutcome;
+  /** Error message or rejection reason */
+  detail?: string;
+}
+
+/**
+ * A model took longer than the attempt's time limit
+ */
+export class ModelTimeoutError extends Error {
+  constructor(modelId: string, timeoutMs: number) {
+    super(`${modelId} did not finish within ${timeoutMs / 1000}s`);
+    this.name = "ModelTimeoutError";
+  }
+}
+
+export interface FallbackOptions<T> {
+  /** Per-attempt time limit */
+  timeoutMs: number;
+  /** Reason to move on from a finished attempt, e.g. a missing tool call */
+  reject?: (result: T) => string | undefined;
+  /** Release an attempt that will not be used */
+  discard?: (result: T) => void;
+  /** Aborts the current attempt and stops the chain */
+  signal?: AbortSignal;
+  /**
+   * Whether the attempt that just failed may be retried on the next model;
+   * false once it did something that must not happen twice
+   */
+  canRetry?: () => boolean;
+}
+
+export interface FallbackResult<T> {
+  result: T;
+  modelId: string;
+  attempts: ModelAttempt[];
+}
+
+/**
+ * Run `attempt` on each model in turn until one succeeds. The last model's
+ * result is used even when `reject` objects to it, since there is nothing
+ * left to try; if every model fails, the last error is thrown.
+ */
+export async function runWithFallback<T>(
+  chain: string[],
+  attempt: (modelId: string, signal: AbortSignal) => Promise<T>,
+  { timeoutMs, reject, discard, signal, canRetry }: FallbackOptions<T>
+): Promise<FallbackResult<T>> {
+  const attempts: ModelAttempt[] = [];
+  let lastError: unknown;
+
+  for (const [index, modelId] of chain.entries()) {
+    const isLast = index === chain.length - 1;
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", abort);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, fail) => {
+      timer = setTimeout(() => {
+        controller.abort(new Error("timeout"));
+        fail(new ModelTimeoutError(modelId, timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([
+        attempt(modelId, controller.signal),
+        timeout
+      ]);
+      const reason = reject?.(result);
+      if (reason && !isLast) {
+        attempts.push({ modelId, outcome: "rejected", detail: reason });
+        discard?.(result);
+        continue;
+      }
+      attempts.push({
+        modelId,
+        outcome: reason ? "rejected" : "ok",
+        ...(reason && { detail: reason })
+      });
+      return { result, modelId, attempts };
+    } catch (error) {
+      lastError = error;
+      attempts.push({
+        modelId,
+        outcome: error instanceof ModelTimeoutError ? "timeout" : "error",
+        detail: error instanceof Error ? error.message : String(error)
+      });
+      // The user stopped the turn; do not try the next model
+      if (signal?.aborted) break;
+      if (canRetry && !canRetry()) break;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  throw lastError;
+}
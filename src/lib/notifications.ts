@@ -0,0 +1,317 @@
+/**
+ * Reminder delivery beyond the open browser tab
+ *
+ * A notification goes out on every channel the user turned on: Web Push to
+ * each browser they subscribed, email through an EmailProvider, and a JSON
+ * POST to their webhook. Channels are independent, so one failing does not
+ * stop the others, and every attempt is reported for the agent to log.
+ */
+import {
+  MAX_PUSH_PAYLOAD_BYTES,
+  PushSubscriptionGoneError,
+  type PushSubscriptionRecord,
+  sendWebPush,
+  type VapidKeys
+} from "./web-push";
+
+/** How long a delivery may take before it counts as failed */
+export const DELIVERY_TIMEOUT_MS = 10_000;
+/** Longest title sent; it is also the email subject */
+export const MAX_NOTIFICATION_TITLE_LENGTH = 120;
+
+export type NotificationChannelKind = "web_push" | "email" | "webhook";
+
+export interface NotificationMessage {
+  title: string;
+  body: string;
+  /** Page to open when the notification is clicked */
+  url?: string;
+  /** Notifications with the same tag replace each other */
+  tag?: string;
+}
+
+/** The channels a user wants reminders on */
+export interface NotificationPreferences {
+  /** Push to the browsers the user subscribed */
+  webPush?: boolean;
+  /** Address reminders are emailed to */
+  email?: string;
+  /** URL reminders are POSTed to */
+  webhookUrl?: string;
+}
+
+export interface NotificationChannel {
+  kind: NotificationChannelKind;
+  /** Where the channel delivers, for the log, e.g. an email address */
+  target: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export interface DeliveryAttempt {
+  channel: NotificationChannelKind;
+  target: string;
+  status: "delivered" | "failed";
+  /** Why the delivery failed */
+  error?: string;
+  attemptedAt: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Where email is sent through
+ */
+export interface EmailProvider {
+  send(email: EmailMessage): Promise<void>;
+}
+
+/**
+ * Resend's HTTP API; `from` must be an address on a domain verified there
+ */
+export function createResendEmailProvider(
+  apiKey: string,
+  from: string,
+  baseUrl = "https://api.resend.com"
+): EmailProvider {
+  return {
+    async send({ to, subject, text }) {
+      const response = await fetch(new URL("/emails", baseUrl), {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ from, to: [to], subject, text }),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Email provider rejected the message (${response.status}): ${await response.text()}`
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Web Push to one browser; `onGone` runs when the browser has unsubscribed
+ */
+export function webPushChannel(
+  subscription: PushSubscriptionRecord,
+  vapid: VapidKeys,
+  onGone: () => void | Promise<void>
+): NotificationChannel {
+  return {
+    kind: "web_push",
+    target: new URL(subscription.endpoint).origin,
+    async send(message) {
+      try {
+        await sendWebPush(subscription, pushPayload(message), vapid, {
+          ...(message.tag && { topic: message.tag.slice(0, 32) }),
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+        });
+      } catch (error) {
+        if (error instanceof PushSubscriptionGoneError) await onGone();
+        throw timedOut(error, "Push service");
+      }
+    }
+  };
+}
+
+export function emailChannel(
+  provider: EmailProvider,
+  address: string
+): NotificationChannel {
+  return {
+    kind: "email",
+    target: address,
+    async send({ title, body, url }) {
+      await provider.send({
+        to: address,
+        subject: title,
+        text: url ? `${body}\n\n${url}` : body
+      });
+    }
+  };
+}
+
+/**
+ * `text` cut to at most `maxLength` characters, ending in "…" when cut
+ */
+export function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, Math.max(maxLength - 1, 0))}…`
+    : text;
+}
+
+/**
+ * The message as a Web Push payload, its body cut short to fit in the
+ * single record encryptPushPayload sends
+ */
+export function pushPayload(
+  message: NotificationMessage,
+  maxBytes = MAX_PUSH_PAYLOAD_BYTES
+): string {
+  const encoder = new TextEncoder();
+  const withBody = (length: number) =>
+    JSON.stringify({
+      ...message,
+      body: length > 0 ? truncateText(message.body, length) : ""
+    });
+  const fits = (length: number) =>
+    encoder.encode(withBody(length)).length <= maxBytes;
+  if (fits(message.body.length)) return JSON.stringify(message);
+
+  // The longest body that fits; characters take one to three bytes
+  let low = 0;
+  let high = message.body.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) low = middle;
+    else high = middle - 1;
+  }
+  return withBody(low);
+}
+
+/**
+ * A delivery's timeout as a readable error; other errors as they are
+ */
+function timedOut(error: unknown, receiver: string): unknown {
+  return error instanceof DOMException && error.name === "TimeoutError"
+    ? new Error(
+        `${receiver} did not answer within ${DELIVERY_TIMEOUT_MS / 1000}s`
+      )
+    : error;
+}
+
+async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * A JSON POST of the message to `url`. With a secret, the body is signed
+ * in an X-Signature header ("sha256=<hex HMAC>") for the receiver to check.
+ */
+export function webhookChannel(
+  url: string,
+  secret?: string,
+  now: () => Date = () => new Date()
+): NotificationChannel {
+  return {
+    kind: "webhook",
+    target: url,
+    async send(message) {
+      const body = JSON.stringify({
+        type: "reminder",
+        ...message,
+        sentAt: now().toISOString()
+      });
+      const headers = {
+        "Content-Type": "application/json",
+        ...(secret && {
+          "X-Signature": `sha256=${await hmacSha256Hex(secret, body)}`
+        })
+      };
+      // A receiver that never answers must not hold up the task run
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      }).catch((error: unknown) => {
+        throw timedOut(error, "Webhook");
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook answered ${response.status}`);
+      }
+    }
+  };
+}
+
+/**
+ * A channel the user turned on that the deployment cannot serve, e.g.
+ * email without a provider configured; every attempt fails with `reason`
+ */
+export function unavailableChannel(
+  kind: NotificationChannelKind,
+  target: string,
+  reason: string
+): NotificationChannel {
+  return {
+    kind,
+    target,
+    async send() {
+      throw new Error(reason);
+    }
+  };
+}
+
+/**
+ * Sends a message on every channel at once
+ */
+export async function deliverNotification(
+  message: NotificationMessage,
+  channels: NotificationChannel[],
+  now: () => Date = () => new Date()
+): Promise<DeliveryAttempt[]> {
+  const attemptedAt = now().toISOString();
+  const results = await Promise.allSettled(
+    channels.map((channel) => channel.send(message))
+  );
+  return results.map((result, index) => ({
+    channel: channels[index].kind,
+    target: channels[index].target,
+    attemptedAt,
+    ...(result.status === "fulfilled"
+      ? { status: "delivered" as const }
+      : {
+          status: "failed" as const,
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason)
+        })
+  }));
+}
+
+/**
+ * Checks preferences before they are stored; returns the problem, if any
+ */
+export function validateNotificationPreferences(
+  preferences: NotificationPreferences
+): string | undefined {
+  if (
+    preferences.email !== undefined &&
+    !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(preferences.email)
+  ) {
+    return `"${preferences.email}" is not an email address`;
+  }
+  if (preferences.webhookUrl !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(preferences.webhookUrl);
+    } catch {
+      return `"${preferences.webhookUrl}" is not a URL`;
+    }
+    const isLocal = ["localhost", "127.0.0.1"].includes(url.hostname);
+    if (url.protocol !== "https:" && !(isLocal && url.protocol === "http:")) {
+      return "The webhook URL must use https";
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,136 @@
+/**
+ * Versioned system prompt templates
+ *
+ * A template is a list of named sections rendered in order: persona, the
+ * turn's routing guidance, tool guidance generated from the registered
+ * tools' own descriptions, the schedule prompt and the user's preferences.
+ * A template is never edited once it has shipped; changes go into a new
+ * version, and the version is stamped on each assistant message so a
+ * regression can be traced back to the prompt that caused it.
+ */
+import type { GoogleConnectionStatus } from "./google-auth";
+import { formatInTimeZone } from "./timezone";
+
+export interface PromptContext {
+  now: Date;
+  timeZone: string;
+  /** Name of the user's default calendar, if they chose one */
+  defaultCalendarName?: string;
+  googleStatus?: GoogleConnectionStatus;
+  /** The tools offered this turn, described as they are registered */
+  tools: Record<string, { description?: string }>;
+  /** Routing guidance for this turn; empty when the turn was not routed */
+  guidance: string;
+  /** Prompt for the agent's own scheduling, from agents/schedule */
+  schedulePrompt: string;
+}
+
+export interface PromptSection {
+  id: string;
+  /** Empty output leaves the section out */
+  render: (context: PromptContext) => string;
+}
+
+export interface PromptTemplate {
+  version: string;
+  /** What changed in this version */
+  summary: string;
+  sections: PromptSection[];
+}
+
+export interface RenderedPrompt {
+  version: string;
+  text: string;
+}
+
+const persona: PromptSection = {
+  id: "persona",
+  render:
+    () => `You are a calendar and productivity assistant. You act by calling tools: a request to do something is only done once its tool has been called, so never describe an action or claim it happened instead of calling the tool.
+
+Call the tool straight away with what the user gave you, passing times in natural language ("tomorrow at 2pm", "Monday 9am"). Tools marked REQUIRES USER APPROVAL wait for the user to confirm; confirm the outcome only after the tool has run. Use scheduleTask only for reminders and tasks for yourself, never for calendar events.
+
+Examples:
+User: "Block my calendar for a code review tomorrow at 2pm"
+You: call createCalendarEvent with {"title": "Code Review", "startTime": "tomorrow at 2pm"}
+User: "Put standup on my calendar every Tuesday at 10am"
+You: call createCalendarEvent with {"title": "Standup", "startTime": "Tuesday at 10am", "recurrence": "every Tuesday"}
+User: "What's 3pm PT in Berlin?"
+You: call getLocalTime with {"location": "Berlin", "time": "3pm", "fromLocation": "PT"}`
+};
+
+const routing: PromptSection = {
+  id: "routing",
+  render: ({ guidance }) => guidance
+};
+
+const toolGuidance: PromptSection = {
+  id: "tools",
+  render: ({ tools }) => describeTools(tools)
+};
+
+const schedule: PromptSection = {
+  id: "schedule",
+  render: ({ schedulePrompt }) => schedulePrompt.trim()
+};
+
+const preferences: PromptSection = {
+  id: "preferences",
+  render: ({ now, timeZone, defaultCalendarName, googleStatus }) =>
+    [
+      `The user's time zone is ${timeZone} and their local time is ${formatInTimeZone(now, timeZone)}. Interpret every time the user mentions in this time zone, and state times back to them in it.`,
+      `The user's default calendar is ${defaultCalendarName ? `"${defaultCalendarName}"` : "their primary calendar"}. Calendar tools use it unless the user names another calendar.`,
+      googleStatus === "reconnect_required"
+        ? "Google Calendar access has expired. Calendar tools will fail until the user reconnects Google; if they ask for anything calendar-related, tell them to reconnect first."
+        : ""
+    ]
+      .filter(Boolean)
+      .join("\n")
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: "2026-10-19.1",
+    summary:
+      "Split the inline prompt into sections; tool guidance comes from the tool descriptions",
+    sections: [persona, routing, toolGuidance, schedule, preferences]
+  }
+];
+
+export const ACTIVE_PROMPT_VERSION = "2026-10-19.1";
+
+/**
+ * The template for `version`, or the active one when it is missing or
+ * unknown
+ */
+export function getPromptTemplate(version?: string): PromptTemplate {
+  return (
+    PROMPT_TEMPLATES.find((template) => template.version === version) ??
+    (PROMPT_TEMPLATES.find(
+      (template) => template.version === ACTIVE_PROMPT_VERSION
+    ) as PromptTemplate)
+  );
+}
+
+/**
+ * One line per tool, from the description it was registered with
+ */
+export function describeTools(
+  tools: Record<string, { description?: string }>
+): string {
+  const lines = Object.entries(tools).map(([name, tool]) =>
+    tool.description ? `- ${name}: ${tool.description}` : `- ${name}`
+  );
+  return lines.length > 0 ? `Available tools:\n${lines.join("\n")}` : "";
+}
+
+export function renderSystemPrompt(
+  template: PromptTemplate,
+  context: PromptContext
+): RenderedPrompt {
+  const text = template.sections
+    .map((section) => section.render(context))
+    .filter((part) => part.length > 0)
+    .join("\n\n");
+  return { version: template.version, text };
+}
@@ -0,0 +1,505 @@
+/**
+ * Recurrence rules for calendar events, read from natural language and
+ * written out as RFC 5545 RRULE/EXDATE lines for the Google Calendar API
+ *
+ * Understands:
+ * - Daily ("every day", "daily", "every other day", "every 3 days")
+ * - Weekly ("every Tuesday", "every Mon, Wed and Fri", "every weekday",
+ *   "Tuesdays", "weekly", "every 2 weeks on Thursday")
+ * - Monthly by date ("monthly", "every month on the 15th") or by weekday
+ *   ("the first Monday of every month", "monthly on the last Friday")
+ * - Ends ("10 times", "for 6 weeks", "until Dec 19")
+ * - Exceptions ("except Dec 24 and Dec 31", "skipping Nov 27")
+ * - Plain rules ("RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=10")
+ */
+import { parseDateTime } from "./date-parser";
+import {
+  addDays,
+  type CalendarDate,
+  formatInTimeZone,
+  getZonedDateTime,
+  zonedDateTimeToDate
+} from "./timezone";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  /** Repeat every `interval` days, weeks or months */
+  interval: number;
+  /** Weekly: the days it repeats on. Monthly: the weekday of `weekOfMonth`. 0 = Sunday */
+  weekdays?: number[];
+  /** Monthly by weekday: 1-4 for the first to fourth, -1 for the last */
+  weekOfMonth?: number;
+  /** Monthly by date: the day of the month */
+  monthDay?: number;
+  count?: number;
+  /** Latest instant an occurrence may start */
+  until?: Date;
+  /** Start instants of occurrences to skip */
+  exceptions?: Date[];
+}
+
+export interface RecurrenceParseOptions {
+  /** Start of the first occurrence; fixes the time of day and defaults */
+  start: Date;
+  timeZone: string;
+}
+
+export type RecurrenceParseResult =
+  | { status: "ok"; value: Recurrence }
+  | { status: "invalid"; message: string };
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday"
+];
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  "1st": 1,
+  second: 2,
+  "2nd": 2,
+  third: 3,
+  "3rd": 3,
+  fourth: 4,
+  "4th": 4,
+  last: -1
+};
+const COUNT_WORDS: Record<string, number> = {
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12
+};
+
+const WEEKDAY_PATTERN =
+  "(sun|mon|tue|wed|thu|fri|sat)(?:day|sday|nesday|rsday|urday|s|rs)?s?";
+const COUNT_PATTERN = `(\\d+|${Object.keys(COUNT_WORDS).join("|")})`;
+
+function toCount(token: string): number {
+  return COUNT_WORDS[token] ?? Number(token);
+}
+
+function weekdayIndex(token: string): number {
+  return RRULE_DAYS.indexOf(token.slice(0, 2).toUpperCase());
+}
+
+/**
+ * Parse a recurrence description for an event starting at `options.start`
+ */
+export function parseRecurrence(
+  input: string,
+  options: RecurrenceParseOptions
+): RecurrenceParseResult {
+  const original = input.trim();
+  if (/^(rrule:)?freq=/i.test(original)) {
+    return parseRRule(original, options);
+  }
+
+  let rest = ` ${original.toLowerCase().replace(/\s+/g, " ")} `;
+  const take = (pattern: RegExp) => {
+    const match = pattern.exec(rest);
+    if (match) rest = rest.replace(match[0], " ");
+    return match;
+  };
+  const invalid = (reason: string): RecurrenceParseResult => ({
+    status: "invalid",
+    message: `Could not understand the repeat rule "${original}": ${reason}.`
+  });
+
+  const start = getZonedDateTime(options.start, options.timeZone);
+  const rule: Partial<Recurrence> = {};
+
+  const except = take(
+    /\b(?:except(?: on| for)?|excluding|skipping|skip|but not(?: on)?)\s+(.+)$/
+  );
+  if (except) {
+    const exceptions: Date[] = [];
+    for (const part of except[1].split(/\s*(?:,|\band\b|\bor\b)\s*/)) {
+      if (!part.trim()) continue;
+      const parsed = parseDateTime(part, {
+        now: options.start,
+        timeZone: options.timeZone
+      });
+      if (parsed.status !== "ok") {
+        return invalid(`the exception "${part.trim()}" is not a clear date`);
+      }
+      // Skip the occurrence on that day, whatever time was mentioned
+      const day = getZonedDateTime(parsed.value.start, options.timeZone);
+      exceptions.push(
+        zonedDateTimeToDate(
+          { ...day, hour: start.hour, minute: start.minute },
+          options.timeZone
+        )
+      );
+    }
+    rule.exceptions = exceptions;
+  }
+
+  const until = take(
+    /\b(?:until|till|through|thru|ending(?: on)?|up to)\s+(.+)$/
+  );
+  if (until) {
+    const parsed = parseDateTime(until[1], {
+      now: options.start,
+      timeZone: options.timeZone
+    });
+    if (parsed.status !== "ok") {
+      return invalid(`the end date "${until[1].trim()}" is not a clear date`);
+    }
+    // "Until Friday" includes Friday's occurrence
+    rule.until = parsed.value.allDay
+      ? new Date((parsed.value.end ?? parsed.value.start).getTime() - 1000)
+      : parsed.value.start;
+  }
+
+  const count = take(
+    new RegExp(
+      `\\b(?:for )?${COUNT_PATTERN} (?:times|occurrences|sessions|meetings)\\b`
+    )
+  );
+  if (count) rule.count = toCount(count[1]);
+
+  const span = take(
+    new RegExp(`\\bfor (?:the next )?${COUNT_PATTERN} (day|week|month)s?\\b`)
+  );
+  if (span) {
+    const amount = toCount(span[1]);
+    const end =
+      span[2] === "month"
+        ? { ...start, month: start.month + amount }
+        : addDays(start, amount * (span[2] === "week" ? 7 : 1));
+    rule.until = new Date(
+      zonedDateTimeToDate(
+        { ...end, hour: start.hour, minute: start.minute },
+        options.timeZone
+      ).getTime() - 1000
+    );
+  }
+
+  const every = take(
+    new RegExp(
+      `\\bevery (other|${COUNT_PATTERN.slice(1, -1)}) (day|week|month)s?\\b`
+    )
+  );
+  const interval = every
+    ? every[1] === "other"
+      ? 2
+      : toCount(every[1])
+    : undefined;
+  let frequency: RecurrenceFrequency | undefined = every
+    ? (`${every[2] === "day" ? "dai" : every[2]}ly` as RecurrenceFrequency)
+    : undefined;
+
+  const nth = take(
+    new RegExp(
+      `\\b(first|1st|second|2nd|third|3rd|fourth|4th|last) ${WEEKDAY_PATTERN}\\b`
+    )
+  );
+  const monthDay = take(/\b(?:on )?the (\d{1,2})(?:st|nd|rd|th)\b/);
+
+  let weekdays: number[] | undefined;
+  if (take(/\b(?:every |on )?week ?days?\b/)) {
+    weekdays = [1, 2, 3, 4, 5];
+  } else if (take(/\b(?:every |on )?weekends?\b/)) {
+    weekdays = [0, 6];
+  } else {
+    const days = [
+      ...rest.matchAll(new RegExp(`\\b${WEEKDAY_PATTERN}\\b`, "g"))
+    ];
+    if (days.length > 0) {
+      weekdays = [...new Set(days.map((day) => weekdayIndex(day[1])))].sort(
+        (a, b) => a - b
+      );
+      rest = rest.replace(new RegExp(`\\b${WEEKDAY_PATTERN}\\b`, "g"), " ");
+    }
+  }
+
+  if (take(/\b(?:daily|every ?day|each day)\b/)) frequency ??= "daily";
+  if (take(/\b(?:weekly|every week|each week)\b/)) frequency ??= "weekly";
+  if (
+    take(/\b(?:monthly|(?:of )?every month|(?:of )?each month|of the month)\b/)
+  ) {
+    frequency ??= "monthly";
+  }
+
+  if (nth) {
+    if (frequency && frequency !== "monthly") {
+      return invalid(`"${nth[0]}" only makes sense for a monthly rule`);
+    }
+    frequency = "monthly";
+    rule.weekdays = [weekdayIndex(nth[2])];
+    rule.weekOfMonth = ORDINALS[nth[1]];
+  } else if (monthDay) {
+    const day = Number(monthDay[1]);
+    if (day < 1 || day > 31) return invalid(`there is no ${monthDay[0]}`);
+    frequency = "monthly";
+    rule.monthDay = day;
+  } else if (weekdays) {
+    if (frequency === "monthly") {
+      return invalid("say which week of the month, e.g. 'the first Monday'");
+    }
+    frequency = "weekly";
+    rule.weekdays = weekdays;
+  }
+
+  if (!frequency) return invalid("no repeat frequency was found");
+  if (/\d/.test(rest)) {
+    return invalid(`"${rest.replace(/\s+/g, " ").trim()}" was not understood`);
+  }
+
+  // Without details, a rule repeats on the day of the first occurrence
+  if (frequency === "weekly" && !rule.weekdays) rule.weekdays = [start.weekday];
+  if (frequency === "monthly" && !rule.weekdays && !rule.monthDay) {
+    rule.monthDay = start.day;
+  }
+
+  return {
+    status: "ok",
+    value: { ...rule, frequency, interval: interval ?? 1 }
+  };
+}
+
+function parseRRule(
+  input: string,
+  { start, timeZone }: RecurrenceParseOptions
+): RecurrenceParseResult {
+  const invalid = (reason: string): RecurrenceParseResult => ({
+    status: "invalid",
+    message: `Could not use the rule "${input}": ${reason}.`
+  });
+  const fields = new Map(
+    input
+      .replace(/^rrule:/i, "")
+      .split(";")
+      .map((field) => field.split("=") as [string, string])
+      .map(([key, value]) => [key.toUpperCase(), value?.toUpperCase() ?? ""])
+  );
+
+  const frequency = fields.get("FREQ")?.toLowerCase();
+  if (
+    frequency !== "daily" &&
+    frequency !== "weekly" &&
+    frequency !== "monthly"
+  ) {
+    return invalid("only daily, weekly and monthly rules are supported");
+  }
+  const rule: Recurrence = {
+    frequency,
+    interval: Number(fields.get("INTERVAL") ?? 1)
+  };
+
+  const byDay = fields.get("BYDAY");
+  if (byDay) {
+    const days = byDay.split(",").map((day) => /^(-?\d)?([A-Z]{2})$/.exec(day));
+    if (days.some((day) => !day || !RRULE_DAYS.includes(day[2]))) {
+      return invalid(`BYDAY=${byDay} is not valid`);
+    }
+    rule.weekdays = days.map((day) => RRULE_DAYS.indexOf(day![2]));
+    if (days[0]![1]) rule.weekOfMonth = Number(days[0]![1]);
+  }
+  if (fields.has("BYMONTHDAY"))
+    rule.monthDay = Number(fields.get("BYMONTHDAY"));
+  if (fields.has("COUNT")) rule.count = Number(fields.get("COUNT"));
+
+  const until = fields.get("UNTIL");
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+      until
+    );
+    if (!match) return invalid(`UNTIL=${until} is not a date`);
+    const [, year, month, day, hour, minute, second] = match;
+    rule.until =
+      hour === undefined
+        ? new Date(
+            zonedDateTimeToDate(
+              { year: +year, month: +month, day: +day + 1 },
+              timeZone
+            ).getTime() - 1000
+          )
+        : new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  }
+
+  if (rule.frequency === "weekly" && !rule.weekdays) {
+    rule.weekdays = [getZonedDateTime(start, timeZone).weekday];
+  }
+  return { status: "ok", value: rule };
+}
+
+function daysInMonth({ year, month }: CalendarDate): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function matchesDay(
+  rule: Recurrence,
+  date: CalendarDate,
+  weekday: number
+): boolean {
+  if (rule.frequency === "daily") return true;
+  if (rule.frequency === "weekly")
+    return rule.weekdays?.includes(weekday) ?? true;
+  if (rule.monthDay !== undefined) return date.day === rule.monthDay;
+  if (!rule.weekdays?.includes(weekday)) return false;
+  return rule.weekOfMonth === -1
+    ? date.day + 7 > daysInMonth(date)
+    : Math.ceil(date.day / 7) === rule.weekOfMonth;
+}
+
+/**
+ * The first occurrence on or after `start`, at the same time of day.
+ * Google counts the event's own start as an occurrence, so it has to
+ * fall on a day the rule allows.
+ */
+export function firstOccurrence(
+  rule: Recurrence,
+  start: Date,
+  timeZone: string
+): Date {
+  const zoned = getZonedDateTime(start, timeZone);
+  for (let offset = 0; offset < 366; offset++) {
+    const date = addDays(zoned, offset);
+    if (matchesDay(rule, date, (zoned.weekday + offset) % 7)) {
+      return offset === 0
+        ? start
+        : zonedDateTimeToDate(
+            { ...date, hour: zoned.hour, minute: zoned.minute },
+            timeZone
+          );
+    }
+  }
+  return start;
+}
+
+function basicDate({ year, month, day }: CalendarDate): string {
+  return `${year}${String(month).padStart(2, "0")}${String(day).padStart(2, "0")}`;
+}
+
+function basicTime({
+  hour,
+  minute,
+  second
+}: {
+  hour: number;
+  minute: number;
+  second: number;
+}): string {
+  return [hour, minute, second].map((n) => String(n).padStart(2, "0")).join("");
+}
+
+/**
+ * RRULE and EXDATE lines for the `recurrence` field of a Google Calendar event
+ */
+export function toRecurrenceLines(
+  rule: Recurrence,
+  { timeZone, allDay = false }: { timeZone: string; allDay?: boolean }
+): string[] {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.weekdays) {
+    const prefix = rule.weekOfMonth ? String(rule.weekOfMonth) : "";
+    parts.push(
+      `BYDAY=${rule.weekdays.map((day) => prefix + RRULE_DAYS[day]).join(",")}`
+    );
+  }
+  if (rule.monthDay !== undefined) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    parts.push(
+      `UNTIL=${
+        allDay
+          ? basicDate(getZonedDateTime(rule.until, timeZone))
+          : `${basicDate(getZonedDateTime(rule.until, "UTC"))}T${basicTime(getZonedDateTime(rule.until, "UTC"))}Z`
+      }`
+    );
+  }
+
+  const lines = [`RRULE:${parts.join(";")}`];
+  if (rule.exceptions?.length) {
+    const dates = rule.exceptions.map((date) => {
+      const zoned = getZonedDateTime(date, timeZone);
+      return allDay
+        ? basicDate(zoned)
+        : `${basicDate(zoned)}T${basicTime(zoned)}`;
+    });
+    lines.push(
+      allDay
+        ? `EXDATE;VALUE=DATE:${dates.join(",")}`
+        : `EXDATE;TZID=${timeZone}:${dates.join(",")}`
+    );
+  }
+  return lines;
+}
+
+function ordinal(n: number): string {
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : (["th", "st", "nd", "rd"][n % 10] ?? "th");
+  return `${n}${suffix}`;
+}
+
+function listOf(items: string[]): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+    : items[0];
+}
+
+function every(interval: number, unit: string): string {
+  if (interval === 1) return `Every ${unit}`;
+  if (interval === 2) return `Every other ${unit}`;
+  return `Every ${interval} ${unit}s`;
+}
+
+/**
+ * Human-readable rule, e.g. "Every Tuesday, 10 times, except Tue, Oct 28"
+ */
+export function describeRecurrence(rule: Recurrence, timeZone: string): string {
+  const days = rule.weekdays ?? [];
+  let text: string;
+  if (rule.frequency === "daily") {
+    text = every(rule.interval, "day");
+  } else if (rule.frequency === "weekly") {
+    const weekdays =
+      days.length === 5 && days.every((day) => day >= 1 && day <= 5);
+    const names = weekdays
+      ? "weekday"
+      : listOf(days.map((day) => WEEKDAY_NAMES[day]));
+    text =
+      rule.interval === 1
+        ? `Every ${names}`
+        : `${every(rule.interval, "week")} on ${weekdays ? "weekdays" : names}`;
+  } else {
+    const on =
+      rule.monthDay !== undefined
+        ? `the ${ordinal(rule.monthDay)}`
+        : `the ${rule.weekOfMonth === -1 ? "last" : ["first", "second", "third", "fourth"][(rule.weekOfMonth ?? 1) - 1]} ${WEEKDAY_NAMES[days[0]]}`;
+    text = `${every(rule.interval, "month")} on ${on}`;
+  }
+
+  const day: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    month: "short",
+    day: "numeric"
+  };
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  if (rule.until) {
+    text += `, until ${formatInTimeZone(rule.until, timeZone, { ...day, year: "numeric" })}`;
+  }
+  if (rule.exceptions?.length) {
+    text += `, except ${listOf(rule.exceptions.map((date) => formatInTimeZone(date, timeZone, day)))}`;
+  }
+  return text;
+}
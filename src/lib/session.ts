@@ -0,0 +1,87 @@
+/**
+ * Browser sessions
+ *
+ * Each browser gets a random session ID in an HttpOnly cookie and its own
+ * Chat agent, named after a hash of the ID. The Worker routes a request
+ * only to the agent its session names, so a conversation, its Google
+ * account and its notification settings belong to one browser. The agent
+ * name is not a secret; the session ID is.
+ */
+import { randomToken, sha256 } from "./crypto";
+
+export const SESSION_COOKIE = "session";
+/** State of the Google sign-in this browser started, checked by the callback */
+export const GOOGLE_OAUTH_STATE_COOKIE = "google_oauth_state";
+
+const SESSION_MAX_AGE_S = 365 * 24 * 60 * 60;
+// Session IDs are randomToken()s: 32 bytes as 43 base64url characters
+const SESSION_ID_PATTERN = /^[\w-]{43}$/;
+
+export interface CookieOptions {
+  path?: string;
+  maxAge: number;
+  /** Sent over https only; off for http://localhost */
+  secure: boolean;
+}
+
+/**
+ * The value of a cookie the request carries
+ */
+export function readCookie(request: Request, name: string): string | undefined {
+  for (const pair of (request.headers.get("Cookie") ?? "").split(";")) {
+    const index = pair.indexOf("=");
+    if (index !== -1 && pair.slice(0, index).trim() === name) {
+      return decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A Set-Cookie value for an HttpOnly, SameSite=Lax cookie; a max age of 0
+ * removes it
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  { path = "/", maxAge, secure }: CookieOptions
+): string {
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${path}`,
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(secure ? ["Secure"] : [])
+  ].join("; ");
+}
+
+/**
+ * The session ID the request's cookie holds, if it is a well-formed one
+ */
+export function sessionIdOf(request: Request): string | undefined {
+  const id = readCookie(request, SESSION_COOKIE);
+  return id && SESSION_ID_PATTERN.test(id) ? id : undefined;
+}
+
+export function createSessionId(): string {
+  return randomToken();
+}
+
+export function sessionCookie(sessionId: string, secure: boolean): string {
+  return serializeCookie(SESSION_COOKIE, sessionId, {
+    maxAge: SESSION_MAX_AGE_S,
+    secure
+  });
+}
+
+/**
+ * Name of the Chat agent that belongs to a session
+ */
+export async function agentNameForSession(sessionId: string): Promise<string> {
+  const hash = [...(await sha256(sessionId))]
+    .slice(0, 16)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `user-${hash}`;
+}
@@ -0,0 +1,417 @@
+/**
+ * Structured tasks kept in the Chat agent's SQLite
+ *
+ * A task is a to-do item with a status, priority, tags and an optional due
+ * date, optionally linked to a schedule that reminds the user of it. This
+ * module holds the record types and the query, sort and lookup logic; the
+ * agent owns the table.
+ */
+import { z } from "zod/v3";
+import {
+  describeParsedDateTime,
+  parseDateTime,
+  parseDuration
+} from "./date-parser";
+
+export type TaskStatus = "todo" | "doing" | "done" | "cancelled";
+
+export const TASK_STATUSES: TaskStatus[] = [
+  "todo",
+  "doing",
+  "done",
+  "cancelled"
+];
+
+export type TaskPriority = "low" | "medium" | "high";
+
+export const TASK_PRIORITIES: TaskPriority[] = ["low", "medium", "high"];
+
+export interface Task {
+  id: string;
+  title: string;
+  notes?: string;
+  /** ISO timestamp */
+  due?: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  tags: string[];
+  /** Schedule that reminds the user of the task */
+  scheduleId?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** When the task was done or cancelled */
+  closedAt?: string;
+}
+
+export interface NewTask {
+  title: string;
+  notes?: string;
+  due?: string;
+  priority?: TaskPriority;
+  tags?: string[];
+  scheduleId?: string;
+}
+
+/** Fields to change; null clears an optional field */
+export interface TaskChanges {
+  title?: string;
+  notes?: string | null;
+  due?: string | null;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+  tags?: string[];
+  scheduleId?: string | null;
+}
+
+/**
+ * Task fields as the task tools and the agent's callables accept them
+ */
+export const taskFieldSchemas = {
+  title: z.string().trim().min(1, "A task needs a title"),
+  notes: z.string(),
+  priority: z.enum(["low", "medium", "high"]),
+  status: z.enum(["todo", "doing", "done", "cancelled"]),
+  tags: z.array(z.string())
+};
+
+const timestampSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Not a valid date");
+
+const newTaskSchema = z
+  .object({
+    title: taskFieldSchemas.title,
+    notes: taskFieldSchemas.notes.optional(),
+    due: timestampSchema.optional(),
+    priority: taskFieldSchemas.priority.optional(),
+    tags: taskFieldSchemas.tags.optional(),
+    scheduleId: z.string().optional()
+  })
+  .strict();
+
+const taskChangesSchema = z
+  .object({
+    title: taskFieldSchemas.title.optional(),
+    notes: taskFieldSchemas.notes.nullable().optional(),
+    due: timestampSchema.nullable().optional(),
+    priority: taskFieldSchemas.priority.optional(),
+    status: taskFieldSchemas.status.optional(),
+    tags: taskFieldSchemas.tags.optional(),
+    scheduleId: z.string().nullable().optional()
+  })
+  .strict();
+
+/**
+ * A new task as a client sent it, checked; throws a readable error
+ */
+export function parseNewTask(input: unknown): NewTask {
+  return parseTaskInput(newTaskSchema, input);
+}
+
+/**
+ * Task changes as a client sent them, checked; throws a readable error
+ */
+export function parseTaskChanges(input: unknown): TaskChanges {
+  return parseTaskInput(taskChangesSchema, input);
+}
+
+function parseTaskInput<T>(schema: z.ZodType<T>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return parsed.data;
+  const problems = parsed.error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message
+  );
+  throw new Error(`Invalid task: ${problems.join("; ")}`);
+}
+
+export interface TaskRow {
+  id: string;
+  title: string;
+  notes: string | null;
+  due: string | null;
+  priority: string;
+  status: string;
+  tags: string;
+  schedule_id: string | null;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+export function taskFromRow(row: TaskRow): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    ...(row.notes && { notes: row.notes }),
+    ...(row.due && { due: row.due }),
+    priority: row.priority as TaskPriority,
+    status: row.status as TaskStatus,
+    tags: JSON.parse(row.tags) as string[],
+    ...(row.schedule_id && { scheduleId: row.schedule_id }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.closed_at && { closedAt: row.closed_at })
+  };
+}
+
+/**
+ * Lowercase, without "#", blanks or duplicates
+ */
+export function normalizeTags(tags: string[] = []): string[] {
+  return [
+    ...new Set(
+      tags
+        .map((tag) => tag.trim().replace(/^#/, "").toLowerCase())
+        .filter(Boolean)
+    )
+  ];
+}
+
+export function isOpen(task: Task): boolean {
+  return task.status === "todo" || task.status === "doing";
+}
+
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+  return isOpen(task) && task.due !== undefined && new Date(task.due) < now;
+}
+
+/**
+ * Applies changes to a task, moving its closedAt with its status
+ */
+export function applyTaskChanges(
+  task: Task,
+  changes: TaskChanges,
+  now: Date = new Date()
+): Task {
+  const updated: Task = { ...task, updatedAt: now.toISOString() };
+  if (changes.title !== undefined) updated.title = changes.title;
+  if (changes.priority !== undefined) updated.priority = changes.priority;
+  if (changes.tags !== undefined) updated.tags = normalizeTags(changes.tags);
+  for (const field of ["notes", "due", "scheduleId"] as const) {
+    const value = changes[field];
+    if (value === null) delete updated[field];
+    else if (value !== undefined) updated[field] = value;
+  }
+  if (changes.status !== undefined && changes.status !== task.status) {
+    updated.status = changes.status;
+    if (isOpen(updated)) delete updated.closedAt;
+    else updated.closedAt = now.toISOString();
+  }
+  return updated;
+}
+
+export interface TaskQuery {
+  /** Defaults to the open statuses, todo and doing */
+  status?: TaskStatus[];
+  tag?: string;
+  priority?: TaskPriority;
+  overdue?: boolean;
+  /** ISO timestamps bounding the due date */
+  dueBefore?: string;
+  dueAfter?: string;
+  /** Matched against title and notes */
+  text?: string;
+}
+
+export function filterTasks(
+  tasks: Task[],
+  query: TaskQuery = {},
+  now: Date = new Date()
+): Task[] {
+  const statuses = new Set(query.status ?? ["todo", "doing"]);
+  const tag = query.tag && normalizeTags([query.tag])[0];
+  const text = query.text?.trim().toLowerCase();
+  return tasks.filter(
+    (task) =>
+      statuses.has(task.status) &&
+      (!tag || task.tags.includes(tag)) &&
+      (!query.priority || task.priority === query.priority) &&
+      (query.overdue === undefined || isOverdue(task, now) === query.overdue) &&
+      (!query.dueBefore ||
+        (task.due !== undefined && task.due < query.dueBefore)) &&
+      (!query.dueAfter ||
+        (task.due !== undefined && task.due >= query.dueAfter)) &&
+      (!text ||
+        task.title.toLowerCase().includes(text) ||
+        (task.notes?.toLowerCase().includes(text) ?? false))
+  );
+}
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2
+};
+
+// Earlier due dates first, undated tasks last
+function compareDue(a: Task, b: Task): number {
+  if (a.due === b.due) return 0;
+  if (a.due === undefined) return 1;
+  if (b.due === undefined) return -1;
+  return a.due < b.due ? -1 : 1;
+}
+
+/**
+ * Overdue first, then by due date (undated last), then by priority
+ */
+export function sortTasks(tasks: Task[], now: Date = new Date()): Task[] {
+  return [...tasks].sort(
+    (a, b) =>
+      Number(isOverdue(b, now)) - Number(isOverdue(a, now)) ||
+      compareDue(a, b) ||
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * The task a reference names: its ID, or a title the user mentioned, e.g.
+ * "the report". Open tasks win over closed ones.
+ */
+export function findTask(
+  tasks: Task[],
+  reference: string
+): { ok: true; task: Task } | { ok: false; message: string } {
+  const byId = tasks.find((task) => task.id === reference);
+  if (byId) return { ok: true, task: byId };
+
+  const wanted = reference
+    .trim()
+    .toLowerCase()
+    .replace(/^(the|my)\s+/, "");
+  const exact = tasks.filter((task) => task.title.toLowerCase() === wanted);
+  const partial = tasks.filter((task) =>
+    task.title.toLowerCase().includes(wanted)
+  );
+  for (const candidates of [exact, partial]) {
+    const open = candidates.filter(isOpen);
+    const pool = open.length > 0 ? open : candidates;
+    if (pool.length === 1) return { ok: true, task: pool[0] };
+    if (pool.length > 1) {
+      return {
+        ok: false,
+        message: `"${reference}" matches several tasks: ${pool
+          .map((task) => `"${task.title}" (${task.id})`)
+          .join(", ")}. Ask the user which one they mean.`
+      };
+    }
+  }
+  return { ok: false, message: `No task matches "${reference}".` };
+}
+
+/** A scheduled task that has yet to run, as the task panel shows it */
+export interface ScheduledItem {
+  id: string;
+  description: string;
+  /** ISO timestamp of the next run */
+  nextRun: string;
+  /** For recurring schedules */
+  cron?: string;
+  /** The task the schedule reminds the user of */
+  taskId?: string;
+}
+
+/** The fields of an agents SDK schedule the panel needs */
+export interface ScheduleLike {
+  id: string;
+  callback: string;
+  payload: unknown;
+  type: string;
+  /** Epoch seconds */
+  time: number;
+  cron?: string;
+}
+
+/**
+ * Pending runs of scheduled tasks, soonest first. One-off schedules that
+ * have fired are left out; their rows go once the run finishes.
+ */
+export function upcomingSchedules(
+  schedules: ScheduleLike[],
+  tasks: Task[],
+  now: Date = new Date()
+): ScheduledItem[] {
+  return schedules
+    .filter(
+      (schedule) =>
+        schedule.callback === "executeTask" &&
+        (schedule.type === "cron" || schedule.time * 1000 > now.getTime())
+    )
+    .sort((a, b) => a.time - b.time)
+    .map((schedule) => {
+      const task = tasks.find(
+        (candidate) => candidate.scheduleId === schedule.id
+      );
+      return {
+        id: schedule.id,
+        description: String(schedule.payload),
+        nextRun: new Date(schedule.time * 1000).toISOString(),
+        ...(schedule.type === "cron" &&
+          schedule.cron && { cron: schedule.cron }),
+        ...(task && { taskId: task.id })
+      };
+    });
+}
+
+/**
+ * A time pushed back by `ms`, counted from now when it has already passed
+ */
+export function snoozedUntil(
+  time: string | undefined,
+  ms: number,
+  now: Date = new Date()
+): string {
+  const from = Math.max(now.getTime(), time ? new Date(time).getTime() : 0);
+  return new Date(from + ms).toISOString();
+}
+
+export type ScheduleMove =
+  | { ok: true; time: Date }
+  | { ok: false; message: string };
+
+interface MoveOptions {
+  now: Date;
+  timeZone: string;
+}
+
+/**
+ * The time a scheduled run is moved to, e.g. "tomorrow morning" or "to
+ * Friday at 3pm", read in the user's time zone
+ */
+export function rescheduleTarget(
+  when: string,
+  { now, timeZone }: MoveOptions
+): ScheduleMove {
+  const parsed = parseDateTime(
+    when.trim().replace(/^(?:to|until|till)\s+/i, ""),
+    { now, timeZone }
+  );
+  if (parsed.status !== "ok") return { ok: false, message: parsed.message };
+  if (parsed.value.start <= now) {
+    return {
+      ok: false,
+      message: `${describeParsedDateTime(parsed.value, timeZone)} has already passed.`
+    };
+  }
+  return { ok: true, time: parsed.value.start };
+}
+
+/**
+ * The time a snooze moves a run to: pushed back by a length of time ("2
+ * hours", counted from now once the run is due), or to a time like
+ * "tomorrow morning"
+ */
+export function snoozeTarget(
+  by: string,
+  nextRun: string,
+  options: MoveOptions
+): ScheduleMove {
+  const minutes = parseDuration(by);
+  if (minutes === null) return rescheduleTarget(by, options);
+  return {
+    ok: true,
+    time: new Date(snoozedUntil(nextRun, minutes * 60 * 1000, options.now))
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Time zone helpers built on Intl, so they behave the same in the browser,
+ * in Node and on Workers (where the process zone is always UTC).
+ */
+
+export interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+export interface ZonedDateTime extends CalendarDate {
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short"
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check whether a string is an IANA time zone name the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant as seen in the given time zone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const fields: Record<string, string> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    fields[part.type] = part.value;
+  }
+  return {
+    year: Number(fields.year),
+    month: Number(fields.month),
+    day: Number(fields.day),
+    hour: Number(fields.hour),
+    minute: Number(fields.minute),
+    second: Number(fields.second),
+    weekday: WEEKDAYS.indexOf(fields.weekday)
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes
+ * (positive east of Greenwich, e.g. +120 for Europe/Berlin in summer)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const zoned = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  );
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in the given time zone to an instant.
+ * Out-of-range fields roll over like Date.UTC (day 32 is the 1st of the
+ * next month), which makes this handy for calendar arithmetic.
+ */
+export function zonedDateTimeToDate(
+  fields: CalendarDate & { hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour ?? 0,
+    fields.minute ?? 0,
+    fields.second ?? 0
+  );
+  const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const guess = asUtc - offset * 60000;
+  // Re-check at the guessed instant in case a DST transition sits in between
+  const correctedOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  return new Date(
+    correctedOffset === offset ? guess : asUtc - correctedOffset * 60000
+  );
+}
+
+/**
+ * Add whole days to a calendar date, normalizing month and year overflow
+ */
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const normalized = new Date(
+    Date.UTC(date.year, date.month - 1, date.day + days)
+  );
+  return {
+    year: normalized.getUTCFullYear(),
+    month: normalized.getUTCMonth() + 1,
+    day: normalized.getUTCDate()
+  };
+}
+
+/**
+ * Format a calendar date as YYYY-MM-DD
+ */
+export function formatCalendarDate(date: CalendarDate): string {
+  return [
+    String(date.year).padStart(4, "0"),
+    String(date.month).padStart(2, "0"),
+    String(date.day).padStart(2, "0")
+  ].join("-");
+}
+
+/**
+ * Offset in minutes east of UTC as text, e.g. "UTC+05:30" or "UTC-08:00"
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const minutes = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(minutes / 60)).padStart(2, "0");
+  return `UTC${sign}${hours}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Whether daylight saving time is in effect at an instant. The standard
+ * offset is the smaller of the January and July offsets, which also holds
+ * for the southern hemisphere.
+ */
+export function isDaylightSavingTime(date: Date, timeZone: string): boolean {
+  const year = getZonedDateTime(date, timeZone).year;
+  const standard = Math.min(
+    getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone),
+    getTimeZoneOffset(new Date(Date.UTC(year, 6, 1)), timeZone)
+  );
+  return getTimeZoneOffset(date, timeZone) > standard;
+}
+
+/**
+ * Human-readable rendering of an instant in the given time zone,
+ * e.g. "Mon, Nov 3, 2025, 2:00 PM"
+ */
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit"
+  }
+): string {
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(
+    date
+  );
+}
+
+// Values of a numeric cron field (numbers, ranges, lists and steps),
+// sorted; null for anything else, e.g. day names
+function expandCronField(
+  field: string,
+  min: number,
+  max: number
+): number[] | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+    const [, all, from, to, step] = match;
+    const start = all ? min : Number(from);
+    const end = all || (step && !to) ? max : Number(to ?? from);
+    const increment = step ? Number(step) : 1;
+    if (start < min || end > max || start > end || increment < 1) return null;
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+// Sorted values as a cron field, with runs of three or more as ranges
+function compactCronField(values: number[]): string {
+  const parts: string[] = [];
+  let runStart = 0;
+  for (let index = 1; index <= values.length; index++) {
+    if (index < values.length && values[index] === values[index - 1] + 1) {
+      continue;
+    }
+    const run = values.slice(runStart, index);
+    parts.push(
+      run.length >= 3 ? `${run[0]}-${run[run.length - 1]}` : run.join(",")
+    );
+    runStart = index;
+  }
+  return parts.join(",");
+}
+
+const modulo = (value: number, divisor: number) =>
+  ((value % divisor) + divisor) % divisor;
+
+/**
+ * Rewrite a cron expression written in local wall-clock time so it fires at
+ * the same moments when evaluated in UTC. Hour and weekday ranges, lists
+ * and steps are expanded and shifted; when the shift crosses midnight,
+ * weekdays move with it. Returns null for an expression that cannot be
+ * shifted: minutes other than a single number under a fractional-hour
+ * offset, hours that land on different UTC days for a schedule limited to
+ * some days, or a day of month or month that would have to move a day.
+ * The offset is taken as given, so later DST transitions are not followed.
+ */
+export function shiftCronToUtc(
+  cron: string,
+  offsetMinutes: number
+): string | null {
+  const fields = cron.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  if (offsetMinutes === 0) return cron;
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const hours = expandCronField(hour, 0, 23);
+  if (!hours) return null;
+  // A whole-hour offset leaves the minute field as it is
+  const wholeHours = offsetMinutes % 60 === 0;
+  if (!wholeHours && !/^\d+$/.test(minute)) return null;
+  const localMinute = wholeHours ? 0 : Number(minute);
+
+  const shifted = hours.map((h) => h * 60 + localMinute - offsetMinutes);
+  const dayShifts = new Set(shifted.map((m) => Math.floor(m / 1440)));
+  const everyDay = dayOfMonth === "*" && month === "*" && dayOfWeek === "*";
+
+  let utcDayOfWeek = dayOfWeek;
+  if (!everyDay && [...dayShifts].some((shift) => shift !== 0)) {
+    if (dayShifts.size > 1 || dayOfMonth !== "*" || month !== "*") {
+      return null;
+    }
+    const [dayShift] = dayShifts;
+    // 7 is Sunday as well as 0
+    const days = expandCronField(dayOfWeek, 0, 7);
+    if (!days) return null;
+    utcDayOfWeek = compactCronField(
+      [...new Set(days.map((d) => modulo(d + dayShift, 7)))].sort(
+        (a, b) => a - b
+      )
+    );
+  }
+
+  const utcHours = [
+    ...new Set(shifted.map((m) => modulo(Math.floor(m / 60), 24)))
+  ].sort((a, b) => a - b);
+  const utcMinute = wholeHours ? minute : String(modulo(shifted[0], 60));
+  return [
+    utcMinute,
+    compactCronField(utcHours),
+    dayOfMonth,
+    month,
+    utcDayOfWeek
+  ].join(" ");
+}
+
+/**
+ * Read the value of a datetime-local input (YYYY-MM-DDTHH:mm) as a wall
+ * clock time in the given time zone; null when it is not one
+ */
+export function parseDateTimeLocal(
+  value: string,
+  timeZone: string
+): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedDateTimeToDate({ year, month, day, hour, minute }, timeZone);
+}
+
+/**
+ * Format an instant as a datetime-local input value in the given time zone
+ */
+export function formatDateTimeLocal(date: Date, timeZone: string): string {
+  const zoned = getZonedDateTime(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${formatCalendarDate(zoned)}T${pad(zoned.hour)}:${pad(zoned.minute)}`;
+}
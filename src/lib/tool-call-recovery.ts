@@ -0,0 +1,96 @@
+/**
+ * Recovery when the model describes an action instead of calling its tool
+ *
+ * Small models often answer "I've scheduled that for you" without calling
+ * anything. When a turn needs a tool call and gets none, it is retried on
+ * the same model: first with a corrective instruction added to the prompt,
+ * then with the tool call forced through toolChoice. Every try is reported
+ * so the correction rate can be measured.
+ */
+import { isToolUIPart, type UIMessage } from "ai";
+import { INTENT_PRIMARY_TOOL, type Intent } from "./intent-router";
+
+export type RecoveryStrategy =
+  | { kind: "initial" }
+  | { kind: "corrective_prompt"; instruction: string }
+  | { kind: "forced_tool_choice"; toolName?: string };
+
+export interface RecoveryTry {
+  strategy: RecoveryStrategy["kind"];
+  calledTool: boolean;
+}
+
+/**
+ * Added to the system prompt after a turn that described its action
+ */
+export function correctiveInstruction(intent: Intent): string {
+  const tool = INTENT_PRIMARY_TOOL[intent];
+  return `Your previous reply described the action in words instead of calling a tool, so nothing happened. Do not describe it or ask for confirmation in text. ${tool ? `Call ${tool} now.` : "Call the right tool now."}`;
+}
+
+/**
+ * The initial try followed by up to `maxRetries` corrections: one
+ * corrective prompt, then forced tool calls
+ */
+export function recoveryStrategies(
+  intent: Intent,
+  maxRetries: number
+): RecoveryStrategy[] {
+  const strategies: RecoveryStrategy[] = [{ kind: "initial" }];
+  for (let retry = 0; retry < maxRetries; retry++) {
+    strategies.push(
+      retry === 0
+        ? {
+            kind: "corrective_prompt",
+            instruction: correctiveInstruction(intent)
+          }
+        : { kind: "forced_tool_choice", toolName: INTENT_PRIMARY_TOOL[intent] }
+    );
+  }
+  return strategies;
+}
+
+export interface RecoveryOptions<T> {
+  hasToolCall: (result: T) => boolean;
+  /** Release a try that will not be used */
+  discard?: (result: T) => void;
+}
+
+/**
+ * Run the strategies in order until one produces a tool call. When none
+ * does, the last try is returned. Errors are not retried here.
+ */
+export async function recoverMissingToolCall<T>(
+  strategies: RecoveryStrategy[],
+  run: (strategy: RecoveryStrategy) => Promise<T>,
+  { hasToolCall, discard }: RecoveryOptions<T>
+): Promise<{ result: T; tries: RecoveryTry[] }> {
+  const tries: RecoveryTry[] = [];
+  let result: T | undefined;
+  for (const [index, strategy] of strategies.entries()) {
+    if (result !== undefined) discard?.(result);
+    result = await run(strategy);
+    const calledTool = hasToolCall(result);
+    tries.push({ strategy: strategy.kind, calledTool });
+    if (calledTool || index === strategies.length - 1) break;
+  }
+  return { result: result as T, tries };
+}
+
+/**
+ * Whether the turn continues after a tool call the user answered: the last
+ * message is the assistant's, with the tool's result in it. The user's
+ * last message still reads as the action, but the action is done, so the
+ * turn needs no tool call and has nothing to recover or misroute.
+ */
+export function isToolContinuation(messages: UIMessage[]): boolean {
+  const last = messages[messages.length - 1];
+  return (
+    last?.role === "assistant" &&
+    last.parts.some(
+      (part) =>
+        isToolUIPart(part) &&
+        (part.state === "output-available" || part.state === "output-error")
+    )
+  );
+}
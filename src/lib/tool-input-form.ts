@@ -0,0 +1,144 @@
+/**
+ * Editable form fields for a tool call's input
+ *
+ * The server turns a tool's zod inputSchema into JSON Schema; this maps its
+ * properties to form fields for the approval card, and diffs the edited
+ * input against the model's so the edits can be reported back to it.
+ */
+import type { FieldChange } from "../shared";
+
+/** The parts of a JSON Schema property the form understands */
+export interface InputPropertySchema {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  items?: InputPropertySchema;
+}
+
+export interface ToolInputSchema {
+  properties?: Record<string, InputPropertySchema>;
+  required?: string[];
+}
+
+export type FormFieldKind =
+  | "text"
+  | "textarea"
+  | "datetime"
+  | "chips"
+  | "choice"
+  | "number"
+  | "boolean";
+
+export interface FormField {
+  name: string;
+  label: string;
+  kind: FormFieldKind;
+  required: boolean;
+  description?: string;
+  /** For choice fields */
+  options?: string[];
+}
+
+function typeOf(schema: InputPropertySchema): string | undefined {
+  return Array.isArray(schema.type)
+    ? schema.type.find((type) => type !== "null")
+    : schema.type;
+}
+
+function labelOf(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function kindOf(
+  name: string,
+  schema: InputPropertySchema
+): FormFieldKind | undefined {
+  const type = typeOf(schema);
+  if (schema.enum) return "choice";
+  if (type === "boolean") return "boolean";
+  if (type === "number" || type === "integer") return "number";
+  if (type === "array") {
+    return schema.items && typeOf(schema.items) === "string"
+      ? "chips"
+      : undefined;
+  }
+  if (type !== "string") return undefined;
+  if (
+    schema.format === "date-time" ||
+    schema.format === "date" ||
+    /(time|date|due)$/i.test(name)
+  ) {
+    return "datetime";
+  }
+  return /^(description|notes?)$/i.test(name) ? "textarea" : "text";
+}
+
+/**
+ * One field per property the form can edit; nested objects and other
+ * arrays are left out and keep the model's value
+ */
+export function formFieldsFromSchema(schema: ToolInputSchema): FormField[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).flatMap(([name, property]) => {
+    const kind = kindOf(name, property);
+    if (!kind) return [];
+    return [
+      {
+        name,
+        label: labelOf(name),
+        kind,
+        required: required.has(name),
+        ...(property.description && { description: property.description }),
+        ...(property.enum && { options: property.enum.map(String) })
+      }
+    ];
+  });
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function display(value: unknown): string | undefined {
+  if (isBlank(value)) return undefined;
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+/**
+ * The fields the user changed, with before and after values
+ */
+export function diffToolInput(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...names].flatMap((name) => {
+    const from = isBlank(before[name]) ? undefined : before[name];
+    const to = isBlank(after[name]) ? undefined : after[name];
+    if (JSON.stringify(from) === JSON.stringify(to)) return [];
+    return [{ field: name, before: display(from), after: display(to) }];
+  });
+}
+
+/**
+ * The input to approve with: the edited fields, with null for the ones the
+ * user cleared
+ */
+export function editedInput(
+  after: Record<string, unknown>,
+  edits: FieldChange[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    edits.map(({ field }) => [
+      field,
+      isBlank(after[field]) ? null : after[field]
+    ])
+  );
+}
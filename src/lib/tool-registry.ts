@@ -0,0 +1,71 @@
+/**
+ * Risk level and approval policy of every tool
+ *
+ * This is the one place that decides which tool calls wait for the user.
+ * The server runs approved calls through processToolCalls and the client
+ * shows approval cards from the same answer. Built-in tools are listed
+ * here; tools added at runtime (MCP servers) run automatically unless a
+ * policy for them is stored in the agent's state.
+ */
+
+export type ToolRisk = "read" | "write" | "destructive";
+
+export type ApprovalPolicy = "auto" | "require_approval";
+
+export interface ToolPolicy {
+  risk: ToolRisk;
+  approval: ApprovalPolicy;
+}
+
+export const BUILTIN_TOOL_POLICIES: Record<string, ToolPolicy> = {
+  getWeatherInformation: { risk: "read", approval: "auto" },
+  getLocalTime: { risk: "read", approval: "auto" },
+  scheduleTask: { risk: "write", approval: "auto" },
+  getScheduledTasks: { risk: "read", approval: "auto" },
+  cancelScheduledTask: { risk: "write", approval: "auto" },
+  rescheduleTask: { risk: "write", approval: "auto" },
+  snoozeTask: { risk: "write", approval: "auto" },
+  createTask: { risk: "write", approval: "auto" },
+  updateTask: { risk: "write", approval: "auto" },
+  completeTask: { risk: "write", approval: "auto" },
+  queryTasks: { risk: "read", approval: "auto" },
+  createCalendarEvent: { risk: "write", approval: "require_approval" },
+  listCalendarEvents: { risk: "read", approval: "auto" },
+  searchCalendarEvents: { risk: "read", approval: "auto" },
+  getCalendarEvent: { risk: "read", approval: "auto" },
+  listCalendars: { risk: "read", approval: "auto" },
+  setDefaultCalendar: { risk: "write", approval: "auto" },
+  findAvailableSlots: { risk: "read", approval: "auto" },
+  updateCalendarEvent: { risk: "write", approval: "require_approval" },
+  deleteCalendarEvent: { risk: "destructive", approval: "require_approval" }
+};
+
+/** Policy of a tool nobody has registered, e.g. a new MCP tool */
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  risk: "write",
+  approval: "auto"
+};
+
+export function isBuiltinTool(toolName: string): boolean {
+  return toolName in BUILTIN_TOOL_POLICIES;
+}
+
+/**
+ * The policy of a tool. Built-in policies cannot be overridden; `extra`
+ * holds the policies stored for runtime tools.
+ */
+export function getToolPolicy(
+  toolName: string,
+  extra: Record<string, ToolPolicy> = {}
+): ToolPolicy {
+  return (
+    BUILTIN_TOOL_POLICIES[toolName] ?? extra[toolName] ?? DEFAULT_TOOL_POLICY
+  );
+}
+
+export function requiresApproval(
+  toolName: string,
+  extra?: Record<string, ToolPolicy>
+): boolean {
+  return getToolPolicy(toolName, extra).approval === "require_approval";
+}
@@ -0,0 +1,251 @@
+/**
+ * Weather lookups behind a provider interface
+ *
+ * The default provider is Open-Meteo, which needs no API key. Its base URL
+ * can be pointed elsewhere (WEATHER_API_BASE_URL) so a local stub serving
+ * the same /v1/search and /v1/forecast endpoints can stand in for it.
+ */
+
+export type TemperatureUnit = "celsius" | "fahrenheit";
+
+export interface WeatherLocation {
+  name: string;
+  region?: string;
+  country?: string;
+  latitude: number;
+  longitude: number;
+  /** IANA time zone of the location */
+  timeZone: string;
+}
+
+export interface CurrentConditions {
+  /** Local time of the observation, ISO without offset */
+  time: string;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  windSpeed: number;
+  condition: string;
+  isDay: boolean;
+}
+
+export interface DailyForecast {
+  /** YYYY-MM-DD in the location's time zone */
+  date: string;
+  condition: string;
+  high: number;
+  low: number;
+  /** Percent, 0-100 */
+  precipitationChance: number;
+}
+
+export interface WeatherReport {
+  location: WeatherLocation;
+  units: { temperature: "°C" | "°F"; windSpeed: "km/h" | "mph" };
+  current: CurrentConditions;
+  daily: DailyForecast[];
+}
+
+export interface ForecastOptions {
+  days: number;
+  unit: TemperatureUnit;
+}
+
+/**
+ * Where weather data comes from
+ */
+export interface WeatherProvider {
+  /** Best match for a place name, or null when nothing matches */
+  geocode(query: string): Promise<WeatherLocation | null>;
+  forecast(
+    location: WeatherLocation,
+    options: ForecastOptions
+  ): Promise<Pick<WeatherReport, "current" | "daily">>;
+}
+
+// WMO weather interpretation codes used by Open-Meteo
+const WEATHER_CODES: Record<number, string> = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Freezing fog",
+  51: "Light drizzle",
+  53: "Drizzle",
+  55: "Heavy drizzle",
+  56: "Freezing drizzle",
+  57: "Heavy freezing drizzle",
+  61: "Light rain",
+  63: "Rain",
+  65: "Heavy rain",
+  66: "Freezing rain",
+  67: "Heavy freezing rain",
+  71: "Light snow",
+  73: "Snow",
+  75: "Heavy snow",
+  77: "Snow grains",
+  80: "Light showers",
+  81: "Showers",
+  82: "Violent showers",
+  85: "Snow showers",
+  86: "Heavy snow showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with hail",
+  99: "Thunderstorm with heavy hail"
+};
+
+export function describeWeatherCode(code: number): string {
+  return WEATHER_CODES[code] ?? "Unknown";
+}
+
+async function getJson<T>(url: URL): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Weather request failed (${response.status}): ${await response.text()}`
+    );
+  }
+  return response.json<T>();
+}
+
+/**
+ * Open-Meteo provider. Both endpoints live under one base URL when given;
+ * otherwise the public geocoding and forecast hosts are used.
+ */
+export function createOpenMeteoProvider(baseUrl?: string): WeatherProvider {
+  const geocodingBase = baseUrl ?? "https://geocoding-api.open-meteo.com";
+  const forecastBase = baseUrl ?? "https://api.open-meteo.com";
+
+  return {
+    async geocode(query) {
+      // Open-Meteo searches place names only; "Austin, Texas" is looked up
+      // as "Austin" and "Texas" picks among the results
+      const [name, ...qualifiers] = query.split(",");
+      const qualifier = qualifiers.join(",").trim().toLowerCase();
+      const url = new URL("/v1/search", geocodingBase);
+      url.search = new URLSearchParams({
+        name: name.trim(),
+        count: qualifier ? "10" : "1",
+        language: "en",
+        format: "json"
+      }).toString();
+      const data = await getJson<{
+        results?: {
+          name: string;
+          admin1?: string;
+          country?: string;
+          country_code?: string;
+          latitude: number;
+          longitude: number;
+          timezone?: string;
+        }[];
+      }>(url);
+      const match =
+        (qualifier &&
+          data.results?.find((result) =>
+            [result.admin1, result.country, result.country_code].some(
+              (part) => part?.toLowerCase() === qualifier
+            )
+          )) ||
+        data.results?.[0];
+      if (!match) return null;
+      return {
+        name: match.name,
+        ...(match.admin1 && { region: match.admin1 }),
+        ...(match.country && { country: match.country }),
+        latitude: match.latitude,
+        longitude: match.longitude,
+        timeZone: match.timezone ?? "UTC"
+      };
+    },
+
+    async forecast(location, { days, unit }) {
+      const url = new URL("/v1/forecast", forecastBase);
+      url.search = new URLSearchParams({
+        latitude: String(location.latitude),
+        longitude: String(location.longitude),
+        timezone: location.timeZone,
+        forecast_days: String(days),
+        temperature_unit: unit,
+        wind_speed_unit: unit === "fahrenheit" ? "mph" : "kmh",
+        current:
+          "temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,weather_code,is_day",
+        daily:
+          "weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max"
+      }).toString();
+      const data = await getJson<{
+        current: {
+          time: string;
+          temperature_2m: number;
+          apparent_temperature: number;
+          relative_humidity_2m: number;
+          wind_speed_10m: number;
+          weather_code: number;
+          is_day: number;
+        };
+        daily: {
+          time: string[];
+          weather_code: number[];
+          temperature_2m_max: number[];
+          temperature_2m_min: number[];
+          precipitation_probability_max: (number | null)[];
+        };
+      }>(url);
+
+      return {
+        current: {
+          time: data.current.time,
+          temperature: data.current.temperature_2m,
+          feelsLike: data.current.apparent_temperature,
+          humidity: data.current.relative_humidity_2m,
+          windSpeed: data.current.wind_speed_10m,
+          condition: describeWeatherCode(data.current.weather_code),
+          isDay: data.current.is_day === 1
+        },
+        daily: data.daily.time.map((date, index) => ({
+          date,
+          condition: describeWeatherCode(data.daily.weather_code[index]),
+          high: data.daily.temperature_2m_max[index],
+          low: data.daily.temperature_2m_min[index],
+          precipitationChance:
+            data.daily.precipitation_probability_max[index] ?? 0
+        }))
+      };
+    }
+  };
+}
+
+export interface WeatherReportOptions {
+  /** Forecast days including today, 1-7 */
+  days?: number;
+  unit?: TemperatureUnit;
+}
+
+/**
+ * Current conditions and forecast for a place name
+ * Returns a message instead when the place cannot be found
+ */
+export async function getWeatherReport(
+  place: string,
+  provider: WeatherProvider,
+  { days = 3, unit = "celsius" }: WeatherReportOptions = {}
+): Promise<WeatherReport | string> {
+  const location = await provider.geocode(place);
+  if (!location) {
+    return `Could not find a place called "${place}".`;
+  }
+
+  const forecast = await provider.forecast(location, {
+    days: Math.min(Math.max(Math.round(days), 1), 7),
+    unit
+  });
+  return {
+    location,
+    units:
+      unit === "fahrenheit"
+        ? { temperature: "°F", windSpeed: "mph" }
+        : { temperature: "°C", windSpeed: "km/h" },
+    ...forecast
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Web Push from the Worker with WebCrypto
+ *
+ * Messages are encrypted for the subscribing browser with aes128gcm
+ * (RFC 8291) and sent with a VAPID authorization (RFC 8292), so no push
+ * library with Node crypto is needed. VAPID keys are the base64url pair
+ * most tools generate: the 65-byte uncompressed public key and the 32-byte
+ * private scalar.
+ */
+import { base64UrlDecode, base64UrlEncode } from "./crypto";
+
+/** A browser's PushSubscription as its toJSON() returns it */
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  keys: {
+    /** The browser's ECDH P-256 public key, base64url */
+    p256dh: string;
+    /** 16-byte authentication secret, base64url */
+    auth: string;
+  };
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  /** Contact for the push service, "mailto:" or an https URL */
+  subject: string;
+}
+
+export interface WebPushOptions {
+  /** Seconds the push service keeps an undelivered message */
+  ttl?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+  /** Replaces an undelivered message with the same topic */
+  topic?: string;
+  /** Aborts the request, e.g. when the push service does not answer */
+  signal?: AbortSignal;
+}
+
+/**
+ * The push service no longer knows the subscription (404 or 410); the
+ * browser unsubscribed and it should be forgotten
+ */
+export class PushSubscriptionGoneError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription is gone: ${new URL(endpoint).origin}`);
+    this.name = "PushSubscriptionGoneError";
+  }
+}
+
+const encoder = new TextEncoder();
+
+/** Lifetime of a VAPID token; push services accept up to 24 hours */
+const VAPID_TOKEN_LIFETIME_S = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+/** Push services accept message bodies up to 4096 bytes (RFC 8291, section 4) */
+const MAX_BODY_BYTES = 4096;
+/** The aes128gcm header: salt, record size, key ID length and the sender's key */
+const HEADER_BYTES = 16 + 4 + 1 + 65;
+/**
+ * The most payload a message holds: the body less the header, the padding
+ * delimiter and the AES-GCM tag
+ */
+export const MAX_PUSH_PAYLOAD_BYTES = MAX_BODY_BYTES - HEADER_BYTES - 1 - 16;
+/** Hosts of the push services browsers subscribe with; a leading dot matches subdomains */
+const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com", // Chrome, Edge, Opera
+  "updates.push.services.mozilla.com", // Firefox
+  "web.push.apple.com", // Safari
+  ".notify.windows.com" // Legacy Edge
+];
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// A P-256 key as a JWK, from the raw uncompressed public key and, for a
+// private key, its scalar
+function p256Jwk(publicKey: Uint8Array, privateKey?: Uint8Array): JsonWebKey {
+  return {
+    kty: "EC",
+    crv: "P-256",
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    ...(privateKey && { d: base64UrlEncode(privateKey) }),
+    ext: true
+  };
+}
+
+async function hkdf(
+  salt: Uint8Array<ArrayBuffer>,
+  ikm: Uint8Array<ArrayBuffer>,
+  info: Uint8Array<ArrayBuffer>,
+  length: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, [
+    "deriveBits"
+  ]);
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt, info },
+      key,
+      length * 8
+    )
+  );
+}
+
+/**
+ * The Authorization header for a push to `endpoint`: a VAPID JWT signed
+ * with ES256 for the endpoint's origin, and the public key
+ */
+export async function vapidAuthorization(
+  endpoint: string,
+  vapid: VapidKeys,
+  now: Date = new Date()
+): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    p256Jwk(publicKey, base64UrlDecode(vapid.privateKey)),
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+  const header = base64UrlEncode(
+    encoder.encode(JSON.stringify({ typ: "JWT", alg: "ES256" }))
+  );
+  const claims = base64UrlEncode(
+    encoder.encode(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_S,
+        sub: vapid.subject
+      })
+    )
+  );
+  // WebCrypto signs ECDSA as r || s, the form JWS uses
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    key,
+    encoder.encode(`${header}.${claims}`)
+  );
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a message for a subscription as a single aes128gcm record.
+ * `salt` and `senderKeys` are random unless given, which tests do.
+ */
+export async function encryptPushPayload(
+  payload: string,
+  keys: PushSubscriptionRecord["keys"],
+  options: { salt?: Uint8Array<ArrayBuffer>; senderKeys?: CryptoKeyPair } = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const receiverPublic = base64UrlDecode(keys.p256dh);
+  const authSecret = base64UrlDecode(keys.auth);
+  const salt = options.salt ?? crypto.getRandomValues(new Uint8Array(16));
+  const senderKeys =
+    options.senderKeys ??
+    ((await crypto.subtle.generateKey(
+      { name: "ECDH", namedCurve: "P-256" },
+      true,
+      ["deriveBits"]
+    )) as CryptoKeyPair);
+  const senderPublic = new Uint8Array(
+    await crypto.subtle.exportKey("raw", senderKeys.publicKey)
+  );
+
+  const receiverKey = await crypto.subtle.importKey(
+    "raw",
+    receiverPublic,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    []
+  );
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "ECDH", public: receiverKey },
+      senderKeys.privateKey,
+      256
+    )
+  );
+  const ikm = await hkdf(
+    authSecret,
+    sharedSecret,
+    concat(encoder.encode("WebPush: info\0"), receiverPublic, senderPublic),
+    32
+  );
+  const contentKey = await hkdf(
+    salt,
+    ikm,
+    encoder.encode("Content-Encoding: aes128gcm\0"),
+    16
+  );
+  const nonce = await hkdf(
+    salt,
+    ikm,
+    encoder.encode("Content-Encoding: nonce\0"),
+    12
+  );
+
+  const payloadBytes = encoder.encode(payload);
+  if (payloadBytes.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error(
+      `Push payload is too large: ${payloadBytes.length} bytes, at most ${MAX_PUSH_PAYLOAD_BYTES} fit`
+    );
+  }
+  // 0x02 marks the last (and only) record
+  const plaintext = concat(payloadBytes, new Uint8Array([2]));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: nonce },
+      await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, [
+        "encrypt"
+      ]),
+      plaintext
+    )
+  );
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, RECORD_SIZE);
+  return concat(
+    salt,
+    recordSize,
+    new Uint8Array([senderPublic.length]),
+    senderPublic,
+    ciphertext
+  );
+}
+
+/**
+ * Send a message to a subscription. Throws PushSubscriptionGoneError when
+ * the subscription has expired, and Error for other rejections.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionRecord,
+  payload: string,
+  vapid: VapidKeys,
+  options: WebPushOptions = {}
+): Promise<void> {
+  const body = await encryptPushPayload(payload, subscription.keys);
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(options.ttl ?? 24 * 60 * 60),
+      Urgency: options.urgency ?? "normal",
+      ...(options.topic && { Topic: options.topic })
+    },
+    body,
+    signal: options.signal
+  });
+  if (response.status === 404 || response.status === 410) {
+    throw new PushSubscriptionGoneError(subscription.endpoint);
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Push service rejected the message (${response.status}): ${await response.text()}`
+    );
+  }
+}
+
+/**
+ * Whether an endpoint belongs to a known browser push service, so
+ * deliveries cannot be pointed at any other host
+ */
+export function isKnownPushService(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === "https:" &&
+    PUSH_SERVICE_HOSTS.some((host) =>
+      host.startsWith(".") ? url.hostname.endsWith(host) : url.hostname === host
+    )
+  );
+}
+
+/**
+ * Whether a value looks like a PushSubscription's JSON from a known push
+ * service
+ */
+export function isPushSubscriptionRecord(
+  value: unknown
+): value is PushSubscriptionRecord {
+  const record = value as PushSubscriptionRecord;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof record.endpoint === "string" &&
+    isKnownPushService(record.endpoint) &&
+    typeof record.keys?.p256dh === "string" &&
+    typeof record.keys?.auth === "string"
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * Offline place-name to IANA time zone data used by zone-lookup.ts
+ *
+ * Keys are lowercase without accents. Cities whose name matches the last
+ * part of their zone ("Berlin" → Europe/Berlin) need no entry here, since
+ * those are found from the runtime's own zone list.
+ */
+
+/** Abbreviations and common names of time zones */
+export const ZONE_ALIASES: Record<string, string> = {
+  utc: "UTC",
+  gmt: "UTC",
+  z: "UTC",
+  zulu: "UTC",
+  pt: "America/Los_Angeles",
+  pst: "America/Los_Angeles",
+  pdt: "America/Los_Angeles",
+  pacific: "America/Los_Angeles",
+  mt: "America/Denver",
+  mst: "America/Denver",
+  mdt: "America/Denver",
+  mountain: "America/Denver",
+  ct: "America/Chicago",
+  cst: "America/Chicago",
+  cdt: "America/Chicago",
+  central: "America/Chicago",
+  et: "America/New_York",
+  est: "America/New_York",
+  edt: "America/New_York",
+  eastern: "America/New_York",
+  akst: "America/Anchorage",
+  alaska: "America/Anchorage",
+  hst: "Pacific/Honolulu",
+  hawaii: "Pacific/Honolulu",
+  ast: "America/Halifax",
+  atlantic: "America/Halifax",
+  nst: "America/St_Johns",
+  bst: "Europe/London",
+  wet: "Europe/Lisbon",
+  cet: "Europe/Paris",
+  cest: "Europe/Paris",
+  eet: "Europe/Athens",
+  eest: "Europe/Athens",
+  msk: "Europe/Moscow",
+  ist: "Asia/Kolkata",
+  pkt: "Asia/Karachi",
+  sgt: "Asia/Singapore",
+  hkt: "Asia/Hong_Kong",
+  jst: "Asia/Tokyo",
+  kst: "Asia/Seoul",
+  aest: "Australia/Sydney",
+  aedt: "Australia/Sydney",
+  acst: "Australia/Adelaide",
+  awst: "Australia/Perth",
+  nzst: "Pacific/Auckland",
+  nzdt: "Pacific/Auckland"
+};
+
+/** Cities whose zone is named after a different city */
+export const CITY_ZONES: Record<string, string> = {
+  "san francisco": "America/Los_Angeles",
+  sf: "America/Los_Angeles",
+  seattle: "America/Los_Angeles",
+  portland: "America/Los_Angeles",
+  "san diego": "America/Los_Angeles",
+  "san jose": "America/Los_Angeles",
+  "las vegas": "America/Los_Angeles",
+  sacramento: "America/Los_Angeles",
+  oakland: "America/Los_Angeles",
+  "palo alto": "America/Los_Angeles",
+  "mountain view": "America/Los_Angeles",
+  "salt lake city": "America/Denver",
+  albuquerque: "America/Denver",
+  boulder: "America/Denver",
+  calgary: "America/Edmonton",
+  austin: "America/Chicago",
+  dallas: "America/Chicago",
+  houston: "America/Chicago",
+  "san antonio": "America/Chicago",
+  minneapolis: "America/Chicago",
+  "st louis": "America/Chicago",
+  "kansas city": "America/Chicago",
+  nashville: "America/Chicago",
+  "new orleans": "America/Chicago",
+  milwaukee: "America/Chicago",
+  nyc: "America/New_York",
+  boston: "America/New_York",
+  washington: "America/New_York",
+  "washington dc": "America/New_York",
+  dc: "America/New_York",
+  philadelphia: "America/New_York",
+  atlanta: "America/New_York",
+  miami: "America/New_York",
+  pittsburgh: "America/New_York",
+  baltimore: "America/New_York",
+  charlotte: "America/New_York",
+  orlando: "America/New_York",
+  raleigh: "America/New_York",
+  columbus: "America/New_York",
+  cleveland: "America/New_York",
+  ottawa: "America/Toronto",
+  montreal: "America/Toronto",
+  quebec: "America/Toronto",
+  guadalajara: "America/Mexico_City",
+  monterrey: "America/Monterrey",
+  "rio de janeiro": "America/Sao_Paulo",
+  rio: "America/Sao_Paulo",
+  brasilia: "America/Sao_Paulo",
+  medellin: "America/Bogota",
+  valparaiso: "America/Santiago",
+  cordoba: "America/Argentina/Cordoba",
+  edinburgh: "Europe/London",
+  manchester: "Europe/London",
+  birmingham: "Europe/London",
+  glasgow: "Europe/London",
+  liverpool: "Europe/London",
+  bristol: "Europe/London",
+  cambridge: "Europe/London",
+  oxford: "Europe/London",
+  cork: "Europe/Dublin",
+  porto: "Europe/Lisbon",
+  barcelona: "Europe/Madrid",
+  valencia: "Europe/Madrid",
+  seville: "Europe/Madrid",
+  lyon: "Europe/Paris",
+  marseille: "Europe/Paris",
+  nice: "Europe/Paris",
+  toulouse: "Europe/Paris",
+  geneva: "Europe/Zurich",
+  basel: "Europe/Zurich",
+  munich: "Europe/Berlin",
+  hamburg: "Europe/Berlin",
+  frankfurt: "Europe/Berlin",
+  cologne: "Europe/Berlin",
+  stuttgart: "Europe/Berlin",
+  dusseldorf: "Europe/Berlin",
+  rotterdam: "Europe/Amsterdam",
+  "the hague": "Europe/Amsterdam",
+  utrecht: "Europe/Amsterdam",
+  eindhoven: "Europe/Amsterdam",
+  antwerp: "Europe/Brussels",
+  milan: "Europe/Rome",
+  naples: "Europe/Rome",
+  florence: "Europe/Rome",
+  venice: "Europe/Rome",
+  turin: "Europe/Rome",
+  gothenburg: "Europe/Stockholm",
+  krakow: "Europe/Warsaw",
+  wroclaw: "Europe/Warsaw",
+  "st petersburg": "Europe/Moscow",
+  "saint petersburg": "Europe/Moscow",
+  "tel aviv": "Asia/Jerusalem",
+  "abu dhabi": "Asia/Dubai",
+  mumbai: "Asia/Kolkata",
+  bombay: "Asia/Kolkata",
+  delhi: "Asia/Kolkata",
+  "new delhi": "Asia/Kolkata",
+  bangalore: "Asia/Kolkata",
+  bengaluru: "Asia/Kolkata",
+  chennai: "Asia/Kolkata",
+  hyderabad: "Asia/Kolkata",
+  pune: "Asia/Kolkata",
+  kolkata: "Asia/Kolkata",
+  calcutta: "Asia/Kolkata",
+  lahore: "Asia/Karachi",
+  islamabad: "Asia/Karachi",
+  hanoi: "Asia/Bangkok",
+  beijing: "Asia/Shanghai",
+  shenzhen: "Asia/Shanghai",
+  guangzhou: "Asia/Shanghai",
+  hangzhou: "Asia/Shanghai",
+  chengdu: "Asia/Shanghai",
+  osaka: "Asia/Tokyo",
+  kyoto: "Asia/Tokyo",
+  busan: "Asia/Seoul",
+  cebu: "Asia/Manila",
+  canberra: "Australia/Sydney",
+  "gold coast": "Australia/Brisbane",
+  wellington: "Pacific/Auckland",
+  christchurch: "Pacific/Auckland",
+  "cape town": "Africa/Johannesburg",
+  durban: "Africa/Johannesburg",
+  pretoria: "Africa/Johannesburg"
+};
+
+/** Countries, with the zone of the capital or the most populous region */
+export const COUNTRY_ZONES: Record<string, string> = {
+  "united states": "America/New_York",
+  usa: "America/New_York",
+  us: "America/New_York",
+  canada: "America/Toronto",
+  mexico: "America/Mexico_City",
+  brazil: "America/Sao_Paulo",
+  argentina: "America/Argentina/Buenos_Aires",
+  chile: "America/Santiago",
+  colombia: "America/Bogota",
+  peru: "America/Lima",
+  venezuela: "America/Caracas",
+  "united kingdom": "Europe/London",
+  uk: "Europe/London",
+  england: "Europe/London",
+  scotland: "Europe/London",
+  wales: "Europe/London",
+  ireland: "Europe/Dublin",
+  portugal: "Europe/Lisbon",
+  spain: "Europe/Madrid",
+  france: "Europe/Paris",
+  belgium: "Europe/Brussels",
+  netherlands: "Europe/Amsterdam",
+  holland: "Europe/Amsterdam",
+  germany: "Europe/Berlin",
+  switzerland: "Europe/Zurich",
+  austria: "Europe/Vienna",
+  italy: "Europe/Rome",
+  denmark: "Europe/Copenhagen",
+  norway: "Europe/Oslo",
+  sweden: "Europe/Stockholm",
+  finland: "Europe/Helsinki",
+  poland: "Europe/Warsaw",
+  czechia: "Europe/Prague",
+  "czech republic": "Europe/Prague",
+  hungary: "Europe/Budapest",
+  romania: "Europe/Bucharest",
+  greece: "Europe/Athens",
+  turkey: "Europe/Istanbul",
+  ukraine: "Europe/Kyiv",
+  russia: "Europe/Moscow",
+  israel: "Asia/Jerusalem",
+  egypt: "Africa/Cairo",
+  "saudi arabia": "Asia/Riyadh",
+  uae: "Asia/Dubai",
+  "united arab emirates": "Asia/Dubai",
+  pakistan: "Asia/Karachi",
+  india: "Asia/Kolkata",
+  nepal: "Asia/Kathmandu",
+  bangladesh: "Asia/Dhaka",
+  thailand: "Asia/Bangkok",
+  vietnam: "Asia/Ho_Chi_Minh",
+  malaysia: "Asia/Kuala_Lumpur",
+  singapore: "Asia/Singapore",
+  indonesia: "Asia/Jakarta",
+  philippines: "Asia/Manila",
+  china: "Asia/Shanghai",
+  "hong kong": "Asia/Hong_Kong",
+  taiwan: "Asia/Taipei",
+  "south korea": "Asia/Seoul",
+  korea: "Asia/Seoul",
+  japan: "Asia/Tokyo",
+  australia: "Australia/Sydney",
+  "new zealand": "Pacific/Auckland",
+  "south africa": "Africa/Johannesburg",
+  nigeria: "Africa/Lagos",
+  kenya: "Africa/Nairobi",
+  morocco: "Africa/Casablanca",
+  ghana: "Africa/Accra",
+  ethiopia: "Africa/Addis_Ababa"
+};
@@ -0,0 +1,122 @@
+/**
+ * Resolve place names to time zones and describe local times there
+ *
+ * Works offline: IANA names are taken as is, then the bundled aliases,
+ * cities and countries are tried, then the city part of every zone the
+ * runtime knows ("Reykjavik" → Atlantic/Reykjavik).
+ */
+import { CITY_ZONES, COUNTRY_ZONES, ZONE_ALIASES } from "./zone-data";
+import {
+  formatInTimeZone,
+  formatUtcOffset,
+  getTimeZoneOffset,
+  isDaylightSavingTime,
+  isValidTimeZone
+} from "./timezone";
+
+export type ZoneLookupResult =
+  | { ok: true; name: string; timeZone: string }
+  | { ok: false; message: string };
+
+export interface ZoneTime {
+  /** The place as the user named it */
+  name: string;
+  timeZone: string;
+  /** e.g. "Mon, Jun 2, 2025, 3:00 PM" */
+  localTime: string;
+  /** e.g. "UTC+02:00" */
+  offset: string;
+  isDst: boolean;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[._]/g, " ")
+    .replace(/\b(standard|daylight)?\s*time(\s*zone)?$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+let zoneCities: Map<string, string> | undefined;
+
+// "reykjavik" → Atlantic/Reykjavik, built once from the
+// runtime's zone list
+function zoneForCity(city: string): string | undefined {
+  if (!zoneCities) {
+    const supportedValuesOf = (
+      Intl as { supportedValuesOf?: (key: "timeZone") => string[] }
+    ).supportedValuesOf;
+    zoneCities = new Map(
+      (supportedValuesOf?.("timeZone") ?? []).map((zone) => [
+        normalize(zone.slice(zone.lastIndexOf("/") + 1)),
+        zone
+      ])
+    );
+  }
+  return zoneCities.get(city);
+}
+
+function lookup(key: string): string | undefined {
+  return (
+    ZONE_ALIASES[key] ??
+    CITY_ZONES[key] ??
+    COUNTRY_ZONES[key] ??
+    zoneForCity(key)
+  );
+}
+
+/**
+ * Find the time zone of a city, country, zone abbreviation or IANA name
+ */
+export function resolveTimeZone(place: string): ZoneLookupResult {
+  const name = place.trim();
+  if (name.includes("/") && isValidTimeZone(name)) {
+    // Canonical spelling, e.g. "europe/berlin" → "Europe/Berlin"
+    const timeZone = new Intl.DateTimeFormat("en-US", {
+      timeZone: name
+    }).resolvedOptions().timeZone;
+    return { ok: true, name, timeZone };
+  }
+
+  const key = normalize(name);
+  // "Portland, Oregon" or "Paris, France": the city, then the rest
+  const parts = key.split(",").map((part) => part.trim());
+  for (const candidate of [key, ...parts]) {
+    const timeZone = candidate && lookup(candidate);
+    if (timeZone) return { ok: true, name, timeZone };
+  }
+
+  return {
+    ok: false,
+    message: `Could not find a time zone for "${name}". Try a major city, a country or an IANA name like "Europe/Berlin".`
+  };
+}
+
+/**
+ * Local time, offset and DST status of an instant in a zone
+ */
+export function getZoneTime(
+  name: string,
+  timeZone: string,
+  at: Date
+): ZoneTime {
+  return {
+    name,
+    timeZone,
+    localTime: formatInTimeZone(at, timeZone),
+    offset: formatUtcOffset(getTimeZoneOffset(at, timeZone)),
+    isDst: isDaylightSavingTime(at, timeZone)
+  };
+}
+
+/**
+ * e.g. "Mon, Jun 2, 2025, 3:00 PM in Berlin (Europe/Berlin, UTC+02:00,
+ * daylight saving time)"
+ */
+export function describeZoneTime(time: ZoneTime): string {
+  const dst = time.isDst ? "daylight saving time" : "standard time";
+  return `${time.localTime} in ${time.name} (${time.timeZone}, ${time.offset}, ${dst})`;
+}
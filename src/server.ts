@@ -1,10 +1,19 @@
-import { routeAgentRequest, type Schedule } from "agents";
+import {
+  callable,
+  getAgentByName,
+  routeAgentRequest,
+  type Connection,
+  type ConnectionContext,
+  type Schedule
+} from "agents";
 
 import { getSchedulePrompt } from "agents/schedule";
 
 import { AIChatAgent } from "agents/ai-chat-agent";
 import {
+  asSchema,
   generateId,
+  generateText,
   streamText,
   type StreamTextOnFinishCallback,
   stepCountIs,
@@ -15,18 +24,593 @@ import {
 } from "ai";
 //import { openai } from "@ai-sdk/openai";
 import { createWorkersAI } from 'workers-ai-provider';
-import { processToolCalls, cleanupMessages } from "./utils";
-import { tools, executions } from "./tools";
+import { processToolCalls, cleanupMessages, requireApprovalFor } from "./utils";
+import {
+  tools,
+  executions,
+  existingEventAttendees,
+  previews,
+  scheduledTaskTools
+} from "./tools";
+import {
+  INITIAL_CHAT_STATE,
+  type ChatState,
+  type NotificationDelivery,
+  type ScheduleChange,
+  type TaskRun,
+  type TaskRunNotification,
+  type ToolCallPreview
+} from "./shared";
+import { isValidTimeZone } from "./lib/timezone";
+import {
+  createResendEmailProvider,
+  type DeliveryAttempt,
+  deliverNotification,
+  type EmailProvider,
+  emailChannel,
+  MAX_NOTIFICATION_TITLE_LENGTH,
+  type NotificationChannel,
+  type NotificationMessage,
+  type NotificationPreferences,
+  truncateText,
+  unavailableChannel,
+  validateNotificationPreferences,
+  webhookChannel,
+  webPushChannel
+} from "./lib/notifications";
+import {
+  isPushSubscriptionRecord,
+  type PushSubscriptionRecord,
+  type VapidKeys
+} from "./lib/web-push";
+import {
+  applyTaskChanges,
+  filterTasks,
+  isOpen,
+  normalizeTags,
+  parseNewTask,
+  parseTaskChanges,
+  rescheduleTarget,
+  snoozeTarget,
+  sortTasks,
+  taskFromRow,
+  upcomingSchedules,
+  type NewTask,
+  type Task,
+  type TaskChanges,
+  type TaskQuery,
+  type TaskRow
+} from "./lib/tasks";
+import { fallbackChain, findModel, runWithFallback } from "./lib/models";
+import {
+  getToolPolicy,
+  isBuiltinTool,
+  type ToolPolicy
+} from "./lib/tool-registry";
+import {
+  isPreApproved,
+  type UserApprovalPolicy
+} from "./lib/approval-policy";
+import { DEFAULT_WORKING_HOURS } from "./lib/availability";
+import type { ToolInputSchema } from "./lib/tool-input-form";
+import {
+  getPromptTemplate,
+  PROMPT_TEMPLATES,
+  renderSystemPrompt
+} from "./lib/prompts";
+import {
+  createModelClassifier,
+  createRuleClassifier,
+  findMisroute,
+  INTENT_GUIDANCE,
+  MIN_ROUTE_CONFIDENCE,
+  narrowTools,
+  requiresToolCall,
+  routeIntent,
+  type IntentResult
+} from "./lib/intent-router";
+import {
+  isToolContinuation,
+  recoverMissingToolCall,
+  recoveryStrategies,
+  type RecoveryStrategy,
+  type RecoveryTry
+} from "./lib/tool-call-recovery";
+import {
+  buildAuthorizationUrl,
+  cacheAccessToken,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  invalidateAccessToken,
+  revokeGoogleToken,
+  type TokenCache
+} from "./lib/google-auth";
+import { decryptSecret, encryptSecret, randomToken } from "./lib/crypto";
+import {
+  agentNameForSession,
+  createSessionId,
+  GOOGLE_OAUTH_STATE_COOKIE,
+  readCookie,
+  serializeCookie,
+  sessionCookie,
+  sessionIdOf
+} from "./lib/session";
 // Cloudflare AI Gateway
 // const openai = createOpenAI({
 //   apiKey: env.OPENAI_API_KEY,
 //   baseURL: env.GATEWAY_BASE_URL,
 // });
 
+const GOOGLE_REFRESH_TOKEN_KEY = "google:refreshToken";
+/** Pending OAuth flows are stored under this prefix and their state */
+const GOOGLE_OAUTH_STATE_PREFIX = "google:oauthState:";
+/** Time a model gets for one attempt at a turn before the next one is tried */
+const MODEL_TIMEOUT_MS = 60 * 1000;
+/** Corrections a model gets when it describes an action instead of calling the tool */
+const MAX_TOOL_CALL_RETRIES = 2;
+/** Tool call tries kept for measuring the correction rate */
+const MAX_LOGGED_TOOL_CALL_TRIES = 5000;
+/** Time a model gets for a scheduled task run, which may call several tools */
+const TASK_RUN_TIMEOUT_MS = 2 * 60 * 1000;
+/** Task runs kept per conversation; older ones are dropped */
+const MAX_LOGGED_TASK_RUNS = 500;
+/** Moves of scheduled tasks kept per conversation; older ones are dropped */
+const MAX_LOGGED_SCHEDULE_CHANGES = 500;
+/** When the last test notification went out, in milliseconds since the epoch */
+const LAST_TEST_NOTIFICATION_KEY = "notifications:lastTestAt";
+/** Test notifications are throttled to one per this interval */
+const TEST_NOTIFICATION_INTERVAL_MS = 60 * 1000;
+/** Routing guidance for scheduled task runs */
+const TASK_RUN_GUIDANCE =
+  "This is a scheduled task running while the user is away. Do what the task asks using your tools, then reply with a short summary for the user. Do not ask questions; nobody is there to answer them.";
+/** Misroutes kept for review; older ones are dropped */
+const MAX_LOGGED_MISROUTES = 500;
+/** Notification deliveries kept per conversation; older ones are dropped */
+const MAX_LOGGED_NOTIFICATION_DELIVERIES = 500;
+/** How long the user has to finish Google's consent screen */
+const GOOGLE_OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+type WorkersAIModelId = Parameters<ReturnType<typeof createWorkersAI>>[0];
+
+/**
+ * An OAuth flow started by beginGoogleOAuth, waiting for its callback
+ */
+interface PendingGoogleOAuth {
+  state: string;
+  verifier: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+/**
+ * The deployment's VAPID keys for Web Push; undefined when not configured
+ */
+function vapidKeys(): VapidKeys | undefined {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return undefined;
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT ?? "mailto:reminders@example.com"
+  };
+}
+
+function emailProvider(): EmailProvider | undefined {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.EMAIL_FROM;
+  return apiKey && from ? createResendEmailProvider(apiKey, from) : undefined;
+}
+
+/**
+ * The settings the in-app Google sign-in needs that are missing
+ */
+function missingGoogleOAuthSettings(): string[] {
+  return [
+    "GOOGLE_CLIENT_ID",
+    "GOOGLE_CLIENT_SECRET",
+    "GOOGLE_TOKEN_ENCRYPTION_KEY"
+  ].filter((name) => !process.env[name]);
+}
+
+function googleTokenEncryptionKey(): string {
+  const key = process.env.GOOGLE_TOKEN_ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error(
+      "GOOGLE_TOKEN_ENCRYPTION_KEY is not set, add it to .dev.vars to store Google refresh tokens"
+    );
+  }
+  return key;
+}
+
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
  */
-export class Chat extends AIChatAgent<Env> {
+export class Chat extends AIChatAgent<Env, ChatState> {
+  initialState: ChatState = INITIAL_CHAT_STATE;
+
+  /**
+   * Stores the time zone the browser reports in the connection URL
+   */
+  async onConnect(connection: Connection, ctx: ConnectionContext) {
+    const timeZone = new URL(ctx.request.url).searchParams.get("timeZone");
+    if (
+      timeZone &&
+      timeZone !== this.state.timeZone &&
+      isValidTimeZone(timeZone)
+    ) {
+      console.log(`🌍 Time zone for ${connection.id}: ${timeZone}`);
+      this.setState({ ...this.state, timeZone });
+    }
+    // Recurring schedules move on after each run; show where they are now
+    this.syncTaskPanel();
+  }
+
+  /**
+   * Caches Google access tokens in this agent's storage and mirrors the
+   * connection status into the state, so the UI can ask to reconnect
+   */
+  googleTokenCache(): TokenCache {
+    return {
+      storage: this.ctx.storage,
+      onStatusChange: (googleStatus) => {
+        if (googleStatus === this.state.googleStatus) return;
+        console.log(`🔑 Google connection: ${googleStatus}`);
+        this.setState({ ...this.state, googleStatus });
+      }
+    };
+  }
+
+  /**
+   * Starts connecting Google Calendar: remembers the PKCE verifier under a
+   * new state for the callback and returns the state and the URL of
+   * Google's consent screen. Flows started in several tabs each keep their
+   * own state.
+   */
+  async beginGoogleOAuth(
+    redirectUri: string
+  ): Promise<{ url: string; state: string }> {
+    const missing = missingGoogleOAuthSettings();
+    if (missing.length > 0) {
+      throw new Error(`${missing.join(", ")} must be set`);
+    }
+    const pendingFlows = await this.ctx.storage.list<PendingGoogleOAuth>({
+      prefix: GOOGLE_OAUTH_STATE_PREFIX
+    });
+    const expired = [...pendingFlows]
+      .filter(([, pending]) => pending.expiresAt < Date.now())
+      .map(([key]) => key);
+    if (expired.length > 0) {
+      await this.ctx.storage.delete(expired);
+    }
+
+    const { verifier, challenge } = await createPkcePair();
+    const state = randomToken();
+    await this.ctx.storage.put<PendingGoogleOAuth>(
+      `${GOOGLE_OAUTH_STATE_PREFIX}${state}`,
+      {
+        state,
+        verifier,
+        redirectUri,
+        expiresAt: Date.now() + GOOGLE_OAUTH_STATE_TTL_MS
+      }
+    );
+    const url = buildAuthorizationUrl({
+      clientId: process.env.GOOGLE_CLIENT_ID ?? "",
+      redirectUri,
+      state,
+      codeChallenge: challenge
+    });
+    return { url, state };
+  }
+
+  /**
+   * Finishes the OAuth flow: checks the state, trades the code for tokens
+   * and stores the refresh token encrypted in this agent's storage
+   */
+  async completeGoogleOAuth(state: string, code: string): Promise<void> {
+    const key = `${GOOGLE_OAUTH_STATE_PREFIX}${state}`;
+    const pending = await this.ctx.storage.get<PendingGoogleOAuth>(key);
+    // A state is good for one callback, even a failed one
+    await this.ctx.storage.delete(key);
+    if (!pending || pending.state !== state || pending.expiresAt < Date.now()) {
+      throw new Error("Google sign-in expired or did not match, please try again");
+    }
+
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      throw new Error("GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set");
+    }
+    const grant = await exchangeAuthorizationCode({
+      clientId,
+      clientSecret,
+      code,
+      codeVerifier: pending.verifier,
+      redirectUri: pending.redirectUri
+    });
+
+    await this.ctx.storage.put(
+      GOOGLE_REFRESH_TOKEN_KEY,
+      await encryptSecret(grant.refreshToken, googleTokenEncryptionKey())
+    );
+    await cacheAccessToken(this.googleTokenCache(), grant.accessToken);
+    console.log(`🔑 Google connected${grant.email ? ` as ${grant.email}` : ""}`);
+    this.setState({
+      ...this.state,
+      googleStatus: "connected",
+      googleAccount: grant.email
+    });
+  }
+
+  /**
+   * The refresh token this user connected in the app, if any
+   */
+  async googleRefreshToken(): Promise<string | undefined> {
+    const encrypted = await this.ctx.storage.get<string>(
+      GOOGLE_REFRESH_TOKEN_KEY
+    );
+    return encrypted
+      ? decryptSecret(encrypted, googleTokenEncryptionKey())
+      : undefined;
+  }
+
+  /**
+   * Whether this user signed in with Google here. Reminders leave the app
+   * only for such a user, so a browser session alone cannot send them
+   * elsewhere.
+   */
+  private async hasConnectedGoogle(): Promise<boolean> {
+    const refreshToken = await this.ctx.storage.get<string>(
+      GOOGLE_REFRESH_TOKEN_KEY
+    );
+    return refreshToken !== undefined;
+  }
+
+  /**
+   * Forgets the connected Google account and revokes its token
+   */
+  @callable()
+  async disconnectGoogle(): Promise<void> {
+    const refreshToken = await this.googleRefreshToken();
+    await this.ctx.storage.delete(GOOGLE_REFRESH_TOKEN_KEY);
+    await invalidateAccessToken(this.googleTokenCache());
+    if (refreshToken) {
+      // Best effort; the token is gone from storage either way
+      await revokeGoogleToken(refreshToken).catch((error) =>
+        console.error("Failed to revoke Google token:", error)
+      );
+    }
+    console.log("🔑 Google disconnected");
+    this.setState({
+      ...this.state,
+      googleStatus: undefined,
+      googleAccount: undefined
+    });
+  }
+
+  /**
+   * Keeps turns whose tool calls did not fit the routed intent, so the
+   * router's rules can be reviewed and tuned
+   */
+  private logMisroute(
+    text: string,
+    route: IntentResult,
+    toolNames: string[],
+    reason: string
+  ) {
+    this.ensureMisrouteTable();
+    this.sql`INSERT INTO intent_misroutes (created_at, text, intent, confidence, source, tool_calls, reason)
+      VALUES (${new Date().toISOString()}, ${text}, ${route.intent}, ${route.confidence}, ${route.source}, ${JSON.stringify(toolNames)}, ${reason})`;
+    this.sql`DELETE FROM intent_misroutes WHERE id NOT IN (
+      SELECT id FROM intent_misroutes ORDER BY id DESC LIMIT ${MAX_LOGGED_MISROUTES})`;
+  }
+
+  /**
+   * The most recent misroutes, newest first; for /admin/misroutes
+   */
+  async getIntentMisroutes(limit = 50) {
+    this.ensureMisrouteTable();
+    return this.sql<{
+      created_at: string;
+      text: string;
+      intent: string;
+      confidence: number;
+      source: string;
+      tool_calls: string;
+      reason: string;
+    }>`SELECT created_at, text, intent, confidence, source, tool_calls, reason
+      FROM intent_misroutes ORDER BY id DESC LIMIT ${Math.min(Math.max(limit, 1), MAX_LOGGED_MISROUTES)}`;
+  }
+
+  /**
+   * Records each try of a turn that needed a tool call, so we can measure
+   * how often each model has to be corrected
+   */
+  private recordToolCallTries(
+    turnId: string,
+    modelId: string,
+    intent: string,
+    tries: RecoveryTry[]
+  ) {
+    this.ensureToolCallTable();
+    const createdAt = new Date().toISOString();
+    for (const [index, attempt] of tries.entries()) {
+      this.sql`INSERT INTO tool_call_tries (turn_id, created_at, model, intent, try_number, strategy, called_tool)
+        VALUES (${turnId}, ${createdAt}, ${modelId}, ${intent}, ${index + 1}, ${attempt.strategy}, ${attempt.calledTool ? 1 : 0})`;
+    }
+    this.sql`DELETE FROM tool_call_tries WHERE id NOT IN (
+      SELECT id FROM tool_call_tries ORDER BY id DESC LIMIT ${MAX_LOGGED_TOOL_CALL_TRIES})`;
+    const corrections = tries.length - 1;
+    if (corrections > 0) {
+      const recovered = tries[tries.length - 1].calledTool;
+      console.log(`🩹 ${modelId} needed ${corrections} correction(s), ${recovered ? "recovered" : "still no tool call"}`);
+    }
+  }
+
+  /**
+   * Per model: turns that needed a tool call, how many needed correcting
+   * and how many of those the corrections rescued; for
+   * /admin/tool-call-stats
+   */
+  async getToolCallStats() {
+    this.ensureToolCallTable();
+    return this.sql<{
+      model: string;
+      turns: number;
+      corrected: number;
+      recovered: number;
+    }>`SELECT model,
+        COUNT(DISTINCT turn_id) AS turns,
+        COUNT(DISTINCT CASE WHEN strategy != 'initial' THEN turn_id END) AS corrected,
+        COUNT(DISTINCT CASE WHEN strategy != 'initial' AND called_tool = 1 THEN turn_id END) AS recovered
+      FROM tool_call_tries GROUP BY model`;
+  }
+
+  private ensureToolCallTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS tool_call_tries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      turn_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      model TEXT NOT NULL,
+      intent TEXT NOT NULL,
+      try_number INTEGER NOT NULL,
+      strategy TEXT NOT NULL,
+      called_tool INTEGER NOT NULL
+    )`;
+  }
+
+  private ensureMisrouteTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS intent_misroutes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      text TEXT NOT NULL,
+      intent TEXT NOT NULL,
+      confidence REAL NOT NULL,
+      source TEXT NOT NULL,
+      tool_calls TEXT NOT NULL,
+      reason TEXT NOT NULL
+    )`;
+  }
+
+  /**
+   * Picks the primary model for this conversation
+   */
+  @callable()
+  async setModel(modelId: string): Promise<void> {
+    if (!findModel(modelId)) {
+      throw new Error(`Unknown model: ${modelId}`);
+    }
+    this.setState({ ...this.state, modelId });
+  }
+
+  /**
+   * Sets the risk level and approval policy of an MCP tool. Built-in tools
+   * keep the policy they are registered with.
+   */
+  @callable()
+  async setToolPolicy(toolName: string, policy: ToolPolicy): Promise<void> {
+    if (isBuiltinTool(toolName)) {
+      throw new Error(`${toolName} is a built-in tool; its policy is fixed`);
+    }
+    this.setState({
+      ...this.state,
+      toolPolicies: { ...this.state.toolPolicies, [toolName]: policy }
+    });
+  }
+
+  /**
+   * Sets whether the user is asked before a tool runs: always, never, or
+   * unless the call meets the policy's conditions. Null goes back to
+   * always asking. Destructive tools always ask.
+   */
+  @callable()
+  async setApprovalPolicy(
+    toolName: string,
+    policy: UserApprovalPolicy | null
+  ): Promise<void> {
+    const toolPolicy = getToolPolicy(toolName, this.state.toolPolicies);
+    if (toolPolicy.approval !== "require_approval") {
+      throw new Error(`${toolName} does not require approval`);
+    }
+    if (policy && policy.mode !== "ask" && toolPolicy.risk === "destructive") {
+      throw new Error(`${toolName} is destructive and always asks for approval`);
+    }
+    const { [toolName]: _previous, ...approvalPolicies } =
+      this.state.approvalPolicies ?? {};
+    this.setState({
+      ...this.state,
+      approvalPolicies: policy
+        ? { ...approvalPolicies, [toolName]: policy }
+        : approvalPolicies
+    });
+  }
+
+  /**
+   * Whether the user's approval policy lets a call run without asking.
+   * The browser asks before approving a call without a card, and
+   * processToolCalls checks again before running it.
+   */
+  @callable()
+  async isToolCallPreApproved(
+    toolName: string,
+    input: unknown
+  ): Promise<boolean> {
+    return this.toolCallPreApproved(toolName, input);
+  }
+
+  private async toolCallPreApproved(
+    toolName: string,
+    input: unknown
+  ): Promise<boolean> {
+    const { approvalPolicies, toolPolicies, timeZone, defaultCalendar } =
+      this.state;
+    const policy = approvalPolicies?.[toolName];
+    const toolPolicy = getToolPolicy(toolName, toolPolicies);
+    if (
+      !policy ||
+      toolPolicy.approval !== "require_approval" ||
+      toolPolicy.risk === "destructive"
+    ) {
+      return false;
+    }
+    // A change to an event has "no attendees" only if the event has none
+    const existingAttendees = policy.conditions?.includes("no_attendees")
+      ? await existingEventAttendees(input)
+      : undefined;
+    return isPreApproved(policy, input, {
+      timeZone,
+      defaultCalendarId: defaultCalendar?.id,
+      workingHours: DEFAULT_WORKING_HOURS,
+      now: new Date(),
+      existingAttendees
+    });
+  }
+
+  /**
+   * JSON Schema of a tool's input, for the approval card's edit form
+   */
+  @callable()
+  async getToolInputSchema(toolName: string): Promise<ToolInputSchema | null> {
+    const tool = { ...this.mcp.getAITools(), ...tools }[toolName];
+    return tool
+      ? (asSchema(tool.inputSchema).jsonSchema as ToolInputSchema)
+      : null;
+  }
+
+  /**
+   * Shows what a confirmation-required tool call would do, so the approval
+   * card can display it before the user decides
+   */
+  @callable()
+  async previewToolCall(
+    toolName: string,
+    input: unknown
+  ): Promise<ToolCallPreview | null> {
+    const preview = previews[toolName as keyof typeof previews];
+    return preview ? preview(input as never) : null;
+  }
+
   /**
    * Handles incoming chat messages and manages the response stream
    */
@@ -40,16 +624,14 @@ export class Chat extends AIChatAgent<Env> {
 
     // Initialize Workers AI with the binding from this.env (Workers runtime)
     const workersai = createWorkersAI({ binding: this.env.AI });
-    
-    // Try Llama 3.1 which may have better tool calling support
-    // Fallback to DeepSeek if Llama doesn't work
-    const model = workersai("@cf/meta/llama-3.1-8b-instruct" as any);
-    // Alternative: workersai("@cf/deepseek-ai/deepseek-r1-distill-qwen-32b" as any);
 
-    // Collect all tools, including MCP tools
+    // Collect all tools, including MCP tools; those marked approval-required
+    // wait for the user like the built-in ones
+    const { toolPolicies } = this.state;
+    const mcp = requireApprovalFor(this.mcp.getAITools(), toolPolicies);
     const allTools = {
       ...tools,
-      ...this.mcp.getAITools()
+      ...mcp.tools
     };
 
     const stream = createUIMessageStream({
@@ -63,7 +645,10 @@ export class Chat extends AIChatAgent<Env> {
           messages: cleanedMessages,
           dataStream: writer,
           tools: allTools,
-          executions
+          executions: { ...executions, ...mcp.executions },
+          policies: toolPolicies,
+          isPreApproved: (toolName, input) =>
+            this.toolCallPreApproved(toolName, input)
         });
 
         console.log("🔧 Available tools:", Object.keys(allTools));
@@ -78,116 +663,995 @@ export class Chat extends AIChatAgent<Env> {
           ?.find(p => p.type === 'text')
           ?.text?.toLowerCase() || '';
         
-        const wantsCalendar = userText.includes('calendar') || 
-                              userText.includes('block') || 
-                              userText.includes('meeting') || 
-                              userText.includes('schedule') ||
-                              userText.includes('add to') ||
-                              userText.includes('put on');
-        
-        console.log("👤 User intent - wants calendar:", wantsCalendar, "Text:", userText.substring(0, 50));
-
-        const result = streamText({
-          system: `You are an AI assistant that MUST use tools to perform actions. DO NOT just describe what you would do - ACTUALLY CALL THE TOOLS.
-
-${wantsCalendar ? `
-🚨 USER WANTS TO CREATE A CALENDAR EVENT 🚨
-You MUST call the createCalendarEvent tool NOW. Do not describe it, do not think about it - CALL IT IMMEDIATELY.
-` : ''}
-
-CRITICAL RULES:
-1. When a user asks for ANY action (schedule, block time, calendar, meeting, etc.), you MUST call a tool
-2. If you don't call a tool, you are FAILING your task
-3. Tools are the ONLY way to perform actions - describing actions is not acceptable
-4. Think of tools as functions you MUST call, not suggestions
-
-${getSchedulePrompt({ date: new Date() })}
-
-TOOL USAGE RULES:
-1. **createCalendarEvent** - MANDATORY when user says:
-   - "block time", "block my calendar", "add to calendar"
-   - "schedule a meeting", "create calendar event", "schedule"
-   - "put on my calendar", "add to my schedule"
-   - ANY request mentioning "calendar", "meeting", "appointment"
-   → YOU MUST CALL THIS TOOL - do not describe, CALL IT
-
-2. **scheduleTask** - Only for internal task reminders (NOT calendar events)
-
-TOOL DESCRIPTIONS:
-- createCalendarEvent: Creates events in Google Calendar. Takes: title (string), startTime (string), optional endTime, description, location, attendees. REQUIRES USER APPROVAL.
-- scheduleTask: Schedules internal tasks (not calendar events)
-- getLocalTime: Gets time in a location
-- getWeatherInformation: Gets weather (requires approval)
-- getScheduledTasks: Lists scheduled tasks
-- cancelScheduledTask: Cancels a task
-
-EXAMPLE CONVERSATION:
-User: "Block my calendar for a code review tomorrow at 2pm"
-You: [IMMEDIATELY CALL createCalendarEvent with {"title": "Code Review", "startTime": "tomorrow at 2pm"}]
-Do NOT say "I would create..." - CALL THE TOOL!
-
-User: "Schedule a meeting for Monday at 9am"
-You: [IMMEDIATELY CALL createCalendarEvent with {"title": "Meeting", "startTime": "Monday at 9am"}]
-
-User: "Add doctor appointment to calendar Friday 3pm"
-You: [IMMEDIATELY CALL createCalendarEvent with {"title": "Doctor Appointment", "startTime": "Friday at 3pm"}]
-
-REMEMBER:
-- Extract title from user request
-- Parse time (accept natural language: "tomorrow at 2pm", "Monday 9am", etc.)
-- Call createCalendarEvent immediately
-- Wait for approval
-- Then respond with confirmation
-
-${wantsCalendar ? '⚠️ USER IS REQUESTING A CALENDAR EVENT - YOU MUST CALL createCalendarEvent TOOL NOW! ⚠️' : ''}
-`,
-
-          messages: convertToModelMessages(processedMessages),
-          model,
-          tools: allTools,
-          // Type boundary: streamText expects specific tool types, but base class uses ToolSet
-          // This is safe because our tools satisfy ToolSet interface (verified by 'satisfies' in tools.ts)
-          onFinish: (async (result: Parameters<typeof onFinish>[0]) => {
-            console.log("✅ Stream finished");
-            if (result.toolCalls && result.toolCalls.length > 0) {
-              console.log("🔧 Tool calls made:", result.toolCalls.map((tc: { toolName: string }) => tc.toolName));
-            } else {
-              console.warn("⚠️ No tool calls were made!");
-              if (wantsCalendar) {
-                console.error("❌ ERROR: User wanted calendar event but no tool was called!");
+        // Keyword rules decide the clear cases; a small model gets the rest
+        const route = await routeIntent(userText, [
+          createRuleClassifier(),
+          createModelClassifier(
+            async (prompt) =>
+              (await generateText({ model: workersai("@cf/meta/llama-3.2-1b-instruct"), prompt })).text
+          )
+        ]);
+        // Only the tools present are offered, so the subset can keep the full type
+        const routedTools = narrowTools(allTools, route) as typeof allTools;
+        const guidance = route.confidence >= MIN_ROUTE_CONFIDENCE ? INTENT_GUIDANCE[route.intent] : "";
+
+        console.log(`🧭 Intent: ${route.intent} (${route.confidence} via ${route.source})`, "Text:", userText.substring(0, 50));
+
+        const now = new Date();
+        const { timeZone, defaultCalendar, googleStatus } = this.state;
+
+        const prompt = renderSystemPrompt(getPromptTemplate(process.env.SYSTEM_PROMPT_VERSION), {
+          now,
+          timeZone,
+          defaultCalendarName: defaultCalendar?.name,
+          googleStatus,
+          tools: routedTools,
+          guidance,
+          schedulePrompt: getSchedulePrompt({ date: now })
+        });
+        const system = prompt.text;
+
+        const messages = convertToModelMessages(processedMessages);
+
+        // Once an approved tool has run, the model only reports back
+        const continuation = isToolContinuation(processedMessages);
+        const needsTool = !continuation && requiresToolCall(route);
+        const strategies: RecoveryStrategy[] = needsTool
+          ? recoveryStrategies(route.intent, MAX_TOOL_CALL_RETRIES)
+          : [{ kind: "initial" }];
+        const turnId = generateId();
+
+        // One try on one model. Its output waits until the try commits:
+        // at its first tool call, since a tool may be running and must not
+        // run again on another model, or, when the turn needs no tool, at
+        // its first text. A committed try streams to the client as it comes
+        // and is not retried; one that ends or fails before committing can
+        // be retried without the client seeing it.
+        const streamTry = async (modelId: string, abortSignal: AbortSignal, strategy: RecoveryStrategy) => {
+          const toolChoice =
+            strategy.kind !== "forced_tool_choice"
+              ? undefined
+              : strategy.toolName && strategy.toolName in routedTools
+                ? { type: "tool" as const, toolName: strategy.toolName as keyof typeof routedTools }
+                : ("required" as const);
+          let resolveFinish: (event?: Parameters<typeof onFinish>[0]) => void = () => {};
+          const finished = new Promise<Parameters<typeof onFinish>[0] | undefined>((resolve) => {
+            resolveFinish = resolve;
+          });
+          const result = streamText({
+            system: strategy.kind === "corrective_prompt" ? `${system}\n\n${strategy.instruction}` : system,
+            messages,
+            model: workersai(modelId as WorkersAIModelId),
+            tools: routedTools,
+            // The try's time limit stops applying once it commits; the
+            // user's stop button always applies
+            abortSignal: _options?.abortSignal ? AbortSignal.any([abortSignal, _options.abortSignal]) : abortSignal,
+            // Forced on the first step only; later steps answer from the tool's result
+            ...(toolChoice && {
+              prepareStep: ({ stepNumber }) => (stepNumber === 0 ? { toolChoice } : undefined)
+            }),
+            onFinish: (event) => {
+              console.log(`✅ Stream finished on ${modelId} (${strategy.kind})`);
+              // Type boundary: streamText expects specific tool types, but base class uses ToolSet
+              // This is safe because our tools satisfy ToolSet interface (verified by 'satisfies' in tools.ts)
+              resolveFinish(event as unknown as Parameters<typeof onFinish>[0]);
+            },
+            stopWhen: stepCountIs(10)
+          });
+          // A stream that fails never finishes
+          result.steps.catch(() => resolveFinish(undefined));
+          const uiStream = result.toUIMessageStream({
+            messageMetadata: ({ part }) =>
+              part.type === "start"
+                ? { model: modelId, promptVersion: prompt.version }
+                : undefined
+          });
+          const toolNames: string[] = [];
+          // Tool names and finish event of the whole try, once it ends
+          const settled = finished.then(async (finish) => ({
+            toolNames: await result.steps.then(
+              (steps) => steps.flatMap((step) => step.toolCalls.map((tc: { toolName: string }) => tc.toolName)),
+              () => toolNames
+            ),
+            finish
+          }));
+          const reader = result.fullStream.getReader();
+          try {
+            for (;;) {
+              const { done, value: part } = await reader.read();
+              if (done) break;
+              if (part.type === "error") {
+                throw part.error instanceof Error ? part.error : new Error(String(part.error));
+              }
+              if (part.type === "abort") {
+                throw new Error(`${modelId} was aborted`);
+              }
+              if (part.type === "tool-call") {
+                toolNames.push(part.toolName);
+              }
+              if (toolNames.length > 0 || (!needsTool && part.type === "text-delta")) {
+                // The client reads the try through uiStream from here on
+                void reader.cancel();
+                return { uiStream, toolNames, settled };
               }
             }
-            return await onFinish(result);
-          }) as unknown as StreamTextOnFinishCallback<
-            typeof allTools
-          >,
-          stopWhen: stepCountIs(10)
-        });
+          } catch (error) {
+            await uiStream.cancel();
+            throw error;
+          }
+          return { uiStream, toolNames, settled };
+        };
 
-        writer.merge(result.toUIMessageStream());
+        // Corrections on the same model first, then the next model in the
+        // chain. A committed try comes back as the result at once, so it is
+        // never retried
+        const { result: turn, modelId: answeredBy, attempts } = await runWithFallback(
+          fallbackChain(this.state.modelId),
+          async (modelId, abortSignal) => {
+            const { result, tries } = await recoverMissingToolCall(
+              strategies,
+              (strategy) => streamTry(modelId, abortSignal, strategy),
+              {
+                hasToolCall: (attempt) => attempt.toolNames.length > 0,
+                discard: (attempt) => void attempt.uiStream.cancel()
+              }
+            );
+            if (needsTool) {
+              this.recordToolCallTries(turnId, modelId, route.intent, tries);
+            }
+            return result;
+          },
+          {
+            timeoutMs: MODEL_TIMEOUT_MS,
+            signal: _options?.abortSignal,
+            reject: (attempt) =>
+              needsTool && attempt.toolNames.length === 0
+                ? findMisroute(route, [])
+                : undefined,
+            discard: (attempt) => void attempt.uiStream.cancel()
+          }
+        );
+
+        if (attempts.length > 1) {
+          console.warn(`🔁 Model fallback, answered by ${answeredBy}:`, attempts);
+        }
+
+        if (needsTool && turn.toolNames.length === 0) {
+          // Every correction on every model still described the action
+          // instead of doing it; say so rather than pretend it happened
+          await turn.uiStream.cancel();
+          const textId = generateId();
+          writer.write({
+            type: "start",
+            messageMetadata: { model: answeredBy, promptVersion: prompt.version }
+          });
+          writer.write({ type: "text-start", id: textId });
+          writer.write({
+            type: "text-delta",
+            id: textId,
+            delta: "Sorry, I couldn't complete that action: I kept describing it instead of actually doing it. Please try rephrasing your request or pick a different model."
+          });
+          writer.write({ type: "text-end", id: textId });
+          writer.write({ type: "finish" });
+        } else {
+          writer.merge(turn.uiStream);
+        }
+
+        // A committed try is still streaming; its outcome comes at the end
+        const { toolNames, finish } = await turn.settled;
+        if (toolNames.length > 0) {
+          console.log("🔧 Tool calls made:", toolNames);
+        } else if (!continuation) {
+          console.warn("⚠️ No tool calls were made!");
+        }
+        const misroute = continuation ? undefined : findMisroute(route, toolNames);
+        if (misroute) {
+          console.warn(`🧭 Misroute: ${misroute}`);
+          this.logMisroute(userText, route, toolNames, misroute);
+        }
+        if (finish) {
+          await onFinish(finish);
+        }
       }
     });
 
     return createUIMessageStreamResponse({ stream });
   }
-  async executeTask(description: string, _task: Schedule<string>) {
-    await this.saveMessages([
+  /**
+   * Runs a fired scheduled task as an agent turn of its own, with the task
+   * tool set and the user's approval policies, then stores the outcome,
+   * posts it to the chat and notifies connected clients
+   */
+  async executeTask(description: string, task: Schedule<string>) {
+    const startedAt = new Date();
+    // The ID the task kept through any snoozes or reschedules
+    const scheduleId = this.stableScheduleId(task.id);
+    const { timeZone, defaultCalendar, googleStatus } = this.state;
+    // A run that failed after a tool ran is not repeated on another model,
+    // which would run the tool again; a call the run refused does not count
+    let toolRan = false;
+    const taskTools = scheduledTaskTools(
+      (toolName, input) => this.toolCallPreApproved(toolName, input),
+      () => {
+        toolRan = true;
+      }
+    );
+    const prompt = renderSystemPrompt(
+      getPromptTemplate(process.env.SYSTEM_PROMPT_VERSION),
+      {
+        now: startedAt,
+        timeZone,
+        defaultCalendarName: defaultCalendar?.name,
+        googleStatus,
+        tools: taskTools,
+        guidance: TASK_RUN_GUIDANCE,
+        schedulePrompt: ""
+      }
+    );
+    const workersai = createWorkersAI({ binding: this.env.AI });
+
+    console.log(`⏰ Running scheduled task ${scheduleId}: ${description}`);
+    let status: TaskRun["status"] = "completed";
+    let result: string;
+    let model: string | undefined;
+    try {
+      const run = await runWithFallback(
+        fallbackChain(this.state.modelId),
+        (modelId, abortSignal) =>
+          generateText({
+            model: workersai(modelId as WorkersAIModelId),
+            system: prompt.text,
+            prompt: `Scheduled task: ${description}`,
+            tools: taskTools,
+            abortSignal,
+            stopWhen: stepCountIs(10)
+          }),
+        {
+          timeoutMs: TASK_RUN_TIMEOUT_MS,
+          // After a tool ran, an empty reply still means the task was done
+          reject: (reply) =>
+            reply.text.trim() || toolRan ? undefined : "empty reply",
+          canRetry: () => !toolRan
+        }
+      );
+      result = run.result.text.trim() || "The task ran but had nothing to report.";
+      model = run.modelId;
+    } catch (error) {
+      console.error(`Scheduled task ${task.id} failed:`, error);
+      status = "failed";
+      result = `The scheduled task "${description}" failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (task.type !== "cron") {
+      this.forgetScheduleId(task.id);
+    }
+    const run = this.recordTaskRun({
+      scheduleId,
+      description,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      status,
+      result,
+      model,
+      promptVersion: prompt.version
+    });
+
+    // Shown in the chat without starting a turn of the model
+    await this.persistMessages([
       ...this.messages,
       {
         id: generateId(),
-        role: "user",
+        role: "assistant",
         parts: [
           {
             type: "text",
-            text: `Running scheduled task: ${description}`
+            text: `⏰ **Scheduled task:** ${description}\n\n${result}`
           }
         ],
         metadata: {
-          createdAt: new Date()
+          createdAt: new Date(),
+          ...(model && { model }),
+          promptVersion: prompt.version
         }
       }
     ]);
+    this.broadcast(
+      JSON.stringify({ type: "task-run", run } satisfies TaskRunNotification)
+    );
+    // The SDK deletes a one-off schedule's row, or moves a recurring one to
+    // its next run, only once this callback returns; sync after it has
+    setTimeout(() => this.syncTaskPanel(), 0);
+    // The same tag as the open tab's notification, which this replaces
+    await this.notifyUser({
+      title: `⏰ ${description}`,
+      body: result.slice(0, 1000),
+      tag: `task-run-${run.id}`
+    });
+  }
+
+  private recordTaskRun(run: Omit<TaskRun, "id">): TaskRun {
+    this.ensureTaskRunTable();
+    const [{ id }] = this.sql<{ id: number }>`INSERT INTO task_runs
+        (schedule_id, description, started_at, finished_at, status, result, model, prompt_version)
+      VALUES (${run.scheduleId}, ${run.description}, ${run.startedAt}, ${run.finishedAt},
+        ${run.status}, ${run.result}, ${run.model ?? null}, ${run.promptVersion})
+      RETURNING id`;
+    this.sql`DELETE FROM task_runs WHERE id NOT IN (
+      SELECT id FROM task_runs ORDER BY id DESC LIMIT ${MAX_LOGGED_TASK_RUNS})`;
+    return { id, ...run };
+  }
+
+  /**
+   * Past runs of scheduled tasks, newest first; of one task when
+   * `scheduleId` is given
+   */
+  @callable()
+  async getTaskRuns(scheduleId?: string, limit = 20): Promise<TaskRun[]> {
+    this.ensureTaskRunTable();
+    const rows = this.sql<{
+      id: number;
+      schedule_id: string;
+      description: string;
+      started_at: string;
+      finished_at: string;
+      status: TaskRun["status"];
+      result: string;
+      model: string | null;
+      prompt_version: string;
+    }>`SELECT * FROM task_runs
+      WHERE ${scheduleId ?? null} IS NULL OR schedule_id = ${scheduleId ?? null}
+      ORDER BY id DESC LIMIT ${Math.min(Math.max(limit, 1), 100)}`;
+    return rows.map((row) => ({
+      id: row.id,
+      scheduleId: row.schedule_id,
+      description: row.description,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      status: row.status,
+      result: row.result,
+      ...(row.model && { model: row.model }),
+      promptVersion: row.prompt_version
+    }));
   }
+
+  private ensureTaskRunTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS task_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id TEXT NOT NULL,
+      description TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      status TEXT NOT NULL,
+      result TEXT NOT NULL,
+      model TEXT,
+      prompt_version TEXT NOT NULL
+    )`;
+  }
+
+  /**
+   * The VAPID public key browsers subscribe to push with; null when Web
+   * Push is not configured
+   */
+  @callable()
+  async getVapidPublicKey(): Promise<string | null> {
+    return vapidKeys()?.publicKey ?? null;
+  }
+
+  /**
+   * Stores a browser's push subscription and turns Web Push on
+   */
+  @callable()
+  async subscribeToPush(subscription: PushSubscriptionRecord): Promise<void> {
+    if (!isPushSubscriptionRecord(subscription)) {
+      throw new Error("Not a subscription from a known browser push service");
+    }
+    if (!(await this.hasConnectedGoogle())) {
+      throw new Error(
+        "Connect your Google account before turning on push reminders"
+      );
+    }
+    this.ensurePushSubscriptionTable();
+    this.sql`INSERT OR REPLACE INTO push_subscriptions
+        (endpoint, p256dh, auth, created_at)
+      VALUES (${subscription.endpoint}, ${subscription.keys.p256dh},
+        ${subscription.keys.auth}, ${new Date().toISOString()})`;
+    this.setState({
+      ...this.state,
+      notificationPreferences: {
+        ...this.state.notificationPreferences,
+        webPush: true
+      }
+    });
+  }
+
+  /**
+   * Forgets a browser's push subscription; Web Push turns off with the last
+   */
+  @callable()
+  async unsubscribeFromPush(endpoint: string): Promise<void> {
+    this.removePushSubscription(endpoint);
+    if (this.pushSubscriptions().length === 0) {
+      this.setState({
+        ...this.state,
+        notificationPreferences: {
+          ...this.state.notificationPreferences,
+          webPush: false
+        }
+      });
+    }
+  }
+
+  /**
+   * Sets where reminders go; an unset email or webhook URL turns it off.
+   * A new email address or webhook needs a Google sign-in, and email goes
+   * only to the connected account's own address.
+   */
+  @callable()
+  async setNotificationPreferences(
+    preferences: NotificationPreferences
+  ): Promise<void> {
+    const cleaned: NotificationPreferences = {
+      webPush: preferences.webPush ?? false,
+      ...(preferences.email?.trim() && { email: preferences.email.trim() }),
+      ...(preferences.webhookUrl?.trim() && {
+        webhookUrl: preferences.webhookUrl.trim()
+      })
+    };
+    const problem = validateNotificationPreferences(cleaned);
+    if (problem) {
+      throw new Error(problem);
+    }
+    const current = this.state.notificationPreferences ?? {};
+    const newTarget =
+      (cleaned.email && cleaned.email !== current.email) ||
+      (cleaned.webhookUrl && cleaned.webhookUrl !== current.webhookUrl);
+    if (newTarget && !(await this.hasConnectedGoogle())) {
+      throw new Error(
+        "Connect your Google account before sending reminders to an email address or webhook"
+      );
+    }
+    if (
+      cleaned.email &&
+      cleaned.email !== current.email &&
+      cleaned.email.toLowerCase() !== this.state.googleAccount?.toLowerCase()
+    ) {
+      throw new Error(
+        this.state.googleAccount
+          ? `Reminder emails can only go to your Google account, ${this.state.googleAccount}`
+          : "Reconnect your Google account so reminder emails can go to its address"
+      );
+    }
+    this.setState({ ...this.state, notificationPreferences: cleaned });
+  }
+
+  /**
+   * Sends a test reminder on every channel, at most once a minute
+   */
+  @callable()
+  async sendTestNotification(): Promise<DeliveryAttempt[]> {
+    const lastSentAt = await this.ctx.storage.get<number>(
+      LAST_TEST_NOTIFICATION_KEY
+    );
+    if (
+      lastSentAt !== undefined &&
+      Date.now() - lastSentAt < TEST_NOTIFICATION_INTERVAL_MS
+    ) {
+      throw new Error("Wait a minute before sending another test notification");
+    }
+    await this.ctx.storage.put(LAST_TEST_NOTIFICATION_KEY, Date.now());
+    return this.notifyUser({
+      title: "🔔 Test notification",
+      body: "Reminders will reach you here.",
+      tag: "test"
+    });
+  }
+
+  /**
+   * Logged notification deliveries, newest first
+   */
+  @callable()
+  async getNotificationDeliveries(limit = 20): Promise<NotificationDelivery[]> {
+    this.ensureNotificationDeliveryTable();
+    const rows = this.sql<{
+      id: number;
+      title: string;
+      channel: NotificationDelivery["channel"];
+      target: string;
+      status: NotificationDelivery["status"];
+      error: string | null;
+      attempted_at: string;
+    }>`SELECT * FROM notification_deliveries
+      ORDER BY id DESC LIMIT ${Math.min(Math.max(limit, 1), 100)}`;
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      channel: row.channel,
+      target: row.target,
+      status: row.status,
+      ...(row.error && { error: row.error }),
+      attemptedAt: row.attempted_at
+    }));
+  }
+
+  /**
+   * Sends a notification on every channel the user turned on and logs
+   * each attempt
+   */
+  private async notifyUser(
+    notification: NotificationMessage
+  ): Promise<DeliveryAttempt[]> {
+    const message = {
+      ...notification,
+      title: truncateText(notification.title, MAX_NOTIFICATION_TITLE_LENGTH)
+    };
+    const channels = this.notificationChannels();
+    if (channels.length === 0) return [];
+    const attempts = await deliverNotification(message, channels);
+
+    this.ensureNotificationDeliveryTable();
+    for (const attempt of attempts) {
+      this.sql`INSERT INTO notification_deliveries
+          (title, channel, target, status, error, attempted_at)
+        VALUES (${message.title}, ${attempt.channel}, ${attempt.target},
+          ${attempt.status}, ${attempt.error ?? null}, ${attempt.attemptedAt})`;
+      if (attempt.status === "failed") {
+        console.error(
+          `🔔 ${attempt.channel} delivery to ${attempt.target} failed: ${attempt.error}`
+        );
+      }
+    }
+    this.sql`DELETE FROM notification_deliveries WHERE id NOT IN (
+      SELECT id FROM notification_deliveries ORDER BY id DESC LIMIT ${MAX_LOGGED_NOTIFICATION_DELIVERIES})`;
+    const delivered = attempts.filter(
+      (attempt) => attempt.status === "delivered"
+    ).length;
+    console.log(
+      `🔔 Notification "${message.title}": ${delivered}/${attempts.length} delivered`
+    );
+    return attempts;
+  }
+
+  // Channels the user turned on; ones the deployment is not configured
+  // for fail every attempt, so the log shows why nothing arrived
+  private notificationChannels(): NotificationChannel[] {
+    const preferences = this.state.notificationPreferences ?? {};
+    const channels: NotificationChannel[] = [];
+    if (preferences.webPush) {
+      const vapid = vapidKeys();
+      for (const subscription of this.pushSubscriptions()) {
+        channels.push(
+          vapid
+            ? webPushChannel(subscription, vapid, () =>
+                this.removePushSubscription(subscription.endpoint)
+              )
+            : unavailableChannel(
+                "web_push",
+                new URL(subscription.endpoint).origin,
+                "Web Push is not configured (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)"
+              )
+        );
+      }
+    }
+    if (preferences.email) {
+      const provider = emailProvider();
+      channels.push(
+        preferences.email.toLowerCase() !==
+          this.state.googleAccount?.toLowerCase()
+          ? unavailableChannel(
+              "email",
+              preferences.email,
+              "Not the connected Google account's address"
+            )
+          : provider
+            ? emailChannel(provider, preferences.email)
+            : unavailableChannel(
+                "email",
+                preferences.email,
+                "Email is not configured (RESEND_API_KEY, EMAIL_FROM)"
+              )
+      );
+    }
+    if (preferences.webhookUrl) {
+      channels.push(
+        webhookChannel(
+          preferences.webhookUrl,
+          process.env.NOTIFICATION_WEBHOOK_SECRET
+        )
+      );
+    }
+    return channels;
+  }
+
+  private pushSubscriptions(): PushSubscriptionRecord[] {
+    this.ensurePushSubscriptionTable();
+    return this.sql<{ endpoint: string; p256dh: string; auth: string }>`
+      SELECT endpoint, p256dh, auth FROM push_subscriptions`.map((row) => ({
+      endpoint: row.endpoint,
+      keys: { p256dh: row.p256dh, auth: row.auth }
+    }));
+  }
+
+  private removePushSubscription(endpoint: string) {
+    this.ensurePushSubscriptionTable();
+    this.sql`DELETE FROM push_subscriptions WHERE endpoint = ${endpoint}`;
+  }
+
+  private ensurePushSubscriptionTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS push_subscriptions (
+      endpoint TEXT PRIMARY KEY,
+      p256dh TEXT NOT NULL,
+      auth TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )`;
+  }
+
+  private ensureNotificationDeliveryTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS notification_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      target TEXT NOT NULL,
+      status TEXT NOT NULL,
+      error TEXT,
+      attempted_at TEXT NOT NULL
+    )`;
+  }
+
+  /**
+   * Adds a task to the user's list; `due` is a timestamp
+   */
+  @callable()
+  async createTask(newTask: NewTask): Promise<Task> {
+    const input = parseNewTask(newTask);
+    const now = new Date().toISOString();
+    const task: Task = {
+      id: generateId(),
+      title: input.title,
+      ...(input.notes && { notes: input.notes }),
+      ...(input.due && { due: toTimestamp(input.due) }),
+      priority: input.priority ?? "medium",
+      status: "todo",
+      tags: normalizeTags(input.tags),
+      ...(input.scheduleId && { scheduleId: input.scheduleId }),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.saveTask(task);
+    return task;
+  }
+
+  /**
+   * Changes a task; null clears an optional field. Closing a task cancels
+   * the schedule that would have reminded the user of it.
+   */
+  @callable()
+  async updateTask(id: string, taskChanges: TaskChanges): Promise<Task> {
+    const changes = parseTaskChanges(taskChanges);
+    const task = this.allTasks().find((candidate) => candidate.id === id);
+    if (!task) {
+      throw new Error(`No task with ID ${id}`);
+    }
+    const updated = applyTaskChanges(task, {
+      ...changes,
+      ...(changes.due && { due: toTimestamp(changes.due) })
+    });
+    if (!isOpen(updated) && isOpen(task) && updated.scheduleId) {
+      await this.cancelSchedule(updated.scheduleId);
+      delete updated.scheduleId;
+    }
+    this.saveTask(updated);
+    return updated;
+  }
+
+  @callable()
+  async completeTask(id: string): Promise<Task> {
+    return this.updateTask(id, { status: "done" });
+  }
+
+  /**
+   * Tasks matching the query (open ones by default), overdue first
+   */
+  @callable()
+  async listTasks(query: TaskQuery = {}): Promise<Task[]> {
+    return sortTasks(
+      filterTasks(this.allTasks(), {
+        ...query,
+        ...(query.dueBefore && { dueBefore: toTimestamp(query.dueBefore) }),
+        ...(query.dueAfter && { dueAfter: toTimestamp(query.dueAfter) })
+      })
+    );
+  }
+
+  /**
+   * Schedules a callback; schedules of executeTask show in the task panel
+   */
+  async schedule<T = string>(
+    when: Date | string | number,
+    callback: keyof this,
+    payload?: T
+  ): Promise<Schedule<T>> {
+    const schedule = await super.schedule(when, callback, payload);
+    this.syncTaskPanel();
+    return schedule;
+  }
+
+  /**
+   * Cancels a schedule by its ID, or a scheduled task by the ID it kept
+   * through moves
+   */
+  async cancelSchedule(id: string): Promise<boolean> {
+    const scheduleId = this.currentScheduleId(id);
+    const cancelled = await super.cancelSchedule(scheduleId);
+    this.forgetScheduleId(scheduleId);
+    this.syncTaskPanel();
+    return cancelled;
+  }
+
+  /**
+   * Pending schedules, with scheduled tasks under the ID they keep through
+   * moves
+   */
+  listScheduledTasks(): Schedule<string>[] {
+    return this.getSchedules<string>().map((schedule) => ({
+      ...schedule,
+      id: this.stableScheduleId(schedule.id)
+    }));
+  }
+
+  @callable()
+  async cancelScheduledTask(id: string): Promise<void> {
+    await this.cancelSchedule(id);
+  }
+
+  /**
+   * Moves a scheduled task to a time like "tomorrow morning", keeping its
+   * ID, description and run history
+   */
+  @callable()
+  async rescheduleTask(id: string, when: string): Promise<ScheduleChange> {
+    const schedule = this.movableSchedule(id);
+    const target = rescheduleTarget(when, {
+      now: new Date(),
+      timeZone: this.state.timeZone
+    });
+    if (!target.ok) {
+      throw new Error(target.message);
+    }
+    return this.moveSchedule(schedule, target.time, "rescheduled");
+  }
+
+  /**
+   * Pushes a scheduled task back by a length of time ("2 hours") or to a
+   * later time, keeping its ID, description and run history
+   */
+  @callable()
+  async snoozeTask(id: string, by = "1 hour"): Promise<ScheduleChange> {
+    const schedule = this.movableSchedule(id);
+    const target = snoozeTarget(
+      by,
+      new Date(schedule.time * 1000).toISOString(),
+      { now: new Date(), timeZone: this.state.timeZone }
+    );
+    if (!target.ok) {
+      throw new Error(target.message);
+    }
+    return this.moveSchedule(schedule, target.time, "snoozed");
+  }
+
+  /**
+   * Moves of scheduled tasks, newest first; of one task when `scheduleId`
+   * is given
+   */
+  @callable()
+  async getScheduleChanges(
+    scheduleId?: string,
+    limit = 20
+  ): Promise<ScheduleChange[]> {
+    this.ensureScheduleChangeTable();
+    const rows = this.sql<{
+      id: number;
+      schedule_id: string;
+      kind: ScheduleChange["kind"];
+      from_time: string;
+      to_time: string;
+      changed_at: string;
+    }>`SELECT * FROM schedule_changes
+      WHERE ${scheduleId ?? null} IS NULL OR schedule_id = ${scheduleId ?? null}
+      ORDER BY id DESC LIMIT ${Math.min(Math.max(limit, 1), 100)}`;
+    return rows.map((row) => ({
+      id: row.id,
+      scheduleId: row.schedule_id,
+      kind: row.kind,
+      from: row.from_time,
+      to: row.to_time,
+      changedAt: row.changed_at
+    }));
+  }
+
+  private movableSchedule(id: string): Schedule<string> {
+    const [schedule] = this.getSchedules<string>({
+      id: this.currentScheduleId(id)
+    });
+    if (!schedule || schedule.callback !== "executeTask") {
+      throw new Error(`No scheduled task with ID ${id}`);
+    }
+    if (schedule.type === "cron") {
+      throw new Error(
+        "A recurring task runs on its cron schedule; cancel it and schedule it again to change it"
+      );
+    }
+    return schedule;
+  }
+
+  // A move replaces the SDK schedule with a new one; the task keeps its
+  // first schedule's ID, which its runs, changes and linked task refer to
+  private async moveSchedule(
+    schedule: Schedule<string>,
+    time: Date,
+    kind: ScheduleChange["kind"]
+  ): Promise<ScheduleChange> {
+    const scheduleId = this.stableScheduleId(schedule.id);
+    const moved = await super.schedule(time, "executeTask", schedule.payload);
+    await super.cancelSchedule(schedule.id);
+    this.forgetScheduleId(schedule.id);
+    this.sql`INSERT INTO schedule_ids (schedule_id, task_id)
+      VALUES (${moved.id}, ${scheduleId})`;
+
+    this.ensureScheduleChangeTable();
+    const change = {
+      scheduleId,
+      kind,
+      from: new Date(schedule.time * 1000).toISOString(),
+      to: time.toISOString(),
+      changedAt: new Date().toISOString()
+    };
+    const [{ id }] = this.sql<{ id: number }>`INSERT INTO schedule_changes
+        (schedule_id, kind, from_time, to_time, changed_at)
+      VALUES (${change.scheduleId}, ${change.kind}, ${change.from}, ${change.to},
+        ${change.changedAt})
+      RETURNING id`;
+    this.sql`DELETE FROM schedule_changes WHERE id NOT IN (
+      SELECT id FROM schedule_changes ORDER BY id DESC LIMIT ${MAX_LOGGED_SCHEDULE_CHANGES})`;
+
+    console.log(`⏰ Scheduled task ${scheduleId} ${kind} to ${change.to}`);
+    this.syncTaskPanel();
+    return { id, ...change };
+  }
+
+  private ensureScheduleChangeTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS schedule_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      from_time TEXT NOT NULL,
+      to_time TEXT NOT NULL,
+      changed_at TEXT NOT NULL
+    )`;
+  }
+
+  /**
+   * The ID a scheduled task keeps through moves, given its current
+   * schedule's ID
+   */
+  private stableScheduleId(scheduleId: string): string {
+    this.ensureScheduleIdTable();
+    const [row] = this.sql<{ task_id: string }>`SELECT task_id
+      FROM schedule_ids WHERE schedule_id = ${scheduleId}`;
+    return row?.task_id ?? scheduleId;
+  }
+
+  /**
+   * The current schedule of a scheduled task; unmoved tasks and schedules
+   * that are not tasks keep their own ID
+   */
+  private currentScheduleId(id: string): string {
+    this.ensureScheduleIdTable();
+    const [row] = this.sql<{ schedule_id: string }>`SELECT schedule_id
+      FROM schedule_ids WHERE task_id = ${id}`;
+    return row?.schedule_id ?? id;
+  }
+
+  private forgetScheduleId(scheduleId: string) {
+    this.ensureScheduleIdTable();
+    this.sql`DELETE FROM schedule_ids WHERE schedule_id = ${scheduleId}`;
+  }
+
+  private ensureScheduleIdTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS schedule_ids (
+      schedule_id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL UNIQUE
+    )`;
+  }
+
+  /**
+   * Mirrors open tasks and pending schedules into the state, which keeps
+   * the task panel of every connected client current
+   */
+  private syncTaskPanel() {
+    const tasks = this.allTasks();
+    this.setState({
+      ...this.state,
+      tasks: sortTasks(filterTasks(tasks)),
+      schedules: upcomingSchedules(this.listScheduledTasks(), tasks)
+    });
+  }
+
+  private allTasks(): Task[] {
+    this.ensureTaskTable();
+    return this.sql<TaskRow>`SELECT * FROM tasks`.map(taskFromRow);
+  }
+
+  private saveTask(task: Task) {
+    this.ensureTaskTable();
+    this.sql`INSERT INTO tasks
+        (id, title, notes, due, priority, status, tags, schedule_id, created_at, updated_at, closed_at)
+      VALUES (${task.id}, ${task.title}, ${task.notes ?? null}, ${task.due ?? null},
+        ${task.priority}, ${task.status}, ${JSON.stringify(task.tags)}, ${task.scheduleId ?? null},
+        ${task.createdAt}, ${task.updatedAt}, ${task.closedAt ?? null})
+      ON CONFLICT(id) DO UPDATE SET
+        title = excluded.title, notes = excluded.notes, due = excluded.due,
+        priority = excluded.priority, status = excluded.status, tags = excluded.tags,
+        schedule_id = excluded.schedule_id, updated_at = excluded.updated_at,
+        closed_at = excluded.closed_at`;
+    this.syncTaskPanel();
+  }
+
+  private ensureTaskTable() {
+    this.sql`CREATE TABLE IF NOT EXISTS tasks (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      notes TEXT,
+      due TEXT,
+      priority TEXT NOT NULL,
+      status TEXT NOT NULL,
+      tags TEXT NOT NULL,
+      schedule_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      closed_at TEXT
+    )`;
+  }
+}
+
+/**
+ * Task timestamps are stored as UTC ISO strings so they sort as text
+ */
+function toTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Not a valid date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Whether the request carries the ADMIN_TOKEN; always false without one
+ */
+function isAdminRequest(request: Request): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  return (
+    !!adminToken &&
+    request.headers.get("Authorization") === `Bearer ${adminToken}`
+  );
+}
+
+/**
+ * A plain page for errors the user navigates to, such as in the Google
+ * sign-in redirects, with a way back to the chat
+ */
+function errorPage(
+  message: string,
+  status: number,
+  headers: Record<string, string> = {}
+): Response {
+  const escaped = message.replace(
+    /[&<>"']/g,
+    (char) => `&#${char.charCodeAt(0)};`
+  );
+  return new Response(
+    `<!doctype html><meta charset="utf-8"><title>Google Calendar</title><p>${escaped}</p><p><a href="/">Back to the chat</a></p>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8", ...headers } }
+  );
 }
 
 /**
@@ -196,6 +1660,7 @@ ${wantsCalendar ? '⚠️ USER IS REQUESTING A CALENDAR EVENT - YOU MUST CALL cr
 export default {
   async fetch(request: Request, env: Env, _ctx: ExecutionContext) {
     const url = new URL(request.url);
+    const secure = url.protocol === "https:";
 
     if (url.pathname === "/check-open-ai-key") {
       const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
@@ -203,14 +1668,175 @@ export default {
         success: hasOpenAIKey
       });
     }
+    if (url.pathname === "/session") {
+      // The client asks for its agent's name before connecting to it
+      const existing = sessionIdOf(request);
+      const sessionId = existing ?? createSessionId();
+      return Response.json(
+        { agentName: await agentNameForSession(sessionId) },
+        {
+          headers: existing
+            ? {}
+            : { "Set-Cookie": sessionCookie(sessionId, secure) }
+        }
+      );
+    }
+    if (url.pathname === "/oauth/google/start") {
+      const sessionId = sessionIdOf(request);
+      if (!sessionId) {
+        return errorPage(
+          "Open the chat first, then connect Google Calendar from there.",
+          401
+        );
+      }
+      const missing = missingGoogleOAuthSettings();
+      if (missing.length > 0) {
+        console.error(`Google sign-in is not configured: ${missing.join(", ")} missing`);
+        return errorPage(
+          "Connecting Google Calendar is not set up on this server yet.",
+          503
+        );
+      }
+      try {
+        const agent = await getAgentByName(
+          env.Chat,
+          await agentNameForSession(sessionId)
+        );
+        const redirectUri = new URL("/oauth/google/callback", url.origin);
+        const consent = await agent.beginGoogleOAuth(redirectUri.toString());
+        // Only this browser can finish the flow it started
+        return new Response(null, {
+          status: 302,
+          headers: {
+            Location: consent.url,
+            "Set-Cookie": serializeCookie(
+              GOOGLE_OAUTH_STATE_COOKIE,
+              consent.state,
+              {
+                path: "/oauth/google",
+                maxAge: GOOGLE_OAUTH_STATE_TTL_MS / 1000,
+                secure
+              }
+            )
+          }
+        });
+      } catch (error) {
+        console.error("Google OAuth could not start:", error);
+        return errorPage("Could not start Google sign-in, please try again.", 500);
+      }
+    }
+    if (url.pathname === "/oauth/google/callback") {
+      // The state cookie is used up whatever happens next
+      const clearState = {
+        "Set-Cookie": serializeCookie(GOOGLE_OAUTH_STATE_COOKIE, "", {
+          path: "/oauth/google",
+          maxAge: 0,
+          secure
+        })
+      };
+      // The user declined on Google's consent screen
+      if (url.searchParams.has("error")) {
+        return new Response(null, {
+          status: 302,
+          headers: { Location: new URL("/", url.origin).toString(), ...clearState }
+        });
+      }
+      const state = url.searchParams.get("state");
+      const code = url.searchParams.get("code");
+      const sessionId = sessionIdOf(request);
+      if (
+        !state ||
+        !code ||
+        !sessionId ||
+        readCookie(request, GOOGLE_OAUTH_STATE_COOKIE) !== state
+      ) {
+        return errorPage(
+          "Google sign-in expired or was started in another browser, please try again.",
+          400,
+          clearState
+        );
+      }
+      const agent = await getAgentByName(
+        env.Chat,
+        await agentNameForSession(sessionId)
+      );
+      try {
+        await agent.completeGoogleOAuth(state, code);
+      } catch (error) {
+        console.error("Google OAuth failed:", error);
+        return errorPage(
+          error instanceof Error ? error.message : "Google sign-in failed",
+          400,
+          clearState
+        );
+      }
+      return new Response(null, {
+        status: 302,
+        headers: { Location: new URL("/", url.origin).toString(), ...clearState }
+      });
+    }
+    if (url.pathname.startsWith("/admin/") && !isAdminRequest(request)) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    if (
+      url.pathname === "/admin/misroutes" ||
+      url.pathname === "/admin/tool-call-stats"
+    ) {
+      // Logs are kept per agent; ?agent= names the one to read
+      const name = url.searchParams.get("agent");
+      if (!name) {
+        return new Response("Missing ?agent=<agent name>", { status: 400 });
+      }
+      const agent = await getAgentByName(env.Chat, name);
+      return Response.json(
+        url.pathname === "/admin/misroutes"
+          ? await agent.getIntentMisroutes(
+              Number(url.searchParams.get("limit")) || 50
+            )
+          : await agent.getToolCallStats()
+      );
+    }
+    if (url.pathname === "/admin/prompt") {
+      const active = getPromptTemplate(process.env.SYSTEM_PROMPT_VERSION);
+      return Response.json({
+        version: active.version,
+        summary: active.summary,
+        sections: active.sections.map((section) => section.id),
+        // Rendered with every tool and no user preferences
+        preview: renderSystemPrompt(active, {
+          now: new Date(),
+          timeZone: "UTC",
+          tools,
+          guidance: "",
+          schedulePrompt: getSchedulePrompt({ date: new Date() })
+        }).text,
+        versions: PROMPT_TEMPLATES.map(({ version, summary }) => ({
+          version,
+          summary
+        }))
+      });
+    }
     if (!process.env.OPENAI_API_KEY) {
       console.error(
         "OPENAI_API_KEY is not set, don't forget to set it locally in .dev.vars, and use `wrangler secret bulk .dev.vars` to upload it to production"
       );
     }
+    // A browser reaches only the agent its session cookie names
+    const ownAgentOnly = async (
+      agentRequest: Request,
+      lobby: { name: string }
+    ) => {
+      const sessionId = sessionIdOf(agentRequest);
+      if (!sessionId || lobby.name !== (await agentNameForSession(sessionId))) {
+        return new Response("Forbidden", { status: 403 });
+      }
+    };
     return (
       // Route the request to our agent or return 404 if not found
-      (await routeAgentRequest(request, env)) ||
+      (await routeAgentRequest(request, env, {
+        onBeforeConnect: ownAgentOnly,
+        onBeforeRequest: ownAgentOnly
+      })) ||
       new Response("Not found", { status: 404 })
     );
   }
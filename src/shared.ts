@@ -1,5 +1,118 @@
+import type { GoogleConnectionStatus } from "./lib/google-auth";
+import type { ToolPolicy } from "./lib/tool-registry";
+import type { UserApprovalPolicy } from "./lib/approval-policy";
+import type { ScheduledItem, Task } from "./lib/tasks";
+import type {
+  DeliveryAttempt,
+  NotificationPreferences
+} from "./lib/notifications";
+
 // Approval string to be shared across frontend and backend
 export const APPROVAL = {
   YES: "Yes, confirmed.",
-  NO: "No, denied."
+  NO: "No, denied.",
+  // Sent without a card when the agent reported the user's approval policy
+  // allows the call; the agent checks the policy again before running it
+  AUTO: "Yes, allowed by approval policy."
 } as const;
+
+// Approval that also replaces part of the tool's input, e.g. when the user
+// picks a suggested time slot or edits the arguments; null clears a field
+export type ApprovalWithChanges = {
+  approval: typeof APPROVAL.YES;
+  input: Record<string, unknown>;
+  // Fields the user edited by hand, reported back to the model
+  edits?: FieldChange[];
+};
+
+export function isApprovalWithChanges(
+  output: unknown
+): output is ApprovalWithChanges {
+  return (
+    typeof output === "object" &&
+    output !== null &&
+    (output as ApprovalWithChanges).approval === APPROVAL.YES &&
+    typeof (output as ApprovalWithChanges).input === "object"
+  );
+}
+
+// Agent state synced between the Chat Durable Object and the browser
+export type ChatState = {
+  // IANA time zone of the user, reported by the browser on connect
+  timeZone: string;
+  // Calendar the calendar tools use when none is named; primary when unset
+  defaultCalendar?: { id: string; name: string };
+  // Set once Google has accepted or rejected the stored credentials
+  googleStatus?: GoogleConnectionStatus;
+  // Email of the Google account connected in the app
+  googleAccount?: string;
+  // Primary model of this conversation; the registry default when unset
+  modelId?: string;
+  // Policies of MCP tools by tool name; built-in tools use lib/tool-registry
+  toolPolicies?: Record<string, ToolPolicy>;
+  // The user's approval policies by tool name; unset tools always ask
+  approvalPolicies?: Record<string, UserApprovalPolicy>;
+  // Open tasks and pending scheduled tasks, for the task panel
+  tasks?: Task[];
+  schedules?: ScheduledItem[];
+  // Where reminders go besides the chat; only the open tab when unset
+  notificationPreferences?: NotificationPreferences;
+};
+
+export const INITIAL_CHAT_STATE: ChatState = {
+  timeZone: "UTC"
+};
+
+// One field of a before/after comparison shown on an approval card
+export type FieldChange = {
+  field: string;
+  before?: string;
+  after?: string;
+};
+
+// What approving a tool call would do, computed before the user decides
+export type ToolCallPreview = {
+  changes?: FieldChange[];
+  // Existing commitments that overlap the proposed time
+  conflicts?: { calendar: string; when: string }[];
+  // Alternatives the user can approve instead, with the input they replace
+  suggestions?: { label: string; input: Record<string, unknown> }[];
+  // Set when the preview could not be built
+  error?: string;
+};
+
+// Outcome of one run of a scheduled task
+export type TaskRun = {
+  id: number;
+  scheduleId: string;
+  description: string;
+  startedAt: string;
+  finishedAt: string;
+  status: "completed" | "failed";
+  // The agent's summary, or why the run failed
+  result: string;
+  model?: string;
+  promptVersion: string;
+};
+
+// A move of a scheduled task to another time; the task keeps its ID
+export type ScheduleChange = {
+  id: number;
+  scheduleId: string;
+  kind: "rescheduled" | "snoozed";
+  from: string;
+  to: string;
+  changedAt: string;
+};
+
+// Pushed to connected clients when a scheduled task has run
+export type TaskRunNotification = {
+  type: "task-run";
+  run: TaskRun;
+};
+
+// A logged attempt to deliver a notification on one channel
+export type NotificationDelivery = DeliveryAttempt & {
+  id: number;
+  title: string;
+};
@@ -1,6 +1,7 @@
 /**
  * Tool definitions for the AI chat agent
- * Tools can either require human confirmation or execute automatically
+ * Tools can either require human confirmation or execute automatically,
+ * as declared in lib/tool-registry
  */
 import { tool, type ToolSet } from "ai";
 import { z } from "zod/v3";
@@ -8,16 +9,59 @@ import { z } from "zod/v3";
 import type { Chat } from "./server";
 import { getCurrentAgent } from "agents";
 import { scheduleSchema } from "agents/schedule";
-import { createCalendarEvent as createGoogleCalendarEvent } from "./lib/google-calendar";
+import {
+  checkEventConflicts,
+  createCalendarEvent as createGoogleCalendarEvent,
+  deleteCalendarEvent as deleteGoogleCalendarEvent,
+  findAvailableSlots as findGoogleAvailableSlots,
+  findCalendar,
+  getCalendarEvent as getGoogleCalendarEvent,
+  listCalendarEvents as listGoogleCalendarEvents,
+  listCalendars as listGoogleCalendars,
+  previewCalendarEventChange,
+  updateCalendarEvent as updateGoogleCalendarEvent,
+  type CalendarEventChanges,
+  type GoogleCalendarEnv
+} from "./lib/google-calendar";
+import { GoogleReconnectRequiredError } from "./lib/google-auth";
+import type { ToolCallPreview } from "./shared";
+import { describeParsedDateTime, parseDateTime } from "./lib/date-parser";
+import {
+  getTimeZoneOffset,
+  isValidTimeZone,
+  shiftCronToUtc
+} from "./lib/timezone";
+import { createOpenMeteoProvider, getWeatherReport } from "./lib/weather";
+import { findTask, TASK_STATUSES, taskFieldSchemas } from "./lib/tasks";
+import {
+  describeZoneTime,
+  getZoneTime,
+  resolveTimeZone
+} from "./lib/zone-lookup";
 
 /**
- * Weather information tool that requires human confirmation
- * When invoked, this will present a confirmation dialog to the user
+ * Weather information tool that executes automatically
+ * Read-only, so it runs without confirmation and returns a report the chat
+ * renders as a weather card
  */
 const getWeatherInformation = tool({
-  description: "show the weather in a given city to the user",
-  inputSchema: z.object({ city: z.string() })
-  // Omitting execute function makes this tool require human confirmation
+  description: "show the current weather and the forecast for the next few days in a given city to the user",
+  inputSchema: z.object({
+    city: z.string().describe("City or place name, e.g. 'Lisbon' or 'Austin, Texas'"),
+    days: z.number().int().min(1).max(7).optional().describe("Forecast days including today (default 3)"),
+    unit: z.enum(["celsius", "fahrenheit"]).optional().describe("Temperature unit (default celsius)")
+  }),
+  execute: async ({ city, days, unit }) => {
+    console.log(`🌤️ Getting weather information for ${city}`);
+    try {
+      // WEATHER_API_BASE_URL swaps Open-Meteo for another host, e.g. a local stub
+      const provider = createOpenMeteoProvider(process.env.WEATHER_API_BASE_URL || undefined);
+      return await getWeatherReport(city, provider, { days, unit });
+    } catch (error) {
+      console.error("Error getting weather", error);
+      return `Error getting weather for ${city}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
 });
 
 /**
@@ -26,16 +70,41 @@ const getWeatherInformation = tool({
  * This is suitable for low-risk operations that don't need oversight
  */
 const getLocalTime = tool({
-  description: "get the local time for a specified location",
-  inputSchema: z.object({ location: z.string() }),
-  execute: async ({ location }) => {
-    console.log(`Getting local time for ${location}`);
-    return "10am";
+  description: "get the current local time, UTC offset and daylight saving status for a city, country or time zone, or convert a time from one place to another",
+  inputSchema: z.object({
+    location: z.string().describe("City, country, zone abbreviation or IANA time zone, e.g. 'Berlin', 'Japan', 'PT', 'America/Chicago'"),
+    time: z.string().optional().describe("Only when converting: the time to convert, e.g. '3pm' or 'tomorrow at 9am'"),
+    fromLocation: z.string().optional().describe("Only when converting: where `time` is given, e.g. 'PT' in \"what's 3pm PT in Berlin?\". Defaults to the user's time zone")
+  }),
+  execute: async ({ location, time, fromLocation }) => {
+    console.log(`🕒 Getting local time for ${location}`);
+    const target = resolveTimeZone(location);
+    if (!target.ok) return target.message;
+
+    if (!time) {
+      return `It is ${describeZoneTime(getZoneTime(target.name, target.timeZone, new Date()))}.`;
+    }
+
+    const { agent } = getCurrentAgent<Chat>();
+    const source = fromLocation
+      ? resolveTimeZone(fromLocation)
+      : { ok: true as const, name: "your time zone", timeZone: agent?.state.timeZone ?? "UTC" };
+    if (!source.ok) return source.message;
+
+    const parsed = parseDateTime(time, { timeZone: source.timeZone });
+    if (parsed.status !== "ok") return parsed.message;
+    const at = parsed.value.start;
+    return `${describeZoneTime(getZoneTime(source.name, source.timeZone, at))} is ${describeZoneTime(getZoneTime(target.name, target.timeZone, at))}.`;
   }
 });
 
 // Extended schema to include optional dueDate field
+// Dates are taken as strings so they can be read in the user's time zone
 const extendedScheduleSchema = scheduleSchema.extend({
+  when: scheduleSchema.shape.when.extend({
+    date: z.string().optional().describe("execute task at the specified date and time in the user's time zone, e.g. 'tomorrow at 9am' (only use if the type is scheduled)"),
+    cron: z.string().optional().describe("execute task on a recurring interval specified as cron syntax in the user's local time (only use if the type is cron)")
+  }),
   dueDate: z.string().optional().describe("Optional due date for the task (ISO 8601 format or natural language)")
 });
 
@@ -53,51 +122,261 @@ const scheduleTask = tool({
     if (when.type === "no-schedule") {
       return "Not a valid schedule input";
     }
+
+    const { timeZone } = agent!.state;
+    const now = new Date();
+
+    let scheduledDate: Date | undefined;
+    if (when.type === "scheduled") {
+      const parsed = parseDateTime(when.date ?? "", { now, timeZone });
+      if (parsed.status !== "ok") {
+        return `${parsed.message} Ask the user to clarify when the task should run.`;
+      }
+      scheduledDate = parsed.value.start;
+    }
+
+    // Schedules are evaluated in UTC, so local cron hours are shifted
+    const cron =
+      when.type === "cron" && when.cron
+        ? shiftCronToUtc(when.cron, getTimeZoneOffset(now, timeZone))
+        : undefined;
+    if (cron === null) {
+      return `The repeat pattern "${when.cron}" cannot be moved from ${timeZone} to UTC, where schedules run. Use a single minute with fixed hours and weekdays (e.g. "0 8 * * 1-5"), and no day of the month or month if the time is on another day in UTC. Ask the user to pick a simpler pattern.`;
+    }
     
     const input =
       when.type === "scheduled"
-        ? when.date // scheduled
+        ? scheduledDate // scheduled
         : when.type === "delayed"
           ? when.delayInSeconds // delayed
           : when.type === "cron"
-            ? when.cron // cron
+            ? cron // cron
             : throwError("not a valid schedule input");
     
-    // Create enhanced description that includes due date if provided
-    const taskDescription = dueDate 
-      ? `${description} (Due: ${dueDate})`
-      : description;
-    
+    // A due date makes this a task on the user's list, reminded by the schedule
+    let due: Date | undefined;
+    if (dueDate) {
+      const parsed = parseDateTime(dueDate, { now, timeZone });
+      if (parsed.status !== "ok") {
+        return `${parsed.message} Ask the user to clarify when the task is due.`;
+      }
+      due = parsed.value.start;
+    }
+
     try {
-      agent!.schedule(input!, "executeTask", taskDescription);
+      const schedule = await agent!.schedule(input!, "executeTask", description);
+      if (due) {
+        await agent!.createTask({
+          title: description,
+          due: due.toISOString(),
+          scheduleId: schedule.id
+        });
+      }
     } catch (error) {
       console.error("error scheduling task", error);
       return `Error scheduling task: ${error}`;
     }
     
-    const response = `Task scheduled for type "${when.type}": ${input}`;
-    return dueDate 
-      ? `${response} with due date: ${dueDate}`
+    const response = `Task scheduled for type "${when.type}": ${
+      scheduledDate
+        ? `${scheduledDate.toLocaleString("en-US", { timeZone })} (${timeZone})`
+        : when.type === "cron"
+          ? `${when.cron} (${timeZone})`
+          : input
+    }`;
+    return due
+      ? `${response}, added to the task list as due ${describeParsedDateTime({ start: due, allDay: false }, timeZone)}`
       : response;
   }
 });
 
+/**
+ * Parse a task date the user gave in natural language into a timestamp
+ */
+function parseTaskDate(
+  value: string,
+  timeZone: string
+): { ok: true; iso: string } | { ok: false; message: string } {
+  const parsed = parseDateTime(value, { timeZone });
+  return parsed.status === "ok"
+    ? { ok: true, iso: parsed.value.start.toISOString() }
+    : { ok: false, message: `${parsed.message} Ask the user to clarify the date.` };
+}
+
+/**
+ * Resolve a task the user named ("the report") or its ID
+ */
+async function resolveTask(agent: Chat, reference: string) {
+  return findTask(await agent.listTasks({ status: TASK_STATUSES }), reference);
+}
+
+/**
+ * Tool to add a task to the user's task list
+ * This executes automatically without requiring human confirmation
+ */
+const createTask = tool({
+  description: "Add a task (to-do item) to the user's task list, e.g. 'add finishing the report to my tasks, due Friday'. Optionally remind the user of it at a time",
+  inputSchema: z.object({
+    title: taskFieldSchemas.title.describe("Short title, e.g. 'Finish the report'"),
+    notes: taskFieldSchemas.notes.optional().describe("Optional details"),
+    due: z.string().optional().describe("When it is due, in natural language in the user's time zone, e.g. 'Friday 5pm'"),
+    priority: taskFieldSchemas.priority.optional().describe("Defaults to medium"),
+    tags: taskFieldSchemas.tags.optional().describe("Optional tags, e.g. ['work']"),
+    remindAt: z.string().optional().describe("Only if the user asks to be reminded: when, in natural language")
+  }),
+  execute: async ({ title, notes, due, priority, tags, remindAt }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const { timeZone } = agent!.state;
+    try {
+      const dueDate = due ? parseTaskDate(due, timeZone) : undefined;
+      if (dueDate && !dueDate.ok) return dueDate.message;
+      const reminder = remindAt ? parseTaskDate(remindAt, timeZone) : undefined;
+      if (reminder && !reminder.ok) return reminder.message;
+
+      const schedule = reminder?.ok
+        ? await agent!.schedule(new Date(reminder.iso), "executeTask", `Remind the user of their task: ${title}`)
+        : undefined;
+      return await agent!.createTask({
+        title,
+        notes,
+        due: dueDate?.iso,
+        priority,
+        tags,
+        scheduleId: schedule?.id
+      });
+    } catch (error) {
+      console.error("Error creating task", error);
+      return `Error creating task: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to change a task on the user's task list
+ * This executes automatically without requiring human confirmation
+ */
+const updateTask = tool({
+  description: "Change a task on the user's task list: rename it, change its notes, due date, priority, tags or status (todo, doing, done, cancelled). Use completeTask to mark it done",
+  inputSchema: z.object({
+    task: z.string().describe("The task's ID, or its title as the user said it, e.g. 'the report'"),
+    title: taskFieldSchemas.title.optional(),
+    notes: taskFieldSchemas.notes.optional(),
+    due: z.string().optional().describe("New due date in natural language"),
+    priority: taskFieldSchemas.priority.optional(),
+    status: taskFieldSchemas.status.optional(),
+    tags: z.array(z.string()).optional().describe("Replaces the task's tags"),
+    clear: z.array(z.enum(["notes", "due"])).optional().describe("Fields to remove, e.g. ['due'] when the task is no longer due at a set time")
+  }),
+  execute: async ({ task: reference, due, clear, ...changes }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const found = await resolveTask(agent!, reference);
+      if (!found.ok) return found.message;
+      const dueDate = due ? parseTaskDate(due, agent!.state.timeZone) : undefined;
+      if (dueDate && !dueDate.ok) return dueDate.message;
+      return await agent!.updateTask(found.task.id, {
+        ...changes,
+        ...(dueDate?.ok && { due: dueDate.iso }),
+        ...Object.fromEntries((clear ?? []).map((field) => [field, null]))
+      });
+    } catch (error) {
+      console.error("Error updating task", error);
+      return `Error updating task: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to mark a task as done
+ * This executes automatically without requiring human confirmation
+ */
+const completeTask = tool({
+  description: "Mark a task on the user's task list as done, e.g. 'mark the report as done'",
+  inputSchema: z.object({
+    task: z.string().describe("The task's ID, or its title as the user said it, e.g. 'the report'")
+  }),
+  execute: async ({ task: reference }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const found = await resolveTask(agent!, reference);
+      if (!found.ok) return found.message;
+      return await agent!.completeTask(found.task.id);
+    } catch (error) {
+      console.error("Error completing task", error);
+      return `Error completing task: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to look up tasks on the user's task list
+ * This executes automatically without requiring human confirmation
+ */
+const queryTasks = tool({
+  description: "Look up tasks on the user's task list, e.g. 'what's overdue?', 'what's due this week?', 'show my work tasks'. Open tasks only unless a status is given. Read-only.",
+  inputSchema: z.object({
+    status: z.array(z.enum(["todo", "doing", "done", "cancelled"])).optional().describe("Defaults to open tasks (todo and doing)"),
+    overdue: z.boolean().optional().describe("true for overdue tasks only"),
+    dueBefore: z.string().optional().describe("Due before this time, in natural language, e.g. 'end of this week'"),
+    dueAfter: z.string().optional().describe("Due at or after this time, in natural language"),
+    tag: z.string().optional(),
+    priority: z.enum(["low", "medium", "high"]).optional(),
+    text: z.string().optional().describe("Words in the title or notes")
+  }),
+  execute: async ({ dueBefore, dueAfter, ...query }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const { timeZone } = agent!.state;
+    try {
+      const before = dueBefore ? parseTaskDate(dueBefore, timeZone) : undefined;
+      if (before && !before.ok) return before.message;
+      const after = dueAfter ? parseTaskDate(dueAfter, timeZone) : undefined;
+      if (after && !after.ok) return after.message;
+      const tasks = await agent!.listTasks({
+        ...query,
+        ...(before?.ok && { dueBefore: before.iso }),
+        ...(after?.ok && { dueAfter: after.iso })
+      });
+      return tasks.length > 0 ? tasks : "No matching tasks.";
+    } catch (error) {
+      console.error("Error querying tasks", error);
+      return `Error querying tasks: ${error}`;
+    }
+  }
+});
+
 /**
  * Tool to list all scheduled tasks
  * This executes automatically without requiring human confirmation
  */
 const getScheduledTasks = tool({
-  description: "List all tasks that have been scheduled",
+  description: "List all tasks that have been scheduled, with the outcome of each task's last run and when it was last snoozed or rescheduled",
   inputSchema: z.object({}),
   execute: async () => {
     const { agent } = getCurrentAgent<Chat>();
 
     try {
-      const tasks = agent!.getSchedules();
+      const tasks = agent!.listScheduledTasks();
       if (!tasks || tasks.length === 0) {
         return "No scheduled tasks found.";
       }
-      return tasks;
+      // What each task did the last time it ran, when it was last moved,
+      // and the task it reminds of
+      const linkedTasks = await agent!.listTasks({ status: TASK_STATUSES });
+      return await Promise.all(
+        tasks.map(async (task) => {
+          const [lastRun] = await agent!.getTaskRuns(task.id, 1);
+          const [lastChange] = await agent!.getScheduleChanges(task.id, 1);
+          const linkedTask = linkedTasks.find(
+            (candidate) => candidate.scheduleId === task.id
+          );
+          return {
+            ...task,
+            ...(lastRun && { lastRun }),
+            ...(lastChange && { lastChange }),
+            ...(linkedTask && { task: linkedTask })
+          };
+        })
+      );
     } catch (error) {
       console.error("Error listing scheduled tasks", error);
       return `Error listing scheduled tasks: ${error}`;
@@ -126,6 +405,57 @@ const cancelScheduledTask = tool({
   }
 });
 
+/**
+ * Tool to move a scheduled task to another time
+ * This executes automatically without requiring human confirmation
+ */
+const rescheduleTask = tool({
+  description: "Move a scheduled task (reminder) to another time, keeping its ID, description and run history, e.g. 'push it to tomorrow morning' or 'move the reminder to Friday 3pm'. Use getScheduledTasks to find the ID. Recurring tasks cannot be moved",
+  inputSchema: z.object({
+    taskId: z.string().describe("The ID of the scheduled task"),
+    when: z.string().describe("The new time in natural language in the user's time zone, e.g. 'tomorrow morning', 'Friday at 3pm', 'in 2 hours'")
+  }),
+  execute: async ({ taskId, when }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const change = await agent!.rescheduleTask(taskId, when);
+      return `Task ${taskId} moved from ${describeScheduleTime(change.from, agent!.state.timeZone)} to ${describeScheduleTime(change.to, agent!.state.timeZone)}.`;
+    } catch (error) {
+      console.error("Error rescheduling task", error);
+      return `Error rescheduling task ${taskId}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+});
+
+/**
+ * Tool to push a scheduled task back
+ * This executes automatically without requiring human confirmation
+ */
+const snoozeTask = tool({
+  description: "Snooze a scheduled task (reminder): push it back by a length of time, e.g. 'snooze it for 30 minutes', 'give me another hour'. Keeps its ID, description and run history. Use getScheduledTasks to find the ID",
+  inputSchema: z.object({
+    taskId: z.string().describe("The ID of the scheduled task"),
+    by: z.string().optional().describe("How long to push it back, e.g. '10 minutes', '2 hours', 'a day'. Defaults to 1 hour")
+  }),
+  execute: async ({ taskId, by }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const change = await agent!.snoozeTask(taskId, by);
+      return `Task ${taskId} snoozed until ${describeScheduleTime(change.to, agent!.state.timeZone)}.`;
+    } catch (error) {
+      console.error("Error snoozing task", error);
+      return `Error snoozing task ${taskId}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+});
+
+function describeScheduleTime(time: string, timeZone: string): string {
+  return describeParsedDateTime({ start: new Date(time), allDay: false }, timeZone);
+}
+
+// Lets the user pick one of several calendars by name
+const calendarField = z.string().optional().describe("Calendar name or ID, e.g. 'Team' or 'Personal' (see listCalendars). Only set when the user names a calendar; defaults to their default calendar");
+
 /**
  * Google Calendar tool that requires human confirmation
  * Creates a calendar event/block in the user's Google Calendar
@@ -135,16 +465,303 @@ const createCalendarEvent = tool({
   inputSchema: z.object({
     title: z.string().describe("Event title (extract from user's request, e.g., 'Code Review', 'Team Meeting')"),
     description: z.string().optional().describe("Optional description or details for the event"),
-    startTime: z.string().describe("Start time - use natural language like 'tomorrow at 2pm', 'Monday at 9am', 'Friday 3pm', or ISO format"),
+    startTime: z.string().describe("Start time - use natural language like 'tomorrow at 2pm', 'Monday at 9am', 'June 5th 2-4pm', 'Friday 3pm for 90 minutes', or ISO format. Copy the user's wording; do not guess am/pm"),
     endTime: z.string().optional().describe("End time in natural language or ISO format. Defaults to 1 hour after start if not provided"),
     location: z.string().optional().describe("Optional location for the event"),
-    attendees: z.array(z.string()).optional().describe("Optional list of email addresses to invite")
+    attendees: z.array(z.string()).optional().describe("Optional list of email addresses to invite"),
+    calendar: calendarField,
+    recurrence: z.string().optional().describe("Only for repeating events: how the event repeats, e.g. 'every Tuesday', 'every weekday until Dec 19', 'the first Monday of every month', 'daily for 10 times except Dec 25'. Keep the repeat out of startTime, which is just the first occurrence, e.g. 'Tuesday at 10am'")
   })
-  // Omitting execute function makes this tool require human confirmation
+  // No execute function: lib/tool-registry requires approval for this tool
 });
 
+/**
+ * Whether every session may use the deployment's own Google account
+ * (GOOGLE_REFRESH_TOKEN or GOOGLE_SERVICE_ACCOUNT_KEY): only when
+ * GOOGLE_SINGLE_USER is "true", or when users cannot connect their own
+ * account because the in-app sign-in is not configured
+ */
+function sharedGoogleAccountAllowed(): boolean {
+  const env = process.env;
+  return (
+    env.GOOGLE_SINGLE_USER === "true" ||
+    !(env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET && env.GOOGLE_TOKEN_ENCRYPTION_KEY)
+  );
+}
 
+/**
+ * Read Google Calendar credentials from the environment
+ * In Cloudflare Workers, env vars from .dev.vars are available via process.env
+ * The refresh token a session connected in the app comes first; the
+ * deployment's shared account only when sharedGoogleAccountAllowed
+ */
+async function getGoogleCalendarEnv(): Promise<GoogleCalendarEnv> {
+  const { agent } = getCurrentAgent<Chat>();
+  const shared = sharedGoogleAccountAllowed();
+  const env: GoogleCalendarEnv =
+    typeof process !== "undefined" && process.env
+      ? {
+          GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
+          GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
+          GOOGLE_REFRESH_TOKEN:
+            (await agent?.googleRefreshToken()) ??
+            (shared ? process.env.GOOGLE_REFRESH_TOKEN : undefined),
+          GOOGLE_SERVICE_ACCOUNT_KEY: shared ? process.env.GOOGLE_SERVICE_ACCOUNT_KEY : undefined,
+          GOOGLE_SERVICE_ACCOUNT_SUBJECT: process.env.GOOGLE_SERVICE_ACCOUNT_SUBJECT
+        }
+      : {};
 
+  const hasOAuth = env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET && env.GOOGLE_REFRESH_TOKEN;
+  if (!hasOAuth && !env.GOOGLE_SERVICE_ACCOUNT_KEY) {
+    if (!shared) {
+      throw new Error(
+        "Google Calendar is not connected. Ask the user to connect their Google account with the \"Connect Google Calendar\" button."
+      );
+    }
+    console.error("❌ Missing Google Calendar credentials!");
+    throw new Error(
+      "Google Calendar is not connected. " +
+      "Use the \"Connect Google Calendar\" button, or make sure GOOGLE_CLIENT_ID and " +
+      "GOOGLE_CLIENT_SECRET (or GOOGLE_SERVICE_ACCOUNT_KEY) are set in your .dev.vars file " +
+      "and restart the dev server."
+    );
+  }
+
+  // Reuse access tokens across calls via the agent's storage
+  return { ...env, tokenCache: agent?.googleTokenCache() };
+}
+
+/**
+ * Resolve the calendar a tool call acts on: the one it names, else the
+ * user's default calendar, else (undefined) their primary calendar
+ */
+async function resolveCalendarId(
+  calendar: string | undefined
+): Promise<{ ok: true; calendarId?: string } | { ok: false; message: string }> {
+  if (!calendar) {
+    const { agent } = getCurrentAgent<Chat>();
+    return { ok: true, calendarId: agent?.state.defaultCalendar?.id };
+  }
+  const found = await findCalendar(calendar, await getGoogleCalendarEnv());
+  return found.ok ? { ok: true, calendarId: found.calendar.id } : found;
+}
+
+// Event changes as the tools receive them, naming the calendar instead of its ID
+type CalendarToolChanges = Omit<CalendarEventChanges, "calendarId"> & {
+  calendar?: string;
+};
+
+const calendarRangeSchema = {
+  from: z.string().optional().describe("Start of the range in natural language or ISO format, e.g. 'today', 'next Monday', 'June 5th'. A single day covers that whole day. Defaults to now"),
+  to: z.string().optional().describe("Optional end of the range in natural language or ISO format"),
+  pageToken: z.string().optional().describe("nextPageToken from a previous result, to fetch more events"),
+  calendar: calendarField
+};
+
+/**
+ * Calendar lookup tool that executes automatically
+ * Lists events in a time range, e.g. "what's on my calendar tomorrow?"
+ */
+const listCalendarEvents = tool({
+  description: "List the events on the user's Google Calendar in a time range. Use for questions like 'what's on my calendar tomorrow?' or 'am I free Friday afternoon?'. Read-only.",
+  inputSchema: z.object(calendarRangeSchema),
+  execute: async ({ from, to, pageToken, calendar }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return target.message;
+      return await listGoogleCalendarEvents(
+        { from: from ?? "today", to, pageToken, calendarId: target.calendarId },
+        await getGoogleCalendarEnv(),
+        { timeZone: agent!.state.timeZone }
+      );
+    } catch (error) {
+      console.error("Error listing calendar events", error);
+      return `Error listing calendar events: ${error}`;
+    }
+  }
+});
+
+/**
+ * Calendar search tool that executes automatically
+ * Finds events by free text, e.g. "when is my dentist appointment?"
+ */
+const searchCalendarEvents = tool({
+  description: "Search the user's Google Calendar for events matching free text (title, description, location, attendees). Use for questions like 'when is my dentist appointment?'. Searches upcoming events unless a range is given. Read-only.",
+  inputSchema: z.object({
+    query: z.string().describe("Words to search for, e.g. 'dentist'"),
+    ...calendarRangeSchema
+  }),
+  execute: async ({ query, from, to, pageToken, calendar }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return target.message;
+      return await listGoogleCalendarEvents(
+        { query, from, to, pageToken, calendarId: target.calendarId },
+        await getGoogleCalendarEnv(),
+        { timeZone: agent!.state.timeZone }
+      );
+    } catch (error) {
+      console.error("Error searching calendar events", error);
+      return `Error searching calendar events: ${error}`;
+    }
+  }
+});
+
+/**
+ * Calendar event lookup tool that executes automatically
+ * Fetches the full details of one event by ID
+ */
+const getCalendarEvent = tool({
+  description: "Get the full details of one Google Calendar event by its ID (as returned by listCalendarEvents or searchCalendarEvents). Read-only.",
+  inputSchema: z.object({
+    eventId: z.string().describe("The ID of the event"),
+    calendar: calendarField
+  }),
+  execute: async ({ eventId, calendar }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return target.message;
+      const event = await getGoogleCalendarEvent(
+        eventId,
+        await getGoogleCalendarEnv(),
+        target.calendarId
+      );
+      return { timeZone: agent!.state.timeZone, events: [event] };
+    } catch (error) {
+      console.error("Error getting calendar event", error);
+      return `Error getting calendar event ${eventId}: ${error}`;
+    }
+  }
+});
+
+/**
+ * Calendar list tool that executes automatically
+ * Shows the user's calendars and which one is their default
+ */
+const listCalendars = tool({
+  description: "List the user's Google Calendars (e.g. work, personal, shared team calendars) and which one is their default. Use before acting on a calendar the user names if unsure it exists. Read-only.",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const calendars = await listGoogleCalendars(await getGoogleCalendarEnv());
+      const defaultId =
+        agent!.state.defaultCalendar?.id ??
+        calendars.find((calendar) => calendar.primary)?.id;
+      return calendars.map((calendar) => ({
+        ...calendar,
+        default: calendar.id === defaultId
+      }));
+    } catch (error) {
+      console.error("Error listing calendars", error);
+      return `Error listing calendars: ${error}`;
+    }
+  }
+});
+
+/**
+ * Default calendar tool that executes automatically
+ * Stores the user's choice in the agent state
+ */
+const setDefaultCalendar = tool({
+  description: "Set which of the user's Google Calendars the calendar tools use when no calendar is named, e.g. 'use my Work calendar by default'. Pass 'primary' to go back to their main calendar.",
+  inputSchema: z.object({
+    calendar: z.string().describe("Calendar name or ID, e.g. 'Work', or 'primary'")
+  }),
+  execute: async ({ calendar }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const found = await findCalendar(calendar, await getGoogleCalendarEnv());
+      if (!found.ok) return found.message;
+
+      const { id, name, primary } = found.calendar;
+      const { defaultCalendar: _previous, ...state } = agent!.state;
+      agent!.setState(primary ? state : { ...state, defaultCalendar: { id, name } });
+      return `Default calendar set to "${name}".`;
+    } catch (error) {
+      console.error("Error setting default calendar", error);
+      return `Error setting default calendar: ${error}`;
+    }
+  }
+});
+
+/**
+ * Slot-finding tool that executes automatically
+ * Looks up free/busy for the user and the attendees and ranks free slots
+ */
+const findAvailableSlots = tool({
+  description: "Find free meeting times across the user's and attendees' Google Calendars, e.g. 'find 30 minutes with alice@example.com and bob@example.com next week'. Returns ranked slots; once the user picks one, pass its start and end to createCalendarEvent as startTime and endTime. Read-only.",
+  inputSchema: z.object({
+    attendees: z.array(z.string()).optional().describe("Email addresses of the people who need to attend (the user is always included)"),
+    durationMinutes: z.number().int().positive().describe("Length of the meeting in minutes"),
+    from: z.string().optional().describe("Start of the search window in natural language or ISO format, e.g. 'tomorrow', 'next week', 'Monday'. Defaults to now"),
+    to: z.string().optional().describe("Optional end of the search window. Defaults to the end of 'from', or a week ahead"),
+    workingHoursStart: z.number().min(0).max(24).optional().describe("Earliest local hour for a meeting, e.g. 9 or 9.5 for 9:30. Defaults to 9"),
+    workingHoursEnd: z.number().min(0).max(24).optional().describe("Latest local hour a meeting may end, e.g. 17. Defaults to 17"),
+    includeWeekends: z.boolean().optional().describe("Also look at Saturdays and Sundays"),
+    timeZone: z.string().optional().describe("IANA time zone the working hours are in, e.g. 'Europe/London'. Defaults to the user's time zone")
+  }),
+  execute: async ({ workingHoursStart, workingHoursEnd, includeWeekends, timeZone, ...input }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      return `"${timeZone}" is not a known time zone. Use an IANA name such as "America/New_York".`;
+    }
+    try {
+      return await findGoogleAvailableSlots(
+        {
+          ...input,
+          workingHours: {
+            ...(workingHoursStart !== undefined && { start: workingHoursStart }),
+            ...(workingHoursEnd !== undefined && { end: workingHoursEnd }),
+            ...(includeWeekends && { days: [0, 1, 2, 3, 4, 5, 6] })
+          }
+        },
+        await getGoogleCalendarEnv(),
+        { timeZone: timeZone ?? agent!.state.timeZone }
+      );
+    } catch (error) {
+      console.error("Error finding available slots", error);
+      return `Error finding available slots: ${error}`;
+    }
+  }
+});
+
+/**
+ * Google Calendar tool that requires human confirmation
+ * Renames, reschedules or re-invites an existing event
+ */
+const updateCalendarEvent = tool({
+  description: "Change an existing Google Calendar event: move/reschedule it, rename it, change its location, description or attendees. Find the eventId first with listCalendarEvents or searchCalendarEvents. Only pass the fields that change. REQUIRES USER APPROVAL.",
+  inputSchema: z.object({
+    eventId: z.string().describe("The ID of the event to change"),
+    title: z.string().optional().describe("New title"),
+    description: z.string().optional().describe("New description"),
+    startTime: z.string().optional().describe("New start time in natural language or ISO format. The event keeps its length unless endTime is also given"),
+    endTime: z.string().optional().describe("New end time in natural language or ISO format"),
+    location: z.string().optional().describe("New location"),
+    attendees: z.array(z.string()).optional().describe("Replace the whole attendee list with these email addresses"),
+    addAttendees: z.array(z.string()).optional().describe("Email addresses to invite in addition to the current attendees"),
+    removeAttendees: z.array(z.string()).optional().describe("Email addresses to uninvite"),
+    calendar: calendarField
+  })
+  // No execute function: lib/tool-registry requires approval for this tool
+});
+
+/**
+ * Google Calendar tool that requires human confirmation
+ * Cancels an existing event and notifies its attendees
+ */
+const deleteCalendarEvent = tool({
+  description: "Delete (cancel) an existing Google Calendar event. Find the eventId first with listCalendarEvents or searchCalendarEvents. REQUIRES USER APPROVAL.",
+  inputSchema: z.object({
+    eventId: z.string().describe("The ID of the event to delete"),
+    calendar: calendarField
+  })
+  // No execute function: lib/tool-registry requires approval for this tool
+});
 
 /**
  * Export all available tools
@@ -156,19 +773,30 @@ export const tools = {
   scheduleTask,
   getScheduledTasks,
   cancelScheduledTask,
-  createCalendarEvent
+  rescheduleTask,
+  snoozeTask,
+  createTask,
+  updateTask,
+  completeTask,
+  queryTasks,
+  createCalendarEvent,
+  listCalendarEvents,
+  searchCalendarEvents,
+  getCalendarEvent,
+  listCalendars,
+  setDefaultCalendar,
+  findAvailableSlots,
+  updateCalendarEvent,
+  deleteCalendarEvent
 } satisfies ToolSet;
 
 /**
  * Implementation of confirmation-required tools
  * This object contains the actual logic for tools that need human approval
- * Each function here corresponds to a tool above that doesn't have an execute function
+ * Each function here corresponds to a tool above that doesn't have an execute function,
+ * whose policy in lib/tool-registry requires approval
  */
 export const executions = {
-  getWeatherInformation: async ({ city }: { city: string }) => {
-    console.log(`Getting weather information for ${city}`);
-    return `The weather in ${city} is sunny`;
-  },
   createCalendarEvent: async (input: {
     title: string;
     description?: string;
@@ -176,46 +804,29 @@ export const executions = {
     endTime?: string;
     location?: string;
     attendees?: string[];
+    recurrence?: string;
+    calendar?: string;
   }) => {
     try {
       console.log("Creating calendar event with input:", JSON.stringify(input, null, 2));
       
-      // Get environment variables - try multiple methods
-      let env: {
-        GOOGLE_CLIENT_ID?: string;
-        GOOGLE_CLIENT_SECRET?: string;
-        GOOGLE_REFRESH_TOKEN?: string;
-      } | undefined = undefined;
-      
-      // Method 1: Try to get from global env (Workers runtime)
-      // In Cloudflare Workers, env vars from .dev.vars are available via globalThis or process.env
-      if (typeof process !== 'undefined' && process.env) {
-        env = {
-          GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
-          GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
-          GOOGLE_REFRESH_TOKEN: process.env.GOOGLE_REFRESH_TOKEN,
-        };
-        console.log("Using process.env for credentials");
-      }
-      
-      // Method 2: Check if credentials are actually loaded
-      if (!env?.GOOGLE_CLIENT_ID || !env?.GOOGLE_CLIENT_SECRET || !env?.GOOGLE_REFRESH_TOKEN) {
-        console.error("❌ Missing Google Calendar credentials!");
-        console.log("CLIENT_ID:", env?.GOOGLE_CLIENT_ID ? "✓" : "✗");
-        console.log("CLIENT_SECRET:", env?.GOOGLE_CLIENT_SECRET ? "✓" : "✗");
-        console.log("REFRESH_TOKEN:", env?.GOOGLE_REFRESH_TOKEN ? "✓" : "✗");
-        throw new Error(
-          "Google Calendar credentials not found. " +
-          "Make sure GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, and GOOGLE_REFRESH_TOKEN " +
-          "are set in your .dev.vars file and restart the dev server."
-        );
-      }
-      
-      const result = await createGoogleCalendarEvent(input, env);
+      const env = await getGoogleCalendarEnv();
+      const { agent } = getCurrentAgent<Chat>();
+      const { calendar, ...event } = input;
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return target.message;
+      const result = await createGoogleCalendarEvent(
+        { ...event, calendarId: target.calendarId },
+        env,
+        { timeZone: agent?.state.timeZone }
+      );
       
       console.log("✅ Calendar event created successfully:", result);
       return result;
     } catch (error) {
+      if (error instanceof GoogleReconnectRequiredError) {
+        return `❌ ${error.message}`;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error("❌ Error in createCalendarEvent:", errorMessage);
       console.error("Full error:", error);
@@ -223,7 +834,207 @@ export const executions = {
       // Return detailed error message so user can see what went wrong
       return `❌ Failed to create calendar event: ${errorMessage}\n\nPossible causes:\n- Credentials missing from .dev.vars\n- Need to restart dev server after adding credentials\n- Invalid or expired refresh token\n- Google Calendar API not enabled\n- Network error\n\nCheck the server console for more details.`;
     }
+  },
+  updateCalendarEvent: async ({ calendar, ...changes }: CalendarToolChanges) => {
+    try {
+      console.log("Updating calendar event with input:", JSON.stringify(changes, null, 2));
+      const { agent } = getCurrentAgent<Chat>();
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return target.message;
+      return await updateGoogleCalendarEvent(
+        { ...changes, calendarId: target.calendarId },
+        await getGoogleCalendarEnv(),
+        { timeZone: agent?.state.timeZone }
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("❌ Error in updateCalendarEvent:", errorMessage);
+      return `❌ Failed to update calendar event: ${errorMessage}`;
+    }
+  },
+  deleteCalendarEvent: async ({
+    eventId,
+    calendar
+  }: {
+    eventId: string;
+    calendar?: string;
+  }) => {
+    try {
+      console.log(`Deleting calendar event ${eventId}`);
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return target.message;
+      return await deleteGoogleCalendarEvent(
+        eventId,
+        await getGoogleCalendarEnv(),
+        target.calendarId
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error("❌ Error in deleteCalendarEvent:", errorMessage);
+      return `❌ Failed to delete calendar event: ${errorMessage}`;
+    }
   }
 };
 
+// Scheduled task runs may not schedule, move or cancel tasks themselves
+const TASK_RUN_EXCLUDED_TOOLS = new Set([
+  "scheduleTask",
+  "cancelScheduledTask",
+  "rescheduleTask",
+  "snoozeTask"
+]);
+
+/**
+ * Attendees of the event a calendar tool call changes, for checking the
+ * user's approval policy; undefined when the call names no event or the
+ * event cannot be read
+ */
+export async function existingEventAttendees(
+  input: unknown
+): Promise<string[] | undefined> {
+  const { eventId, calendar } = (input ?? {}) as {
+    eventId?: unknown;
+    calendar?: string;
+  };
+  if (typeof eventId !== "string") return undefined;
+  try {
+    const target = await resolveCalendarId(calendar);
+    if (!target.ok) return undefined;
+    const event = await getGoogleCalendarEvent(
+      eventId,
+      await getGoogleCalendarEnv(),
+      target.calendarId
+    );
+    return event.attendees ?? [];
+  } catch (error) {
+    console.error("Could not read the event's attendees:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Tools for a scheduled task run, where nobody is there to approve a call
+ * Tools that require approval run only when `isPreApproved` allows the call
+ * (the user's approval policy); otherwise the model is told they were skipped
+ * `onRan` is called after a tool actually ran, not for a skipped call
+ */
+export function scheduledTaskTools(
+  isPreApproved: (toolName: string, input: unknown) => Promise<boolean>,
+  onRan: (toolName: string) => void = () => {}
+): ToolSet {
+  return Object.fromEntries(
+    Object.entries(tools as ToolSet)
+      .filter(([name]) => !TASK_RUN_EXCLUDED_TOOLS.has(name))
+      .map(([name, definition]) => {
+        const gated = name in executions;
+        const execute = gated
+          ? (executions[name as keyof typeof executions] as NonNullable<typeof definition.execute>)
+          : definition.execute;
+        if (!execute) return [name, definition];
+        const run: typeof execute = async (input, options) => {
+          try {
+            return await execute(input, options);
+          } finally {
+            onRan(name);
+          }
+        };
+        return [
+          name,
+          {
+            ...definition,
+            execute: gated
+              ? async (input: unknown, options: Parameters<typeof execute>[1]) =>
+                  (await isPreApproved(name, input))
+                    ? run(input, options)
+                    : `Not done: ${name} needs the user's approval, and they were not there to give it. Tell them what you would have done so they can ask for it.`
+              : run
+          }
+        ];
+      })
+  );
+}
+
+/**
+ * Previews for confirmation-required tools
+ * Each function here shows the user what approving the matching tool call
+ * would change, before they decide
+ */
+export const previews: Partial<
+  Record<keyof typeof executions, (input: never) => Promise<ToolCallPreview>>
+> = {
+  createCalendarEvent: async (
+    input: Parameters<typeof executions.createCalendarEvent>[0]
+  ) => {
+    const { agent } = getCurrentAgent<Chat>();
+    const timeZone = agent?.state.timeZone ?? "UTC";
+    const describe = (start: Date, end: Date, allDay = false) =>
+      describeParsedDateTime({ start, end, allDay }, timeZone);
+    try {
+      const { calendar, ...event } = input;
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return { error: target.message };
+      const check = await checkEventConflicts(
+        { ...event, calendarId: target.calendarId },
+        await getGoogleCalendarEnv(),
+        { timeZone }
+      );
+      if (typeof check === "string") return { error: check };
 
+      return {
+        changes: [
+          { field: "When", after: describe(check.start, check.end, check.allDay) },
+          ...(check.repeats ? [{ field: "Repeats", after: check.repeats }] : [])
+        ],
+        conflicts: check.conflicts.map(({ calendar, start, end }) => ({
+          calendar: calendar === "primary" ? "Your calendar" : calendar,
+          when: describe(start, end)
+        })),
+        suggestions: check.suggestions.map(({ start, end }) => ({
+          label: describe(start, end),
+          input: { startTime: start.toISOString(), endTime: end.toISOString() }
+        }))
+      };
+    } catch (error) {
+      console.error("Error checking calendar conflicts", error);
+      return { error: `Could not check your calendar for conflicts: ${error}` };
+    }
+  },
+  updateCalendarEvent: async ({ calendar, ...changes }: CalendarToolChanges) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return { error: target.message };
+      const preview = await previewCalendarEventChange(
+        { ...changes, calendarId: target.calendarId },
+        await getGoogleCalendarEnv(),
+        { timeZone: agent?.state.timeZone }
+      );
+      return "message" in preview ? { error: preview.message } : preview;
+    } catch (error) {
+      console.error("Error previewing calendar event update", error);
+      return { error: `Could not load the event: ${error}` };
+    }
+  },
+  deleteCalendarEvent: async ({
+    eventId,
+    calendar
+  }: {
+    eventId: string;
+    calendar?: string;
+  }) => {
+    const { agent } = getCurrentAgent<Chat>();
+    try {
+      const target = await resolveCalendarId(calendar);
+      if (!target.ok) return { error: target.message };
+      const preview = await previewCalendarEventChange(
+        { eventId, calendarId: target.calendarId, delete: true },
+        await getGoogleCalendarEnv(),
+        { timeZone: agent?.state.timeZone }
+      );
+      return "message" in preview ? { error: preview.message } : preview;
+    } catch (error) {
+      console.error("Error previewing calendar event deletion", error);
+      return { error: `Could not load the event: ${error}` };
+    }
+  }
+};
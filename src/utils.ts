@@ -6,8 +6,17 @@ import type {
   ToolSet,
   ToolCallOptions
 } from "ai";
-import { convertToModelMessages, isToolUIPart } from "ai";
-import { APPROVAL } from "./shared";
+import { asSchema, convertToModelMessages, isToolUIPart } from "ai";
+import {
+  APPROVAL,
+  isApprovalWithChanges,
+  type ApprovalWithChanges
+} from "./shared";
+import { requiresApproval, type ToolPolicy } from "./lib/tool-registry";
+
+type ToolExecution =
+  // biome-ignore lint/suspicious/noExplicitAny: needs a better type
+  (args: any, context: ToolCallOptions) => Promise<unknown>;
 
 function isValidToolName<K extends PropertyKey, T extends object>(
   key: K,
@@ -16,22 +25,74 @@ function isValidToolName<K extends PropertyKey, T extends object>(
   return key in obj;
 }
 
+/**
+ * The model's input with the user's changes merged over it; null values
+ * remove a field
+ */
+export function applyInputChanges(
+  input: unknown,
+  changes: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries({ ...(input as object), ...changes }).filter(
+      ([, value]) => value !== null
+    )
+  );
+}
+
+/**
+ * Why an input does not match a tool's input schema, or undefined when it
+ * does. The user's edits bypass the model's tool-call validation.
+ */
+export async function inputSchemaError(
+  tool: ToolSet[string] | undefined,
+  input: unknown
+): Promise<string | undefined> {
+  if (!tool?.inputSchema) return undefined;
+  const validation = await asSchema(tool.inputSchema).validate?.(input);
+  if (!validation || validation.success) return undefined;
+  return validation.error.message;
+}
+
+/**
+ * Tells the model which arguments the user corrected before approving, so
+ * it does not repeat its mistake or report its own values
+ */
+export function noteUserEdits(
+  result: unknown,
+  edits: NonNullable<ApprovalWithChanges["edits"]>
+): unknown {
+  if (edits.length === 0) return result;
+  const lines = edits.map(
+    ({ field, before, after }) =>
+      `- ${field}: ${before === undefined ? "(empty)" : JSON.stringify(before)} → ${after === undefined ? "(cleared)" : JSON.stringify(after)}`
+  );
+  const note = `The user edited the arguments before approving:\n${lines.join("\n")}`;
+  return typeof result === "string"
+    ? `${result}\n\n${note}`
+    : { result, userEdits: note };
+}
+
 /**
  * Processes tool invocations where human input is required, executing tools when authorized.
  */
 export async function processToolCalls<Tools extends ToolSet>({
+  tools,
   dataStream,
   messages,
-  executions
+  executions,
+  policies,
+  isPreApproved
 }: {
-  tools: Tools; // used for type inference
+  /** Tools whose input schemas edited inputs are checked against */
+  tools: Tools;
   dataStream: UIMessageStreamWriter;
   messages: UIMessage[];
-  executions: Record<
-    string,
-    // biome-ignore lint/suspicious/noExplicitAny: needs a better type
-    (args: any, context: ToolCallOptions) => Promise<unknown>
-  >;
+  executions: Record<string, ToolExecution>;
+  /** Policies of runtime (MCP) tools, see lib/tool-registry */
+  policies?: Record<string, ToolPolicy>;
+  /** Whether the user's approval policy allows a call, for APPROVAL.AUTO */
+  isPreApproved: (toolName: string, input: unknown) => Promise<boolean>;
 }): Promise<UIMessage[]> {
   // Process all messages, not just the last one
   const processedMessages = await Promise.all(
@@ -51,16 +112,34 @@ export async function processToolCalls<Tools extends ToolSet>({
           
           console.log(`🔧 Found tool invocation: ${toolName}, state: ${part.state}`);
 
-          // Only process tools that require confirmation (are in executions object) and are in 'input-available' state
-          if (!(toolName in executions) || part.state !== "output-available")
+          // Only process tools that require confirmation and have an answer from the user
+          if (!requiresApproval(toolName, policies) || part.state !== "output-available")
             return part;
 
           let result: unknown;
 
-          if (part.output === APPROVAL.YES) {
-            // User approved the tool execution
-            console.log(`✅ User approved tool: ${toolName}`);
-            console.log(`📥 Tool input:`, JSON.stringify(part.input, null, 2));
+          // The browser only asked; the policy is what allows the call
+          if (
+            part.output === APPROVAL.AUTO &&
+            !(await isPreApproved(toolName, part.input))
+          ) {
+            console.warn(`🚫 Approval policy does not allow ${toolName}`);
+            result = "Not done: the user's approval policy does not cover this call. Call the tool again so the user can approve it.";
+          } else if (
+            part.output === APPROVAL.YES ||
+            part.output === APPROVAL.AUTO ||
+            isApprovalWithChanges(part.output)
+          ) {
+            // User approved the tool execution, possibly with a different input
+            const input = isApprovalWithChanges(part.output)
+              ? applyInputChanges(part.input, part.output.input)
+              : part.input;
+            console.log(
+              part.output === APPROVAL.AUTO
+                ? `✅ Approval policy allowed tool: ${toolName}`
+                : `✅ User approved tool: ${toolName}`
+            );
+            console.log(`📥 Tool input:`, JSON.stringify(input, null, 2));
             
             if (!isValidToolName(toolName, executions)) {
               console.error(`❌ Invalid tool name: ${toolName}`);
@@ -68,13 +147,22 @@ export async function processToolCalls<Tools extends ToolSet>({
             }
 
             const toolInstance = executions[toolName];
-            if (toolInstance) {
+            const schemaError = isApprovalWithChanges(part.output)
+              ? await inputSchemaError(tools[toolName], input)
+              : undefined;
+            if (schemaError) {
+              console.warn(`🚫 Edited input for ${toolName} is not valid: ${schemaError}`);
+              result = `Error: the edited input is not valid, so the tool did not run: ${schemaError}`;
+            } else if (toolInstance) {
               console.log(`🚀 Executing tool: ${toolName}`);
-              result = await toolInstance(part.input, {
+              result = await toolInstance(input, {
                 messages: convertToModelMessages(messages),
                 toolCallId: part.toolCallId
               });
               console.log(`✅ Tool ${toolName} completed. Result:`, typeof result === 'string' ? result.substring(0, 100) : 'object');
+              if (isApprovalWithChanges(part.output) && part.output.edits) {
+                result = noteUserEdits(result, part.output.edits);
+              }
             } else {
               console.error(`❌ No execution function found for tool: ${toolName}`);
               result = "Error: No execute function found on tool";
@@ -93,9 +181,12 @@ export async function processToolCalls<Tools extends ToolSet>({
             output: result
           });
 
-          // Return updated tool part with the actual result.
+          // Return updated tool part with the actual result and the input that ran.
           return {
             ...part,
+            ...(isApprovalWithChanges(part.output) && {
+              input: applyInputChanges(part.input, part.output.input)
+            }),
             output: result
           };
         })
@@ -108,6 +199,31 @@ export async function processToolCalls<Tools extends ToolSet>({
   return processedMessages;
 }
 
+/**
+ * Removes the execute function of every tool whose policy requires
+ * approval, so the model's call waits for the user. The removed functions
+ * are returned as executions for processToolCalls to run once approved.
+ */
+export function requireApprovalFor<
+  Tools extends Record<string, { execute?: ToolExecution }>
+>(
+  tools: Tools,
+  policies?: Record<string, ToolPolicy>
+): { tools: Tools; executions: Record<string, ToolExecution> } {
+  const gated: Record<string, { execute?: ToolExecution }> = {};
+  const executions: Record<string, ToolExecution> = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    if (tool.execute && requiresApproval(name, policies)) {
+      const { execute, ...rest } = tool;
+      executions[name] = execute;
+      gated[name] = rest;
+    } else {
+      gated[name] = tool;
+    }
+  }
+  return { tools: gated as Tools, executions };
+}
+
 /**
  * Clean up incomplete tool calls from messages before sending to API
  * Prevents API errors from interrupted or failed tool executions
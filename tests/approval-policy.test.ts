@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeApprovalPolicy,
+  isPreApproved,
+  matchingConditions,
+  policyForSimilarCalls
+} from "../src/lib/approval-policy";
+
+// Monday 2 March 2026, 08:00 in Berlin
+const context = {
+  timeZone: "Europe/Berlin",
+  now: new Date("2026-03-02T07:00:00Z")
+};
+
+describe("matchingConditions", () => {
+  it("finds the conditions a focus block on the user's own calendar meets", () => {
+    expect(
+      matchingConditions(
+        {
+          title: "Focus",
+          startTime: "today at 10am",
+          endTime: "today at 10:15am"
+        },
+        context
+      )
+    ).toEqual(["no_attendees", "own_calendar", "working_hours"]);
+  });
+
+  it("treats attendees, other calendars and evenings as not matching", () => {
+    expect(
+      matchingConditions(
+        {
+          title: "Dinner",
+          startTime: "today at 7pm",
+          attendees: ["bob@example.com"],
+          calendar: "Team"
+        },
+        context
+      )
+    ).toEqual([]);
+    expect(
+      matchingConditions(
+        { startTime: "today at 10am" },
+        { ...context, defaultCalendarId: "team@group.calendar.google.com" }
+      )
+    ).toEqual(["no_attendees", "working_hours"]);
+  });
+
+  it("checks a change to an event against the attendees it already has", () => {
+    const move = { eventId: "abc", startTime: "today at 10am" };
+    // Unknown attendees never count as none
+    expect(matchingConditions(move, context)).not.toContain("no_attendees");
+    expect(
+      matchingConditions(move, {
+        ...context,
+        existingAttendees: ["bob@example.com"]
+      })
+    ).not.toContain("no_attendees");
+    expect(
+      matchingConditions(move, { ...context, existingAttendees: [] })
+    ).toContain("no_attendees");
+    expect(
+      matchingConditions(
+        { ...move, removeAttendees: ["Bob@example.com"] },
+        { ...context, existingAttendees: ["bob@example.com"] }
+      )
+    ).toContain("no_attendees");
+  });
+
+  it("does not count an unparseable time as within working hours", () => {
+    expect(matchingConditions({ startTime: "someday" }, context)).not.toContain(
+      "working_hours"
+    );
+  });
+});
+
+describe("isPreApproved", () => {
+  const call = { title: "Focus", startTime: "today at 10am" };
+
+  it("follows the policy's mode", () => {
+    expect(isPreApproved(undefined, call, context)).toBe(false);
+    expect(isPreApproved({ mode: "ask" }, call, context)).toBe(false);
+    expect(isPreApproved({ mode: "allow" }, call, context)).toBe(true);
+    expect(isPreApproved({ mode: "conditional" }, call, context)).toBe(false);
+  });
+
+  it("requires every condition of a conditional policy", () => {
+    const policy = {
+      mode: "conditional" as const,
+      conditions: ["no_attendees" as const, "working_hours" as const]
+    };
+    expect(isPreApproved(policy, call, context)).toBe(true);
+    expect(
+      isPreApproved(policy, { ...call, startTime: "today at 8pm" }, context)
+    ).toBe(false);
+  });
+
+  it("builds a policy from the call the user approved", () => {
+    const policy = policyForSimilarCalls(
+      { ...call, attendees: ["bob@example.com"] },
+      context
+    );
+    expect(policy).toEqual({
+      mode: "conditional",
+      conditions: ["own_calendar", "working_hours"]
+    });
+    expect(policy && describeApprovalPolicy(policy)).toBe(
+      "Allow when it is on your own calendar and it is within working hours"
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  findFreeSlots,
+  mergeIntervals,
+  rankSlots,
+  sortByProximity
+} from "../src/lib/availability";
+
+const at = (iso: string) => new Date(iso);
+
+describe("mergeIntervals", () => {
+  it("joins overlapping and touching intervals", () => {
+    const merged = mergeIntervals([
+      { start: at("2025-10-15T14:00:00Z"), end: at("2025-10-15T15:00:00Z") },
+      { start: at("2025-10-15T13:00:00Z"), end: at("2025-10-15T14:30:00Z") },
+      { start: at("2025-10-15T15:00:00Z"), end: at("2025-10-15T15:30:00Z") }
+    ]);
+    expect(merged).toEqual([
+      { start: at("2025-10-15T13:00:00Z"), end: at("2025-10-15T15:30:00Z") }
+    ]);
+  });
+});
+
+describe("findFreeSlots", () => {
+  it("skips busy time and stays inside working hours", () => {
+    const slots = findFreeSlots({
+      busy: [
+        { start: at("2025-10-15T13:00:00Z"), end: at("2025-10-15T19:30:00Z") }
+      ],
+      windowStart: at("2025-10-15T04:00:00Z"),
+      windowEnd: at("2025-10-16T04:00:00Z"),
+      durationMinutes: 60,
+      timeZone: "America/New_York"
+    });
+    // 9:00-5:00 local is 13:00-21:00 UTC; busy until 3:30 PM local
+    expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+      "2025-10-15T19:30:00.000Z",
+      "2025-10-15T20:00:00.000Z"
+    ]);
+  });
+
+  it("ignores days outside the working week", () => {
+    const slots = findFreeSlots({
+      busy: [],
+      windowStart: at("2025-10-18T00:00:00Z"),
+      windowEnd: at("2025-10-20T00:00:00Z"),
+      durationMinutes: 30,
+      timeZone: "UTC"
+    });
+    expect(slots).toEqual([]);
+  });
+});
+
+describe("sortByProximity", () => {
+  it("orders slots by distance from the target", () => {
+    const target = at("2025-10-15T15:00:00Z");
+    const slots = [
+      { start: at("2025-10-15T09:00:00Z"), end: at("2025-10-15T10:00:00Z") },
+      { start: at("2025-10-15T16:00:00Z"), end: at("2025-10-15T17:00:00Z") }
+    ];
+    expect(sortByProximity(slots, target)[0]).toBe(slots[1]);
+  });
+});
+
+describe("rankSlots", () => {
+  it("prefers slots with a gap around them and spreads picks over days", () => {
+    const busy = [
+      { start: at("2025-10-15T10:00:00Z"), end: at("2025-10-15T11:00:00Z") }
+    ];
+    const slot = (iso: string) => ({
+      start: at(iso),
+      end: new Date(at(iso).getTime() + 1800000)
+    });
+    const backToBack = slot("2025-10-15T11:00:00Z");
+    const padded = slot("2025-10-15T13:00:00Z");
+    const sameDay = slot("2025-10-15T14:00:00Z");
+    const nextDay = slot("2025-10-16T13:00:00Z");
+
+    const ranked = rankSlots([backToBack, padded, sameDay, nextDay], {
+      busy,
+      timeZone: "UTC"
+    });
+    expect(ranked).toEqual([padded, nextDay, sameDay, backToBack]);
+  });
+});
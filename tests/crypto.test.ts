@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  decryptSecret,
+  encryptSecret
+} from "../src/lib/crypto";
+
+describe("crypto", () => {
+  it("round-trips base64url without padding", () => {
+    const bytes = new Uint8Array([251, 255, 0, 62, 63]);
+    const encoded = base64UrlEncode(bytes);
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect([...base64UrlDecode(encoded)]).toEqual([...bytes]);
+  });
+
+  it("encrypts secrets so only the same key decrypts them", async () => {
+    const encrypted = await encryptSecret("1//refresh-token", "key-one");
+    expect(encrypted).not.toContain("refresh-token");
+    // A fresh IV every time
+    expect(await encryptSecret("1//refresh-token", "key-one")).not.toBe(
+      encrypted
+    );
+    expect(await decryptSecret(encrypted, "key-one")).toBe("1//refresh-token");
+    await expect(decryptSecret(encrypted, "key-two")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { parseDateTime, parseDuration } from "../src/lib/date-parser";
+
+// Wednesday, October 15th 2025, 10:00 in New York (EDT, UTC-4)
+const now = new Date("2025-10-15T14:00:00Z");
+const timeZone = "America/New_York";
+
+function parse(input: string) {
+  return parseDateTime(input, { now, timeZone });
+}
+
+function expectOk(input: string) {
+  const result = parse(input);
+  if (result.status !== "ok") {
+    throw new Error(`Expected "${input}" to parse, got ${result.status}`);
+  }
+  return result.value;
+}
+
+describe("parseDateTime", () => {
+  it("parses day words with a time", () => {
+    const value = expectOk("tomorrow at 2pm");
+    expect(value.start.toISOString()).toBe("2025-10-16T18:00:00.000Z");
+    expect(value.allDay).toBe(false);
+  });
+
+  it("moves bare weekdays to their next occurrence", () => {
+    expect(expectOk("Monday at 9am").start.toISOString()).toBe(
+      "2025-10-20T13:00:00.000Z"
+    );
+  });
+
+  it("reports 'next <weekday>' as ambiguous within the current week", () => {
+    const result = parse("next Friday at 10am");
+    expect(result.status).toBe("ambiguous");
+    if (result.status !== "ambiguous") return;
+    expect(result.candidates.map((c) => c.start.toISOString())).toEqual([
+      "2025-10-17T14:00:00.000Z",
+      "2025-10-24T14:00:00.000Z"
+    ]);
+  });
+
+  it("resolves 'next <weekday>' in the following week", () => {
+    expect(expectOk("next Monday at 9am").start.toISOString()).toBe(
+      "2025-10-20T13:00:00.000Z"
+    );
+  });
+
+  it("parses whole weeks as Monday to Sunday", () => {
+    const value = expectOk("next week");
+    expect(value.start.toISOString()).toBe("2025-10-20T04:00:00.000Z");
+    expect(value.end?.toISOString()).toBe("2025-10-27T04:00:00.000Z");
+    expect(expectOk("this week").end?.toISOString()).toBe(
+      "2025-10-20T04:00:00.000Z"
+    );
+  });
+
+  it("parses whole months and the ends of periods", () => {
+    const month = expectOk("next month");
+    expect(month.start.toISOString()).toBe("2025-11-01T04:00:00.000Z");
+    expect(month.end?.toISOString()).toBe("2025-12-01T05:00:00.000Z");
+    expect(expectOk("end of this week").start.toISOString()).toBe(
+      "2025-10-20T03:59:00.000Z"
+    );
+    expect(expectOk("end of next month").start.toISOString()).toBe(
+      "2025-12-01T04:59:00.000Z"
+    );
+    expect(expectOk("EOD").start.toISOString()).toBe(
+      "2025-10-16T03:59:00.000Z"
+    );
+    expect(expectOk("by the end of the week").allDay).toBe(false);
+  });
+
+  it("parses relative offsets", () => {
+    expect(expectOk("in 3 hours").start.toISOString()).toBe(
+      "2025-10-15T17:00:00.000Z"
+    );
+    expect(expectOk("in 2 days at 9am").start.toISOString()).toBe(
+      "2025-10-17T13:00:00.000Z"
+    );
+  });
+
+  it("parses absolute dates without reading ordinals as times", () => {
+    const allDay = expectOk("June 5th");
+    expect(allDay.allDay).toBe(true);
+    expect(allDay.start.toISOString()).toBe("2026-06-05T04:00:00.000Z");
+
+    expect(expectOk("Nov 3rd at 3pm").start.toISOString()).toBe(
+      "2025-11-03T20:00:00.000Z"
+    );
+  });
+
+  it("parses ISO strings in the user's zone unless they carry an offset", () => {
+    expect(expectOk("2025-11-03T14:00").start.toISOString()).toBe(
+      "2025-11-03T19:00:00.000Z"
+    );
+    expect(expectOk("2025-11-03T14:00:00Z").start.toISOString()).toBe(
+      "2025-11-03T14:00:00.000Z"
+    );
+  });
+
+  it("parses time ranges", () => {
+    const range = expectOk("tomorrow 2-4pm");
+    expect(range.start.toISOString()).toBe("2025-10-16T18:00:00.000Z");
+    expect(range.end?.toISOString()).toBe("2025-10-16T20:00:00.000Z");
+
+    const acrossNoon = expectOk("Friday 11-1pm");
+    expect(acrossNoon.start.toISOString()).toBe("2025-10-17T15:00:00.000Z");
+    expect(acrossNoon.end?.toISOString()).toBe("2025-10-17T17:00:00.000Z");
+  });
+
+  it("parses durations", () => {
+    const value = expectOk("tomorrow at 10am for 90 minutes");
+    expect(value.start.toISOString()).toBe("2025-10-16T14:00:00.000Z");
+    expect(value.end?.toISOString()).toBe("2025-10-16T15:30:00.000Z");
+  });
+
+  it("reports a bare hour as ambiguous", () => {
+    const result = parse("tomorrow at 3");
+    expect(result.status).toBe("ambiguous");
+    if (result.status !== "ambiguous") return;
+    expect(result.candidates).toHaveLength(2);
+  });
+
+  it("uses the part of the day to settle am/pm", () => {
+    expect(expectOk("3 in the afternoon").start.toISOString()).toBe(
+      "2025-10-15T19:00:00.000Z"
+    );
+  });
+
+  it("rolls a time that has already passed today to tomorrow", () => {
+    expect(expectOk("at 9am").start.toISOString()).toBe(
+      "2025-10-16T13:00:00.000Z"
+    );
+  });
+
+  it("rejects impossible or unrecognized input", () => {
+    expect(parse("February 30").status).toBe("invalid");
+    expect(parse("sometime soon").status).toBe("invalid");
+    expect(parse("tomorrow at 25:00").status).toBe("invalid");
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads lengths of time in minutes", () => {
+    expect(parseDuration("10 minutes")).toBe(10);
+    expect(parseDuration("an hour and a half")).toBe(90);
+    expect(parseDuration("1 hour and 15 minutes")).toBe(75);
+    expect(parseDuration("1h 30m")).toBe(90);
+    expect(parseDuration("by a day")).toBe(24 * 60);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDuration("tomorrow morning")).toBeNull();
+    expect(parseDuration("5")).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  createModelClassifier,
+  createRuleClassifier,
+  findMisroute,
+  narrowTools,
+  routeIntent,
+  type IntentClassifier
+} from "../src/lib/intent-router";
+
+const rules = createRuleClassifier();
+const intentOf = async (text: string) =>
+  (await rules.classify(text))?.intent ?? "none";
+
+describe("rule classifier", () => {
+  it("tells reminders from calendar events", async () => {
+    expect(await intentOf("Schedule a reminder to call mom at 6pm")).toBe(
+      "schedule_task"
+    );
+    expect(await intentOf("Set up a sync with Dan on Thursday")).toBe(
+      "create_event"
+    );
+    expect(await intentOf("Block my calendar for a code review tomorrow")).toBe(
+      "create_event"
+    );
+    expect(await intentOf("What's overdue?")).toBe("schedule_task");
+    expect(await intentOf("Mark the report as done")).toBe("schedule_task");
+    expect(await intentOf("Snooze that for 10 minutes")).toBe("schedule_task");
+    expect(await intentOf("Reschedule my reminder to tomorrow")).toBe(
+      "schedule_task"
+    );
+    expect(await intentOf("Remove the dentist task")).toBe("schedule_task");
+    expect(await intentOf("Delete that task")).toBe("schedule_task");
+    expect(await intentOf("Cancel the meeting prep task")).toBe(
+      "schedule_task"
+    );
+    expect(await intentOf("Schedule a meeting about the migration task")).toBe(
+      "create_event"
+    );
+  });
+
+  it("recognizes questions, changes and other tools", async () => {
+    expect(await intentOf("What's on my calendar tomorrow?")).toBe(
+      "query_calendar"
+    );
+    expect(await intentOf("Move my 2pm to 4pm")).toBe("modify_event");
+    expect(await intentOf("Find 30 minutes with alice@x.com next week")).toBe(
+      "find_time"
+    );
+    expect(await intentOf("What's 3pm PT in Berlin?")).toBe("local_time");
+    expect(await intentOf("Will it rain in Lisbon? Weather please")).toBe(
+      "weather"
+    );
+    expect(await intentOf("hello there")).toBe("none");
+  });
+});
+
+describe("routeIntent", () => {
+  it("asks the model only when the rules are unsure", async () => {
+    const prompts: string[] = [];
+    const model = createModelClassifier(async (prompt) => {
+      prompts.push(prompt);
+      return 'Sure: {"intent": "weather", "confidence": 0.9}';
+    });
+
+    expect(
+      await routeIntent("Set up a sync with Dan", [rules, model])
+    ).toMatchObject({ intent: "create_event", source: "rules" });
+    expect(prompts).toHaveLength(0);
+
+    expect(await routeIntent("do I need a jacket", [rules, model])).toEqual({
+      intent: "weather",
+      confidence: 0.9,
+      source: "model"
+    });
+  });
+
+  it("skips failing classifiers and falls back to general", async () => {
+    const broken: IntentClassifier = {
+      name: "broken",
+      classify: async () => {
+        throw new Error("offline");
+      }
+    };
+    const garbled = createModelClassifier(async () => "no idea");
+    expect(await routeIntent("hello", [broken, garbled])).toEqual({
+      intent: "general",
+      confidence: 0,
+      source: "none"
+    });
+  });
+});
+
+describe("narrowTools and findMisroute", () => {
+  const tools = {
+    createCalendarEvent: 1,
+    scheduleTask: 2,
+    getWeatherInformation: 3,
+    mcpSearch: 4
+  };
+
+  it("narrows only confident routes and keeps unknown tools", () => {
+    const route = {
+      intent: "schedule_task" as const,
+      confidence: 0.85,
+      source: "rules"
+    };
+    expect(Object.keys(narrowTools(tools, route))).toEqual([
+      "scheduleTask",
+      "mcpSearch"
+    ]);
+    expect(narrowTools(tools, { ...route, confidence: 0.5 })).toBe(tools);
+  });
+
+  it("reports missing and out-of-intent tool calls", () => {
+    const route = {
+      intent: "create_event" as const,
+      confidence: 0.85,
+      source: "rules"
+    };
+    expect(findMisroute(route, [])).toBe("no tool was called for create_event");
+    expect(findMisroute(route, ["scheduleTask"])).toBe(
+      "scheduleTask called for create_event"
+    );
+    expect(
+      findMisroute(route, ["createCalendarEvent", "mcpSearch"])
+    ).toBeUndefined();
+    expect(
+      findMisroute({ ...route, intent: "query_calendar" }, [])
+    ).toBeUndefined();
+  });
+});
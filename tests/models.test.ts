@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  DEFAULT_MODEL_ID,
+  fallbackChain,
+  MODELS,
+  runWithFallback
+} from "../src/lib/models";
+
+describe("fallbackChain", () => {
+  it("starts with the chosen model and skips models without tools", () => {
+    const chain = fallbackChain("@cf/meta/llama-3.3-70b-instruct-fp8-fast");
+    expect(chain[0]).toBe("@cf/meta/llama-3.3-70b-instruct-fp8-fast");
+    expect(chain).toContain(DEFAULT_MODEL_ID);
+    expect(new Set(chain).size).toBe(chain.length);
+    const noTools = MODELS.filter((model) => !model.toolCalling);
+    for (const model of noTools) expect(chain).not.toContain(model.id);
+  });
+
+  it("uses the default for unknown models", () => {
+    expect(fallbackChain("nope")[0]).toBe(DEFAULT_MODEL_ID);
+  });
+});
+
+describe("runWithFallback", () => {
+  it("moves past errors, timeouts and rejected results", async () => {
+    const discard = vi.fn();
+    const { result, modelId, attempts } = await runWithFallback(
+      ["a", "b", "c", "d"],
+      async (model, signal) => {
+        if (model === "a") throw new Error("boom");
+        if (model === "b") {
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          return signal.aborted ? "late" : "b";
+        }
+        return model === "c" ? "described instead of calling" : "called";
+      },
+      {
+        timeoutMs: 20,
+        reject: (text) =>
+          text.startsWith("described") ? "no tool call" : undefined,
+        discard
+      }
+    );
+
+    expect(result).toBe("called");
+    expect(modelId).toBe("d");
+    expect(attempts.map((attempt) => attempt.outcome)).toEqual([
+      "error",
+      "timeout",
+      "rejected",
+      "ok"
+    ]);
+    expect(discard).toHaveBeenCalledWith("described instead of calling");
+  });
+
+  it("keeps the last model's answer and throws when everything fails", async () => {
+    const last = await runWithFallback(["a"], async () => "no tool", {
+      timeoutMs: 1000,
+      reject: () => "no tool call"
+    });
+    expect(last.result).toBe("no tool");
+    expect(last.attempts).toEqual([
+      { modelId: "a", outcome: "rejected", detail: "no tool call" }
+    ]);
+
+    await expect(
+      runWithFallback(
+        ["a", "b"],
+        async (model) => {
+          throw new Error(`${model} down`);
+        },
+        { timeoutMs: 1000 }
+      )
+    ).rejects.toThrow("b down");
+  });
+
+  it("does not retry an attempt that already had side effects", async () => {
+    let toolRan = false;
+    const attempt = vi.fn(async (model: string) => {
+      toolRan = true;
+      throw new Error(`${model} failed after its tool ran`);
+    });
+    await expect(
+      runWithFallback(["a", "b"], attempt, {
+        timeoutMs: 1000,
+        canRetry: () => !toolRan
+      })
+    ).rejects.toThrow("a failed after its tool ran");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops the chain when the user aborts", async () => {
+    const controller = new AbortController();
+    const attempt = vi.fn(async () => {
+      controller.abort();
+      throw new Error("aborted");
+    });
+    await expect(
+      runWithFallback(["a", "b"], attempt, {
+        timeoutMs: 1000,
+        signal: controller.signal
+      })
+    ).rejects.toThrow("aborted");
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
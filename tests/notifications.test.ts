@@ -0,0 +1,209 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  deliverNotification,
+  emailChannel,
+  type EmailMessage,
+  pushPayload,
+  truncateText,
+  unavailableChannel,
+  validateNotificationPreferences,
+  webhookChannel,
+  webPushChannel
+} from "../src/lib/notifications";
+import { base64UrlEncode } from "../src/lib/crypto";
+import { MAX_PUSH_PAYLOAD_BYTES } from "../src/lib/web-push";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const message = { title: "⏰ Call mom", body: "It's 6pm", tag: "task-run-1" };
+const now = () => new Date("2026-10-19T18:00:00Z");
+
+describe("deliverNotification", () => {
+  it("sends on every channel and reports each attempt", async () => {
+    const sent: EmailMessage[] = [];
+    const attempts = await deliverNotification(
+      message,
+      [
+        emailChannel(
+          { send: async (email) => void sent.push(email) },
+          "me@example.com"
+        ),
+        unavailableChannel(
+          "email",
+          "you@example.com",
+          "Email is not configured"
+        )
+      ],
+      now
+    );
+
+    expect(sent).toEqual([
+      { to: "me@example.com", subject: "⏰ Call mom", text: "It's 6pm" }
+    ]);
+    expect(attempts).toEqual([
+      {
+        channel: "email",
+        target: "me@example.com",
+        status: "delivered",
+        attemptedAt: "2026-10-19T18:00:00.000Z"
+      },
+      {
+        channel: "email",
+        target: "you@example.com",
+        status: "failed",
+        error: "Email is not configured",
+        attemptedAt: "2026-10-19T18:00:00.000Z"
+      }
+    ]);
+  });
+});
+
+describe("webhookChannel", () => {
+  it("posts the message signed with the shared secret", async () => {
+    const fetchMock = vi.fn(
+      async (_url: string, _init: RequestInit) => new Response(null)
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await webhookChannel("https://hooks.example.com/r", "secret", now).send(
+      message
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = init.body as string;
+    expect(url).toBe("https://hooks.example.com/r");
+    expect(JSON.parse(body)).toEqual({
+      type: "reminder",
+      ...message,
+      sentAt: "2026-10-19T18:00:00.000Z"
+    });
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode("secret"),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      key,
+      new TextEncoder().encode(body)
+    );
+    const expected = [...new Uint8Array(signature)]
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    expect((init.headers as Record<string, string>)["X-Signature"]).toBe(
+      `sha256=${expected}`
+    );
+  });
+
+  it("fails when the receiver does not accept it", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(null, { status: 500 }))
+    );
+    await expect(
+      webhookChannel("https://hooks.example.com/r").send(message)
+    ).rejects.toThrow("Webhook answered 500");
+  });
+
+  it("gives up on a receiver that does not answer", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => {
+      throw new DOMException("The operation timed out", "TimeoutError");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    await expect(
+      webhookChannel("https://hooks.example.com/r").send(message)
+    ).rejects.toThrow("Webhook did not answer within 10s");
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+});
+
+describe("webPushChannel", () => {
+  async function subscription() {
+    const receiver = (await crypto.subtle.generateKey(
+      { name: "ECDH", namedCurve: "P-256" },
+      true,
+      ["deriveBits"]
+    )) as CryptoKeyPair;
+    return {
+      endpoint: "https://fcm.googleapis.com/fcm/send/abc",
+      keys: {
+        p256dh: base64UrlEncode(
+          await crypto.subtle.exportKey("raw", receiver.publicKey)
+        ),
+        auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))
+      }
+    };
+  }
+
+  async function vapid() {
+    const keys = (await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"]
+    )) as CryptoKeyPair;
+    const { d } = await crypto.subtle.exportKey("jwk", keys.privateKey);
+    return {
+      publicKey: base64UrlEncode(
+        await crypto.subtle.exportKey("raw", keys.publicKey)
+      ),
+      privateKey: d!,
+      subject: "mailto:ops@example.com"
+    };
+  }
+
+  it("gives up on a push service that does not answer", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => {
+      throw new DOMException("The operation timed out", "TimeoutError");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const onGone = vi.fn();
+    await expect(
+      webPushChannel(await subscription(), await vapid(), onGone).send(message)
+    ).rejects.toThrow("Push service did not answer within 10s");
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    expect(onGone).not.toHaveBeenCalled();
+  });
+});
+
+describe("pushPayload", () => {
+  it("cuts the body so the payload fits in one push record", () => {
+    const long = { ...message, body: "é".repeat(3000) };
+    const payload = pushPayload(long);
+    expect(new TextEncoder().encode(payload).length).toBeLessThanOrEqual(
+      MAX_PUSH_PAYLOAD_BYTES
+    );
+    const { body } = JSON.parse(payload);
+    expect(body.endsWith("…")).toBe(true);
+    expect(body.length).toBeGreaterThan(1900);
+    expect(pushPayload(message)).toBe(JSON.stringify(message));
+  });
+
+  it("marks cut text with an ellipsis", () => {
+    expect(truncateText("Call mom", 20)).toBe("Call mom");
+    expect(truncateText("Call mom about the trip", 8)).toBe("Call mo…");
+  });
+});
+
+describe("validateNotificationPreferences", () => {
+  it("accepts addresses and https webhooks only", () => {
+    expect(
+      validateNotificationPreferences({
+        email: "me@example.com",
+        webhookUrl: "https://hooks.example.com/r"
+      })
+    ).toBeUndefined();
+    expect(validateNotificationPreferences({ email: "me" })).toBe(
+      '"me" is not an email address'
+    );
+    expect(
+      validateNotificationPreferences({ webhookUrl: "http://example.com" })
+    ).toBe("The webhook URL must use https");
+    expect(
+      validateNotificationPreferences({ webhookUrl: "http://localhost:8787" })
+    ).toBeUndefined();
+  });
+});
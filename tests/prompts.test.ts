@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  ACTIVE_PROMPT_VERSION,
+  describeTools,
+  getPromptTemplate,
+  PROMPT_TEMPLATES,
+  renderSystemPrompt,
+  type PromptContext
+} from "../src/lib/prompts";
+
+const context: PromptContext = {
+  now: new Date("2026-03-02T15:00:00Z"),
+  timeZone: "Europe/Berlin",
+  defaultCalendarName: "Work",
+  tools: {
+    getLocalTime: { description: "get the local time for a place" },
+    mcpTool: {}
+  },
+  guidance: "",
+  schedulePrompt: "Schedule tasks like this.\n"
+};
+
+describe("prompt templates", () => {
+  it("has unique versions and an active one", () => {
+    const versions = PROMPT_TEMPLATES.map((template) => template.version);
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(getPromptTemplate().version).toBe(ACTIVE_PROMPT_VERSION);
+    expect(getPromptTemplate("no-such-version").version).toBe(
+      ACTIVE_PROMPT_VERSION
+    );
+  });
+
+  it("describes tools from their registered descriptions", () => {
+    expect(describeTools(context.tools)).toBe(
+      "Available tools:\n- getLocalTime: get the local time for a place\n- mcpTool"
+    );
+    expect(describeTools({})).toBe("");
+  });
+
+  it("renders the sections and stamps the version", () => {
+    const prompt = renderSystemPrompt(getPromptTemplate(), {
+      ...context,
+      guidance: "The user wants a local time.",
+      googleStatus: "reconnect_required"
+    });
+    expect(prompt.version).toBe(ACTIVE_PROMPT_VERSION);
+    expect(prompt.text).toContain("The user wants a local time.");
+    expect(prompt.text).toContain("- getLocalTime: get the local time");
+    expect(prompt.text).toContain("Schedule tasks like this.");
+    expect(prompt.text).toContain("Europe/Berlin");
+    expect(prompt.text).toContain('"Work"');
+    expect(prompt.text).toContain("reconnects Google");
+    expect(prompt.text).not.toMatch(/\n{3,}/);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRecurrence,
+  firstOccurrence,
+  parseRecurrence,
+  type Recurrence,
+  toRecurrenceLines
+} from "../src/lib/recurrence";
+
+// Wednesday, October 15th 2025, 10:00 in New York (EDT, UTC-4)
+const start = new Date("2025-10-15T14:00:00Z");
+const timeZone = "America/New_York";
+
+function expectRule(input: string): Recurrence {
+  const result = parseRecurrence(input, { start, timeZone });
+  if (result.status !== "ok") {
+    throw new Error(`Expected "${input}" to parse: ${result.message}`);
+  }
+  return result.value;
+}
+
+function rrule(input: string) {
+  return toRecurrenceLines(expectRule(input), { timeZone });
+}
+
+describe("parseRecurrence", () => {
+  it("reads daily rules", () => {
+    expect(rrule("every day")).toEqual(["RRULE:FREQ=DAILY"]);
+    expect(rrule("every other day")).toEqual(["RRULE:FREQ=DAILY;INTERVAL=2"]);
+  });
+
+  it("reads weekly rules on given days", () => {
+    expect(rrule("every Tuesday")).toEqual(["RRULE:FREQ=WEEKLY;BYDAY=TU"]);
+    expect(rrule("every Mon, Wed and Fri")).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR"
+    ]);
+    expect(rrule("every weekday")).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+    ]);
+    expect(rrule("every 2 weeks on Thursday")).toEqual([
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH"
+    ]);
+    // Plain "weekly" repeats on the day of the first occurrence
+    expect(rrule("weekly")).toEqual(["RRULE:FREQ=WEEKLY;BYDAY=WE"]);
+  });
+
+  it("reads monthly rules by date or by weekday", () => {
+    expect(rrule("every month on the 15th")).toEqual([
+      "RRULE:FREQ=MONTHLY;BYMONTHDAY=15"
+    ]);
+    expect(rrule("the first Monday of every month")).toEqual([
+      "RRULE:FREQ=MONTHLY;BYDAY=1MO"
+    ]);
+    expect(rrule("monthly on the last Friday")).toEqual([
+      "RRULE:FREQ=MONTHLY;BYDAY=-1FR"
+    ]);
+  });
+
+  it("reads counts, end dates and exceptions", () => {
+    expect(rrule("every Tuesday 10 times")).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=10"
+    ]);
+    expect(rrule("every weekday until Oct 31")).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20251101T035959Z"
+    ]);
+    expect(rrule("daily for 2 weeks except Oct 20 and Oct 21")).toEqual([
+      "RRULE:FREQ=DAILY;UNTIL=20251029T135959Z",
+      "EXDATE;TZID=America/New_York:20251020T100000,20251021T100000"
+    ]);
+  });
+
+  it("passes RRULE strings through", () => {
+    expect(rrule("RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=6")).toEqual([
+      "RRULE:FREQ=MONTHLY;BYDAY=2TU;COUNT=6"
+    ]);
+  });
+
+  it("rejects rules it cannot read", () => {
+    expect(parseRecurrence("sometimes", { start, timeZone }).status).toBe(
+      "invalid"
+    );
+    expect(
+      parseRecurrence("every Tuesday except someday", { start, timeZone })
+        .status
+    ).toBe("invalid");
+  });
+});
+
+describe("firstOccurrence", () => {
+  it("moves the start to the first day the rule allows", () => {
+    expect(
+      firstOccurrence(
+        expectRule("every Tuesday"),
+        start,
+        timeZone
+      ).toISOString()
+    ).toBe("2025-10-21T14:00:00.000Z");
+    expect(
+      firstOccurrence(
+        expectRule("the first Monday of every month"),
+        start,
+        timeZone
+      ).toISOString()
+    ).toBe("2025-11-03T15:00:00.000Z");
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes rules in plain English", () => {
+    expect(describeRecurrence(expectRule("every weekday"), timeZone)).toBe(
+      "Every weekday"
+    );
+    expect(
+      describeRecurrence(
+        expectRule("every other week on Mon and Thu 6 times"),
+        timeZone
+      )
+    ).toBe("Every other week on Monday and Thursday, 6 times");
+    expect(
+      describeRecurrence(
+        expectRule("the last Friday of each month until Dec 31 except Nov 28"),
+        timeZone
+      )
+    ).toBe(
+      "Every month on the last Friday, until Wed, Dec 31, 2025, except Fri, Nov 28"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  agentNameForSession,
+  createSessionId,
+  readCookie,
+  serializeCookie,
+  sessionCookie,
+  sessionIdOf
+} from "../src/lib/session";
+
+function requestWithCookie(cookie: string): Request {
+  return new Request("https://example.com/", { headers: { Cookie: cookie } });
+}
+
+describe("sessions", () => {
+  it("reads one cookie among several", () => {
+    const request = requestWithCookie("theme=dark; google_oauth_state=a%3Db");
+    expect(readCookie(request, "google_oauth_state")).toBe("a=b");
+    expect(readCookie(request, "session")).toBeUndefined();
+  });
+
+  it("only accepts well-formed session IDs", () => {
+    const id = createSessionId();
+    expect(sessionIdOf(requestWithCookie(`session=${id}`))).toBe(id);
+    expect(sessionIdOf(requestWithCookie("session=default"))).toBeUndefined();
+  });
+
+  it("names one agent per session without revealing the ID", async () => {
+    const id = createSessionId();
+    const name = await agentNameForSession(id);
+    expect(name).toMatch(/^user-[0-9a-f]{32}$/);
+    expect(name).not.toContain(id);
+    expect(await agentNameForSession(id)).toBe(name);
+    expect(await agentNameForSession(createSessionId())).not.toBe(name);
+  });
+
+  it("keeps session cookies away from scripts and other sites", () => {
+    expect(sessionCookie("abc", true)).toBe(
+      "session=abc; Path=/; Max-Age=31536000; HttpOnly; SameSite=Lax; Secure"
+    );
+    expect(
+      serializeCookie("google_oauth_state", "", {
+        path: "/oauth/google",
+        maxAge: 0,
+        secure: false
+      })
+    ).toBe(
+      "google_oauth_state=; Path=/oauth/google; Max-Age=0; HttpOnly; SameSite=Lax"
+    );
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyTaskChanges,
+  filterTasks,
+  findTask,
+  parseNewTask,
+  parseTaskChanges,
+  rescheduleTarget,
+  snoozedUntil,
+  snoozeTarget,
+  sortTasks,
+  type Task,
+  upcomingSchedules
+} from "../src/lib/tasks";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+function task(id: string, fields: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    priority: "medium",
+    status: "todo",
+    tags: [],
+    createdAt: "2026-10-01T00:00:00Z",
+    updatedAt: "2026-10-01T00:00:00Z",
+    ...fields
+  };
+}
+
+const tasks = [
+  task("report", { title: "Finish the report", due: "2026-10-18T17:00:00Z" }),
+  task("slides", {
+    title: "Review slides",
+    due: "2026-10-21T09:00:00Z",
+    tags: ["work"]
+  }),
+  task("groceries", { title: "Buy groceries", priority: "high" }),
+  task("taxes", {
+    title: "File taxes",
+    due: "2026-10-01T00:00:00Z",
+    status: "done",
+    closedAt: "2026-10-02T00:00:00Z"
+  })
+];
+
+describe("filterTasks and sortTasks", () => {
+  it("answers what's overdue and what's due, over open tasks by default", () => {
+    const ids = (query: Parameters<typeof filterTasks>[1]) =>
+      filterTasks(tasks, query, now).map((found) => found.id);
+
+    expect(ids({ overdue: true })).toEqual(["report"]);
+    expect(ids({ dueBefore: "2026-10-25T00:00:00Z" })).toEqual([
+      "report",
+      "slides"
+    ]);
+    expect(ids({ tag: "#Work" })).toEqual(["slides"]);
+    expect(ids({ status: ["done"] })).toEqual(["taxes"]);
+    expect(ids({ text: "GROCER" })).toEqual(["groceries"]);
+  });
+
+  it("puts overdue tasks first and undated ones last", () => {
+    const open = filterTasks(tasks, {}, now).reverse();
+    expect(sortTasks(open, now).map((found) => found.id)).toEqual([
+      "report",
+      "slides",
+      "groceries"
+    ]);
+  });
+});
+
+describe("findTask", () => {
+  it("finds a task by ID or by the words the user used", () => {
+    const found = findTask(tasks, "the report");
+    expect(found.ok && found.task.id).toBe("report");
+    expect(findTask(tasks, "taxes").ok).toBe(true);
+    expect(findTask(tasks, "dentist")).toEqual({
+      ok: false,
+      message: 'No task matches "dentist".'
+    });
+  });
+
+  it("asks which one when several open tasks match", () => {
+    const found = findTask(
+      [...tasks, task("report-2", { title: "Send the report" })],
+      "the report"
+    );
+    expect(found.ok).toBe(false);
+  });
+});
+
+describe("applyTaskChanges", () => {
+  it("closes and reopens tasks and clears fields given null", () => {
+    const done = applyTaskChanges(
+      tasks[0],
+      { status: "done", due: null, tags: ["#Work", "work"] },
+      now
+    );
+    expect(done).toMatchObject({
+      status: "done",
+      closedAt: now.toISOString(),
+      tags: ["work"]
+    });
+    expect(done.due).toBeUndefined();
+    expect(applyTaskChanges(done, { status: "todo" }, now).closedAt).toBe(
+      undefined
+    );
+  });
+});
+
+describe("upcomingSchedules", () => {
+  it("lists pending task runs soonest first, linked to their tasks", () => {
+    const seconds = (iso: string) => new Date(iso).getTime() / 1000;
+    const schedule = (id: string, time: string, fields = {}) => ({
+      id,
+      callback: "executeTask",
+      payload: `run ${id}`,
+      type: "scheduled",
+      time: seconds(time),
+      ...fields
+    });
+    const items = upcomingSchedules(
+      [
+        schedule("later", "2026-10-21T09:00:00Z"),
+        schedule("fired", "2026-10-19T11:00:00Z"),
+        schedule("daily", "2026-10-19T08:00:00Z", {
+          type: "cron",
+          cron: "0 8 * * *"
+        }),
+        schedule("soon", "2026-10-19T13:00:00Z", { callback: "other" })
+      ],
+      [task("slides", { scheduleId: "later" })],
+      now
+    );
+    expect(items).toEqual([
+      {
+        id: "daily",
+        description: "run daily",
+        nextRun: "2026-10-19T08:00:00.000Z",
+        cron: "0 8 * * *"
+      },
+      {
+        id: "later",
+        description: "run later",
+        nextRun: "2026-10-21T09:00:00.000Z",
+        taskId: "slides"
+      }
+    ]);
+  });
+
+  it("snoozes from now once the time has passed", () => {
+    const hour = 60 * 60 * 1000;
+    expect(snoozedUntil("2026-10-19T15:00:00.000Z", hour, now)).toBe(
+      "2026-10-19T16:00:00.000Z"
+    );
+    expect(snoozedUntil("2026-10-18T15:00:00.000Z", hour, now)).toBe(
+      "2026-10-19T13:00:00.000Z"
+    );
+  });
+});
+
+describe("rescheduleTarget and snoozeTarget", () => {
+  const options = { now, timeZone: "Europe/Berlin" };
+
+  it("moves a run to a time in the user's time zone", () => {
+    const target = rescheduleTarget("to tomorrow morning", options);
+    expect(target.ok && target.time.toISOString()).toBe(
+      "2026-10-20T07:00:00.000Z"
+    );
+    expect(rescheduleTarget("2026-10-18T09:00:00Z", options).ok).toBe(false);
+  });
+
+  it("pushes a run back by a length of time or to a time", () => {
+    const snoozed = snoozeTarget("30 minutes", "2026-10-19T15:00:00Z", options);
+    expect(snoozed.ok && snoozed.time.toISOString()).toBe(
+      "2026-10-19T15:30:00.000Z"
+    );
+    const later = snoozeTarget(
+      "tomorrow morning",
+      "2026-10-19T15:00:00Z",
+      options
+    );
+    expect(later.ok && later.time.toISOString()).toBe(
+      "2026-10-20T07:00:00.000Z"
+    );
+  });
+});
+
+describe("parseNewTask", () => {
+  it("accepts a task as the tools send it, with a trimmed title", () => {
+    expect(
+      parseNewTask({
+        title: "  Finish the report ",
+        due: "2026-10-23T17:00:00.000Z",
+        tags: ["work"]
+      })
+    ).toEqual({
+      title: "Finish the report",
+      due: "2026-10-23T17:00:00.000Z",
+      tags: ["work"]
+    });
+  });
+
+  it("rejects malformed input with a readable error", () => {
+    expect(() => parseNewTask({ title: "  " })).toThrow(
+      "Invalid task: title: A task needs a title"
+    );
+    expect(() => parseNewTask({ title: "Report", due: "someday" })).toThrow(
+      "due: Not a valid date"
+    );
+    expect(() => parseNewTask({ title: 42 })).toThrow("Invalid task");
+    expect(() => parseNewTask(null)).toThrow("Invalid task");
+    expect(() =>
+      parseTaskChanges({ status: "finished", priority: "urgent" })
+    ).toThrow(/priority: .*; status: /);
+    expect(parseTaskChanges({ due: null, notes: null })).toEqual({
+      due: null,
+      notes: null
+    });
+  });
+});
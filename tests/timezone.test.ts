@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDateTimeLocal,
+  formatUtcOffset,
+  getTimeZoneOffset,
+  isDaylightSavingTime,
+  parseDateTimeLocal,
+  shiftCronToUtc,
+  zonedDateTimeToDate
+} from "../src/lib/timezone";
+
+describe("zonedDateTimeToDate", () => {
+  it("follows daylight saving time", () => {
+    const summer = { year: 2025, month: 7, day: 1, hour: 14 };
+    const winter = { year: 2025, month: 12, day: 1, hour: 14 };
+    expect(zonedDateTimeToDate(summer, "Europe/Berlin").toISOString()).toBe(
+      "2025-07-01T12:00:00.000Z"
+    );
+    expect(zonedDateTimeToDate(winter, "Europe/Berlin").toISOString()).toBe(
+      "2025-12-01T13:00:00.000Z"
+    );
+  });
+});
+
+describe("getTimeZoneOffset", () => {
+  it("returns minutes east of UTC", () => {
+    const date = new Date("2025-01-15T12:00:00Z");
+    expect(getTimeZoneOffset(date, "Asia/Kolkata")).toBe(330);
+    expect(getTimeZoneOffset(date, "America/Los_Angeles")).toBe(-480);
+  });
+});
+
+describe("shiftCronToUtc", () => {
+  it("shifts the hour of a daily schedule", () => {
+    expect(shiftCronToUtc("0 9 * * *", -240)).toBe("0 13 * * *");
+  });
+
+  it("moves weekdays when the shift crosses midnight", () => {
+    expect(shiftCronToUtc("30 8 * * 1", 600)).toBe("30 22 * * 0");
+  });
+
+  it("expands hour ranges and steps", () => {
+    expect(shiftCronToUtc("*/15 9-17 * * *", -240)).toBe("*/15 13-21 * * *");
+    expect(shiftCronToUtc("0 */6 * * *", 330)).toBe("30 0,6,12,18 * * *");
+  });
+
+  it("rotates weekday ranges across midnight", () => {
+    expect(shiftCronToUtc("0 8 * * 1-5", 540)).toBe("0 23 * * 0-4");
+    expect(shiftCronToUtc("0 20 * * 5,6,7", -300)).toBe("0 1 * * 0,1,6");
+  });
+
+  it("rejects expressions it cannot shift", () => {
+    expect(shiftCronToUtc("0 1 15 * *", 120)).toBeNull();
+    expect(shiftCronToUtc("0 8,20 * * 1-5", 540)).toBeNull();
+    expect(shiftCronToUtc("*/15 9 * * *", 330)).toBeNull();
+    expect(shiftCronToUtc("0 9 * * MON", 600)).toBeNull();
+  });
+});
+
+describe("formatUtcOffset", () => {
+  it("pads hours and minutes", () => {
+    expect(formatUtcOffset(330)).toBe("UTC+05:30");
+    expect(formatUtcOffset(-480)).toBe("UTC-08:00");
+    expect(formatUtcOffset(0)).toBe("UTC+00:00");
+  });
+});
+
+describe("isDaylightSavingTime", () => {
+  it("handles both hemispheres and zones without DST", () => {
+    const january = new Date("2025-01-15T12:00:00Z");
+    expect(isDaylightSavingTime(january, "America/New_York")).toBe(false);
+    expect(isDaylightSavingTime(january, "Australia/Sydney")).toBe(true);
+    expect(isDaylightSavingTime(january, "Asia/Tokyo")).toBe(false);
+  });
+});
+
+describe("datetime-local values", () => {
+  it("reads and writes wall clock times in the user's time zone", () => {
+    const date = parseDateTimeLocal("2025-07-01T14:30", "Europe/Berlin");
+    expect(date?.toISOString()).toBe("2025-07-01T12:30:00.000Z");
+    expect(formatDateTimeLocal(date!, "America/New_York")).toBe(
+      "2025-07-01T08:30"
+    );
+    expect(parseDateTimeLocal("tomorrow", "UTC")).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import type { UIMessage, UIMessageStreamWriter } from "ai";
+import { requiresToolCall } from "../src/lib/intent-router";
+import {
+  isToolContinuation,
+  recoverMissingToolCall,
+  recoveryStrategies,
+  type RecoveryStrategy
+} from "../src/lib/tool-call-recovery";
+import { APPROVAL } from "../src/shared";
+import { processToolCalls } from "../src/utils";
+
+describe("recoveryStrategies", () => {
+  it("corrects with a prompt first, then forces the intent's tool", () => {
+    const strategies = recoveryStrategies("create_event", 3);
+    expect(strategies.map((strategy) => strategy.kind)).toEqual([
+      "initial",
+      "corrective_prompt",
+      "forced_tool_choice",
+      "forced_tool_choice"
+    ]);
+    expect(strategies[2]).toEqual({
+      kind: "forced_tool_choice",
+      toolName: "createCalendarEvent"
+    });
+  });
+
+  it("only tries once when retries are disabled", () => {
+    expect(recoveryStrategies("weather", 0)).toEqual([{ kind: "initial" }]);
+  });
+});
+
+describe("recoverMissingToolCall", () => {
+  it("stops at the first try that calls a tool and records every try", async () => {
+    const discarded: string[] = [];
+    const { result, tries } = await recoverMissingToolCall(
+      recoveryStrategies("create_event", 2),
+      async (strategy: RecoveryStrategy) =>
+        strategy.kind === "corrective_prompt" ? "called" : strategy.kind,
+      {
+        hasToolCall: (result) => result === "called",
+        discard: (result) => discarded.push(result)
+      }
+    );
+    expect(result).toBe("called");
+    expect(tries).toEqual([
+      { strategy: "initial", calledTool: false },
+      { strategy: "corrective_prompt", calledTool: true }
+    ]);
+    expect(discarded).toEqual(["initial"]);
+  });
+
+  it("returns the last try when no correction helps", async () => {
+    const { result, tries } = await recoverMissingToolCall(
+      recoveryStrategies("local_time", 2),
+      async (strategy) => strategy.kind,
+      { hasToolCall: () => false }
+    );
+    expect(result).toBe("forced_tool_choice");
+    expect(tries.every((attempt) => !attempt.calledTool)).toBe(true);
+    expect(tries).toHaveLength(3);
+  });
+});
+
+describe("isToolContinuation", () => {
+  const request: UIMessage = {
+    id: "1",
+    role: "user",
+    parts: [{ type: "text", text: "Schedule a meeting tomorrow at 2pm" }]
+  };
+  const approvalCard = (output?: unknown): UIMessage => ({
+    id: "2",
+    role: "assistant",
+    parts: [
+      output === undefined
+        ? {
+            type: "tool-createCalendarEvent",
+            toolCallId: "call-1",
+            state: "input-available",
+            input: { title: "Meeting" }
+          }
+        : {
+            type: "tool-createCalendarEvent",
+            toolCallId: "call-1",
+            state: "output-available",
+            input: { title: "Meeting" },
+            output
+          }
+    ]
+  });
+
+  it("turns off recovery once the approved tool has run", async () => {
+    const route = {
+      intent: "create_event" as const,
+      confidence: 0.9,
+      source: "rules"
+    };
+    const execute = vi.fn(async () => "✅ Event created");
+    const processed = await processToolCalls({
+      tools: {},
+      dataStream: { write: vi.fn() } as unknown as UIMessageStreamWriter,
+      messages: [request, approvalCard(APPROVAL.YES)],
+      executions: { createCalendarEvent: execute },
+      isPreApproved: async () => false
+    });
+
+    expect(execute).toHaveBeenCalledOnce();
+    // The user's message still routes to the action, but it is done
+    expect(requiresToolCall(route)).toBe(true);
+    expect(isToolContinuation(processed)).toBe(true);
+  });
+
+  it("still expects a tool call for a new request or an open approval", () => {
+    expect(isToolContinuation([request])).toBe(false);
+    expect(isToolContinuation([request, approvalCard()])).toBe(false);
+    expect(
+      isToolContinuation([request, approvalCard("✅ Event created"), request])
+    ).toBe(false);
+  });
+});
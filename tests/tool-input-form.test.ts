@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { asSchema, tool } from "ai";
+import { z } from "zod/v3";
+import {
+  diffToolInput,
+  editedInput,
+  formFieldsFromSchema,
+  type ToolInputSchema
+} from "../src/lib/tool-input-form";
+import {
+  applyInputChanges,
+  inputSchemaError,
+  noteUserEdits
+} from "../src/utils";
+
+describe("formFieldsFromSchema", () => {
+  it("picks a field kind for each property of a zod input schema", () => {
+    const schema = asSchema(
+      z.object({
+        title: z.string().describe("Event title"),
+        description: z.string().optional(),
+        startTime: z.string(),
+        attendees: z.array(z.string()).optional(),
+        priority: z.enum(["low", "high"]).optional(),
+        durationMinutes: z.number().optional(),
+        includeWeekends: z.boolean().optional(),
+        extra: z.object({ nested: z.string() }).optional()
+      })
+    ).jsonSchema as ToolInputSchema;
+
+    expect(
+      formFieldsFromSchema(schema).map(({ name, kind, required }) => [
+        name,
+        kind,
+        required
+      ])
+    ).toEqual([
+      ["title", "text", true],
+      ["description", "textarea", false],
+      ["startTime", "datetime", true],
+      ["attendees", "chips", false],
+      ["priority", "choice", false],
+      ["durationMinutes", "number", false],
+      ["includeWeekends", "boolean", false]
+    ]);
+    expect(formFieldsFromSchema(schema)[0]).toMatchObject({
+      label: "Title",
+      description: "Event title"
+    });
+  });
+});
+
+describe("editing tool input", () => {
+  const input = {
+    title: "Code Reveiw",
+    startTime: "tomorrow at 2pm",
+    location: "Room 4"
+  };
+  const after = {
+    title: "Code Review",
+    startTime: "tomorrow at 2pm",
+    location: "",
+    attendees: ["bob@example.com"]
+  };
+
+  it("lists the changed fields and clears emptied ones with null", () => {
+    const edits = diffToolInput(input, after);
+    expect(edits).toEqual([
+      { field: "title", before: "Code Reveiw", after: "Code Review" },
+      { field: "location", before: "Room 4", after: undefined },
+      { field: "attendees", before: undefined, after: "bob@example.com" }
+    ]);
+    expect(editedInput(after, edits)).toEqual({
+      title: "Code Review",
+      location: null,
+      attendees: ["bob@example.com"]
+    });
+  });
+
+  it("merges the edits into the input and tells the model about them", () => {
+    const edits = diffToolInput(input, after);
+    expect(applyInputChanges(input, editedInput(after, edits))).toEqual({
+      title: "Code Review",
+      startTime: "tomorrow at 2pm",
+      attendees: ["bob@example.com"]
+    });
+    const result = noteUserEdits("✅ Event created", edits);
+    expect(result).toContain("✅ Event created");
+    expect(result).toContain('- title: "Code Reveiw" → "Code Review"');
+    expect(result).toContain('- location: "Room 4" → (cleared)');
+    expect(noteUserEdits({ id: 1 }, edits)).toMatchObject({
+      result: { id: 1 }
+    });
+    expect(noteUserEdits("done", [])).toBe("done");
+  });
+
+  it("rejects edits that break the tool's input schema", async () => {
+    const createEvent = tool({
+      description: "Create an event",
+      inputSchema: z.object({
+        title: z.string(),
+        durationMinutes: z.number().optional()
+      })
+    });
+    expect(
+      await inputSchemaError(createEvent, {
+        title: "Sync",
+        durationMinutes: 30
+      })
+    ).toBeUndefined();
+    expect(
+      await inputSchemaError(
+        createEvent,
+        applyInputChanges({ title: "Sync" }, { title: null })
+      )
+    ).toContain("title");
+    expect(
+      await inputSchemaError(createEvent, {
+        title: "Sync",
+        durationMinutes: "1h"
+      })
+    ).toBeDefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { getToolPolicy, requiresApproval } from "../src/lib/tool-registry";
+import { requireApprovalFor } from "../src/utils";
+
+describe("tool registry", () => {
+  it("keeps built-in policies fixed and defaults runtime tools to auto", () => {
+    expect(requiresApproval("deleteCalendarEvent")).toBe(true);
+    expect(
+      requiresApproval("deleteCalendarEvent", {
+        deleteCalendarEvent: { risk: "read", approval: "auto" }
+      })
+    ).toBe(true);
+    expect(requiresApproval("tool_abc_sendEmail")).toBe(false);
+    expect(
+      getToolPolicy("tool_abc_sendEmail", {
+        tool_abc_sendEmail: { risk: "write", approval: "require_approval" }
+      }).approval
+    ).toBe("require_approval");
+  });
+
+  it("moves the execute function of approval-required tools into executions", async () => {
+    const policies = {
+      tool_abc_sendEmail: {
+        risk: "write" as const,
+        approval: "require_approval" as const
+      }
+    };
+    const gated = requireApprovalFor(
+      {
+        tool_abc_sendEmail: {
+          description: "send",
+          execute: async () => "sent"
+        },
+        tool_abc_search: { description: "search", execute: async () => "found" }
+      },
+      policies
+    );
+    expect(gated.tools.tool_abc_sendEmail.execute).toBeUndefined();
+    expect(gated.tools.tool_abc_sendEmail.description).toBe("send");
+    expect(gated.tools.tool_abc_search.execute).toBeDefined();
+    expect(Object.keys(gated.executions)).toEqual(["tool_abc_sendEmail"]);
+    expect(
+      await gated.executions.tool_abc_sendEmail(
+        {},
+        { toolCallId: "1", messages: [] }
+      )
+    ).toBe("sent");
+  });
+});
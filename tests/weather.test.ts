@@ -0,0 +1,155 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  createOpenMeteoProvider,
+  getWeatherReport,
+  type WeatherProvider
+} from "../src/lib/weather";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("weather", () => {
+  it("geocodes and maps Open-Meteo responses from a custom base URL", async () => {
+    const requests: URL[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: URL) => {
+        requests.push(input);
+        if (input.pathname === "/v1/search") {
+          return Response.json({
+            results: [
+              {
+                name: "Lisbon",
+                admin1: "Lisbon",
+                country: "Portugal",
+                latitude: 38.72,
+                longitude: -9.14,
+                timezone: "Europe/Lisbon"
+              }
+            ]
+          });
+        }
+        return Response.json({
+          current: {
+            time: "2025-06-02T14:00",
+            temperature_2m: 24.4,
+            apparent_temperature: 25.1,
+            relative_humidity_2m: 48,
+            wind_speed_10m: 12.3,
+            weather_code: 2,
+            is_day: 1
+          },
+          daily: {
+            time: ["2025-06-02", "2025-06-03"],
+            weather_code: [2, 61],
+            temperature_2m_max: [26, 21],
+            temperature_2m_min: [17, 15],
+            precipitation_probability_max: [5, null]
+          }
+        });
+      })
+    );
+
+    const report = await getWeatherReport(
+      "Lisbon",
+      createOpenMeteoProvider("http://localhost:8788"),
+      { days: 2 }
+    );
+
+    expect(requests.map((url) => url.origin)).toEqual([
+      "http://localhost:8788",
+      "http://localhost:8788"
+    ]);
+    expect(requests[1].searchParams.get("forecast_days")).toBe("2");
+    expect(requests[1].searchParams.get("timezone")).toBe("Europe/Lisbon");
+    expect(report).toMatchObject({
+      location: { name: "Lisbon", country: "Portugal" },
+      units: { temperature: "°C", windSpeed: "km/h" },
+      current: { temperature: 24.4, condition: "Partly cloudy", isDay: true },
+      daily: [
+        { date: "2025-06-02", condition: "Partly cloudy", high: 26 },
+        { date: "2025-06-03", condition: "Light rain", precipitationChance: 0 }
+      ]
+    });
+  });
+
+  it("searches by the city and picks the result in the named region", async () => {
+    const searches: URL[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: URL) => {
+        searches.push(input);
+        const place = (admin1: string, latitude: number) => ({
+          name: "Austin",
+          admin1,
+          country: "United States",
+          country_code: "US",
+          latitude,
+          longitude: -97.74,
+          timezone: "America/Chicago"
+        });
+        return Response.json({
+          results: [place("Minnesota", 43.67), place("Texas", 30.27)]
+        });
+      })
+    );
+    const provider = createOpenMeteoProvider("http://localhost:8788");
+
+    expect(await provider.geocode("Austin, Texas")).toMatchObject({
+      name: "Austin",
+      region: "Texas",
+      latitude: 30.27
+    });
+    expect(searches[0].searchParams.get("name")).toBe("Austin");
+    // A region that matches no result falls back to the best match
+    expect(await provider.geocode("Austin, TX")).toMatchObject({
+      region: "Minnesota"
+    });
+    expect(await provider.geocode("Austin, us")).toMatchObject({
+      region: "Minnesota"
+    });
+  });
+
+  it("reports unknown places and clamps the forecast length", async () => {
+    const forecast = vi.fn(async () => ({
+      current: {
+        time: "2025-06-02T14:00",
+        temperature: 80,
+        feelsLike: 82,
+        humidity: 40,
+        windSpeed: 5,
+        condition: "Clear sky",
+        isDay: true
+      },
+      daily: []
+    }));
+    const provider: WeatherProvider = {
+      geocode: async (query) =>
+        query === "Austin"
+          ? {
+              name: "Austin",
+              latitude: 30.27,
+              longitude: -97.74,
+              timeZone: "America/Chicago"
+            }
+          : null,
+      forecast
+    };
+
+    expect(await getWeatherReport("Atlantis", provider)).toBe(
+      'Could not find a place called "Atlantis".'
+    );
+    const report = await getWeatherReport("Austin", provider, {
+      days: 14,
+      unit: "fahrenheit"
+    });
+    expect(forecast).toHaveBeenCalledWith(expect.anything(), {
+      days: 7,
+      unit: "fahrenheit"
+    });
+    expect(report).toMatchObject({
+      units: { temperature: "°F", windSpeed: "mph" }
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { base64UrlDecode, base64UrlEncode } from "../src/lib/crypto";
+import {
+  encryptPushPayload,
+  isPushSubscriptionRecord,
+  MAX_PUSH_PAYLOAD_BYTES,
+  vapidAuthorization
+} from "../src/lib/web-push";
+
+// The example of RFC 8291, section 5
+const example = {
+  plaintext: "When I grow up, I want to be a watermelon",
+  senderPrivate: "yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw",
+  senderPublic:
+    "BP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8",
+  receiverPublic:
+    "BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4",
+  authSecret: "BTBZMqHH6r4Tts7J_aSIgg",
+  salt: "DGv6ra1nlYgDCS1FRnbzlw",
+  body: "DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN"
+};
+
+function jwk(publicKey: string, privateKey?: string): JsonWebKey {
+  const bytes = base64UrlDecode(publicKey);
+  return {
+    kty: "EC",
+    crv: "P-256",
+    x: base64UrlEncode(bytes.slice(1, 33)),
+    y: base64UrlEncode(bytes.slice(33, 65)),
+    ...(privateKey && { d: privateKey })
+  };
+}
+
+describe("encryptPushPayload", () => {
+  it("matches the aes128gcm example of RFC 8291", async () => {
+    const algorithm = { name: "ECDH", namedCurve: "P-256" };
+    const senderKeys = {
+      privateKey: await crypto.subtle.importKey(
+        "jwk",
+        jwk(example.senderPublic, example.senderPrivate),
+        algorithm,
+        false,
+        ["deriveBits"]
+      ),
+      publicKey: await crypto.subtle.importKey(
+        "jwk",
+        jwk(example.senderPublic),
+        algorithm,
+        true,
+        []
+      )
+    };
+    const body = await encryptPushPayload(
+      example.plaintext,
+      { p256dh: example.receiverPublic, auth: example.authSecret },
+      { salt: base64UrlDecode(example.salt), senderKeys }
+    );
+    expect(base64UrlEncode(body)).toBe(example.body);
+  });
+
+  it("fits the largest payload in the 4096 bytes push services accept", async () => {
+    const receiver = {
+      p256dh: example.receiverPublic,
+      auth: example.authSecret
+    };
+    const body = await encryptPushPayload(
+      "a".repeat(MAX_PUSH_PAYLOAD_BYTES),
+      receiver
+    );
+    expect(MAX_PUSH_PAYLOAD_BYTES).toBe(3993);
+    expect(body.length).toBe(4096);
+    await expect(
+      encryptPushPayload("a".repeat(MAX_PUSH_PAYLOAD_BYTES + 1), receiver)
+    ).rejects.toThrow("Push payload is too large");
+  });
+});
+
+describe("vapidAuthorization", () => {
+  it("signs a token for the push service's origin", async () => {
+    const keys = (await crypto.subtle.generateKey(
+      { name: "ECDSA", namedCurve: "P-256" },
+      true,
+      ["sign", "verify"]
+    )) as CryptoKeyPair;
+    const publicKey = base64UrlEncode(
+      await crypto.subtle.exportKey("raw", keys.publicKey)
+    );
+    const { d } = await crypto.subtle.exportKey("jwk", keys.privateKey);
+    const now = new Date("2026-10-19T12:00:00Z");
+
+    const header = await vapidAuthorization(
+      "https://push.example.com/send/abc",
+      { publicKey, privateKey: d!, subject: "mailto:ops@example.com" },
+      now
+    );
+    const [, token, key] = /^vapid t=(\S+), k=(\S+)$/.exec(header) ?? [];
+    expect(key).toBe(publicKey);
+    const [head, claims, signature] = token.split(".");
+    expect(
+      JSON.parse(new TextDecoder().decode(base64UrlDecode(claims)))
+    ).toEqual({
+      aud: "https://push.example.com",
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: "mailto:ops@example.com"
+    });
+    expect(
+      await crypto.subtle.verify(
+        { name: "ECDSA", hash: "SHA-256" },
+        keys.publicKey,
+        base64UrlDecode(signature),
+        new TextEncoder().encode(`${head}.${claims}`)
+      )
+    ).toBe(true);
+  });
+});
+
+describe("isPushSubscriptionRecord", () => {
+  it("accepts subscriptions from the browsers' push services only", () => {
+    const keys = { p256dh: example.receiverPublic, auth: example.authSecret };
+    const accepts = (endpoint: string) =>
+      isPushSubscriptionRecord({ endpoint, keys });
+
+    expect(accepts("https://fcm.googleapis.com/fcm/send/abc")).toBe(true);
+    expect(
+      accepts("https://updates.push.services.mozilla.com/wpush/v2/abc")
+    ).toBe(true);
+    expect(accepts("https://web.push.apple.com/QGl")).toBe(true);
+    expect(accepts("https://wns2-by3p.notify.windows.com/w/?token=abc")).toBe(
+      true
+    );
+    expect(accepts("https://hooks.example.com/fcm.googleapis.com")).toBe(false);
+    expect(accepts("https://fcm.googleapis.com.example.com/send")).toBe(false);
+    expect(accepts("http://fcm.googleapis.com/fcm/send/abc")).toBe(false);
+    expect(accepts("not a url")).toBe(false);
+    expect(
+      isPushSubscriptionRecord({ endpoint: "https://web.push.apple.com/QGl" })
+    ).toBe(false);
+  });
+});
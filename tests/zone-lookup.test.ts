@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeZoneTime,
+  getZoneTime,
+  resolveTimeZone
+} from "../src/lib/zone-lookup";
+
+const zoneOf = (place: string) => {
+  const result = resolveTimeZone(place);
+  return result.ok ? result.timeZone : result.message;
+};
+
+describe("resolveTimeZone", () => {
+  it("resolves IANA names, abbreviations, cities and countries", () => {
+    expect(zoneOf("europe/berlin")).toBe("Europe/Berlin");
+    expect(zoneOf("PT")).toBe("America/Los_Angeles");
+    expect(zoneOf("Eastern Time")).toBe("America/New_York");
+    expect(zoneOf("San Francisco")).toBe("America/Los_Angeles");
+    expect(zoneOf("Japan")).toBe("Asia/Tokyo");
+    expect(zoneOf("Paris, France")).toBe("Europe/Paris");
+  });
+
+  it("falls back to the city part of the runtime's zones", () => {
+    expect(zoneOf("Reykjavik")).toBe("Atlantic/Reykjavik");
+    expect(zoneOf("São Paulo")).toBe("America/Sao_Paulo");
+  });
+
+  it("explains places it cannot find", () => {
+    expect(resolveTimeZone("Atlantis").ok).toBe(false);
+  });
+});
+
+describe("getZoneTime", () => {
+  it("reports the offset and daylight saving time", () => {
+    const at = new Date("2025-07-01T22:00:00Z");
+    expect(describeZoneTime(getZoneTime("PT", "America/Los_Angeles", at))).toBe(
+      "Tue, Jul 1, 2025, 3:00 PM in PT (America/Los_Angeles, UTC-07:00, daylight saving time)"
+    );
+    expect(getZoneTime("Berlin", "Europe/Berlin", at)).toMatchObject({
+      localTime: "Wed, Jul 2, 2025, 12:00 AM",
+      offset: "UTC+02:00",
+      isDst: true
+    });
+    expect(getZoneTime("Sydney", "Australia/Sydney", at)).toMatchObject({
+      offset: "UTC+10:00",
+      isDst: false
+    });
+  });
+});